@@ -28,6 +28,7 @@ import {
   getDoc 
 } from '@firebase/firestore';
 import { db } from '@/config/firebase';
+import { usePresence } from '@/utils/presence';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -38,7 +39,10 @@ const TAB_BAR_HEIGHT = Platform.OS === 'ios' ? 83 : 70; // Height including safe
 export default function ChatScreen() {
   const { user, userData } = useAuth();
   const [loading, setLoading] = useState(true);
-  const [chatRooms, setChatRooms] = useState([]);
+  const [chatRooms, setChatRooms] = useState<any[]>([]);
+  
+  // Online status for the people we have chats with
+  const presence = usePresence(chatRooms.map(room => room.otherUserId));
   const scrollY = useRef(new Animated.Value(0)).current;
   
   // Animated header opacity for scroll effect
@@ -58,10 +62,11 @@ export default function ChatScreen() {
       try {
         console.log('Loading chat rooms for user:', user.uid);
         
-        // First get all connections that the user is part of
+        // First get all connections that the user is part of, including
+        // removed ones whose chats stay readable as archived
         const connectionsQuery = query(
           collection(db, 'connectionRequests'),
-          where('status', '==', 'accepted'),
+          where('status', 'in', ['accepted', 'removed']),
           where('participants', 'array-contains', user.uid)
         );
         
@@ -126,7 +131,8 @@ export default function ChatScreen() {
               lastMessageUserId: chatRoomData.lastMessage?.userId || null,
               messageStatus: chatRoomData.lastMessage?.status || null,
               unread: 0, // TODO: Implement unread count
-              tier: connectionData.tier || 'casual'
+              tier: connectionData.tier || 'casual',
+              archived: !!chatRoomData.archived
             };
             
             // Update the chat rooms state
@@ -206,27 +212,33 @@ export default function ChatScreen() {
       onPress={() => router.push(`/chat/${item.id}?name=${encodeURIComponent(item.otherUserName)}`)}
       activeOpacity={0.7}
     >
-      <View style={styles.avatar}>
-        {item.otherUserPhotoURL ? (
-          <Image 
-            source={{ uri: item.otherUserPhotoURL }} 
-            style={styles.avatarImage} 
-            resizeMode="cover" 
-          />
-        ) : (
-          <View style={styles.defaultAvatar}>
-            <Text style={styles.defaultAvatarText}>
-              {(item.otherUserName || '?').charAt(0).toUpperCase()}
-            </Text>
-          </View>
-        )}
-        {/* Online status indicator would go here */}
+      <View style={styles.avatarContainer}>
+        <View style={styles.avatar}>
+          {item.otherUserPhotoURL ? (
+            <Image 
+              source={{ uri: item.otherUserPhotoURL }} 
+              style={styles.avatarImage} 
+              resizeMode="cover" 
+            />
+          ) : (
+            <View style={styles.defaultAvatar}>
+              <Text style={styles.defaultAvatarText}>
+                {(item.otherUserName || '?').charAt(0).toUpperCase()}
+              </Text>
+            </View>
+          )}
+        </View>
+        {/* Online status indicator sits outside the clipped avatar */}
+        {presence[item.otherUserId]?.online && <View style={styles.onlineDot} />}
       </View>
       <View style={styles.chatInfo}>
         <View style={styles.chatHeader}>
-          <Text style={styles.name} numberOfLines={1}>
+          <Text style={[styles.name, item.archived && styles.archivedName]} numberOfLines={1}>
             {item.otherUserName}
           </Text>
+          {item.archived && (
+            <Text style={styles.archivedLabel}>Archived</Text>
+          )}
           {item.lastMessageTimestamp && (
             <Text style={styles.timestamp}>
               {formatTimestamp(item.lastMessageTimestamp)}
@@ -274,8 +286,9 @@ export default function ChatScreen() {
     );
   }
 
-  // Sort chat rooms by last message timestamp, newest first
+  // Sort chat rooms by last message timestamp, newest first, archived ones last
   const sortedChatRooms = [...chatRooms].sort((a, b) => {
+    if (a.archived !== b.archived) return a.archived ? 1 : -1;
     if (!a.lastMessageTimestamp && !b.lastMessageTimestamp) return 0;
     if (!a.lastMessageTimestamp) return 1;
     if (!b.lastMessageTimestamp) return -1;
@@ -430,9 +443,11 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 2,
   },
-  avatar: {
+  avatarContainer: {
     position: 'relative',
     marginRight: 12,
+  },
+  avatar: {
     justifyContent: 'center',
     width: 56,
     height: 56,
@@ -458,6 +473,17 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#fff',
   },
+  onlineDot: {
+    position: 'absolute',
+    bottom: 1,
+    right: 1,
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    backgroundColor: '#26de81',
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
   chatInfo: {
     flex: 1,
     justifyContent: 'center',
@@ -480,6 +506,14 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 8,
   },
+  archivedName: {
+    color: '#999',
+  },
+  archivedLabel: {
+    fontSize: 11,
+    color: '#999',
+    marginRight: 8,
+  },
   timestamp: {
     fontSize: 12,
     color: '#888',
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
   StyleSheet, 
   View, 
@@ -11,7 +11,8 @@ import {
   Image,
   Dimensions,
   Platform,
-  StatusBar
+  StatusBar,
+  TextInput
 } from 'react-native';
 import { router } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -23,15 +24,32 @@ import {
   collection, 
   query, 
   where, 
-  getDocs, 
-  updateDoc, 
-  doc, 
-  deleteDoc, 
-  onSnapshot,
-  addDoc,
-  serverTimestamp
+  onSnapshot
 } from '@firebase/firestore';
 import { db } from '@/config/firebase';
+import { usePresence } from '@/utils/presence';
+import { useBlocks } from '@/utils/blocks';
+import {
+  isRequestExpired,
+  describeRequestExpiry,
+  withdrawConnectionRequest,
+  declineConnectionRequest,
+  acceptConnectionRequest,
+  removeConnection,
+  ACCEPT_FAILURE_MESSAGES,
+  DECLINE_FAILURE_MESSAGES,
+  WITHDRAW_FAILURE_MESSAGES
+} from '@/utils/connectionRequests';
+import { getInterestLabel } from '@/utils/interestTaxonomy';
+import { loadProfiles } from '@/utils/profileLoader';
+import {
+  ConnectionSort,
+  CONNECTION_SORTS,
+  DEFAULT_CONNECTION_SORT,
+  matchesConnectionSearch,
+  sortConnections,
+  groupConnectionsByTier
+} from '@/utils/connectionList';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -52,9 +70,53 @@ const TIER_COLORS = {
 export default function ConnectionsScreen() {
   const { user, userData } = useAuth();
   const [loading, setLoading] = useState(true);
-  const [pendingConnections, setPendingConnections] = useState([]);
-  const [connections, setConnections] = useState([]);
+  const [pendingConnections, setPendingConnections] = useState<any[]>([]);
+  const [connections, setConnections] = useState<any[]>([]);
+  // Pending requests the user sent
+  const [outgoingRequests, setOutgoingRequests] = useState<any[]>([]);
   const [activeTab, setActiveTab] = useState('connections'); // 'connections' or 'requests'
+  // Last message time (epoch ms) by chat room ID
+  const [lastMessageTimes, setLastMessageTimes] = useState<Record<string, number | null>>({});
+  
+  // Search, sort and grouping for the connections list
+  const [searchText, setSearchText] = useState('');
+  const [sort, setSort] = useState<ConnectionSort>(DEFAULT_CONNECTION_SORT);
+  const [groupByTier, setGroupByTier] = useState(false);
+  const [collapsedTiers, setCollapsedTiers] = useState<Set<string>>(new Set());
+  
+  // Blocked users are left out of both lists, whichever side blocked
+  const { blockedUids } = useBlocks(user?.uid);
+  const visibleConnections = useMemo(
+    () => connections.filter(connection => !blockedUids.has(connection.otherUserId)),
+    [connections, blockedUids]
+  );
+  // Expired requests can't be accepted, so only the sender still sees them
+  const visiblePendingConnections = useMemo(
+    () => pendingConnections.filter(request => !blockedUids.has(request.senderId) && !isRequestExpired(request)),
+    [pendingConnections, blockedUids]
+  );
+  const visibleOutgoingRequests = useMemo(
+    () => outgoingRequests.filter(request => !blockedUids.has(request.receiverId)),
+    [outgoingRequests, blockedUids]
+  );
+  
+  // What the connections list shows: searched, sorted and, if asked, grouped
+  // under a header row per tier
+  const connectionRows = useMemo(() => {
+    const matching = visibleConnections
+      .map(connection => ({ ...connection, lastMessageAt: lastMessageTimes[connection.chatRoomId] ?? null }))
+      .filter(connection => matchesConnectionSearch(connection, searchText));
+    const sorted = sortConnections(matching, sort);
+    if (!groupByTier) return sorted;
+    
+    return groupConnectionsByTier(sorted).flatMap(group => [
+      { id: `tier-${group.tier}`, rowType: 'tierHeader', tier: group.tier, count: group.connections.length },
+      ...(collapsedTiers.has(group.tier) ? [] : group.connections)
+    ]);
+  }, [visibleConnections, lastMessageTimes, searchText, sort, groupByTier, collapsedTiers]);
+  
+  // Online status for everyone in the connections list
+  const presence = usePresence(visibleConnections.map(connection => connection.otherUserId));
   
   // Animation values
   const scrollY = useRef(new Animated.Value(0)).current;
@@ -91,6 +153,13 @@ export default function ConnectionsScreen() {
       where('status', '==', 'pending')
     );
 
+    // Get requests this user sent that are still pending
+    const outgoingRequestsQuery = query(
+      collection(db, 'connectionRequests'),
+      where('senderId', '==', user.uid),
+      where('status', '==', 'pending')
+    );
+
     // Get active connections (status = 'accepted')
     const connectionsQuery = query(
       collection(db, 'connectionRequests'),
@@ -98,35 +167,32 @@ export default function ConnectionsScreen() {
       where('participants', 'array-contains', user.uid)
     );
 
+    // Get the chat rooms, for when each connection last messaged
+    const chatRoomsQuery = query(
+      collection(db, 'chatRooms'),
+      where('participants', 'array-contains', user.uid)
+    );
+
     // Set up listeners
     const unsubscribePending = onSnapshot(pendingConnectionsQuery, async (snapshot) => {
       console.log(`Received ${snapshot.docs.length} pending connection requests`);
       
-      // Get user data for each sender
-      const pendingRequestsWithData = await Promise.all(
-        snapshot.docs.map(async (docSnapshot) => {
-          const requestData = docSnapshot.data();
-          // Get sender info
-          const senderDoc = await getDocs(
-            query(collection(db, 'users'), where('uid', '==', requestData.senderId))
-          );
-          
-          let senderData = { name: 'Unknown User' };
-          if (!senderDoc.empty) {
-            senderData = senderDoc.docs[0].data();
-          }
-          
-          return {
-            id: docSnapshot.id,
-            ...requestData,
-            senderName: senderData.name,
-            senderPhotoURL: senderData.photoURL,
-            timestamp: requestData.timestamp?.toDate() || new Date(),
-            tier: requestData.tier || 'casual',
-            sharedInterests: requestData.sharedInterests || []
-          };
-        })
-      );
+      // Get user data for all the senders in one batch
+      const senders = await loadProfiles(snapshot.docs.map(docSnapshot => docSnapshot.data().senderId));
+      const pendingRequestsWithData = snapshot.docs.map((docSnapshot) => {
+        const requestData = docSnapshot.data();
+        const senderData = senders[requestData.senderId];
+        
+        return {
+          id: docSnapshot.id,
+          ...requestData,
+          senderName: senderData?.name || 'Unknown User',
+          senderPhotoURL: senderData?.photoURL,
+          timestamp: requestData.timestamp?.toDate() || new Date(),
+          tier: requestData.tier || 'casual',
+          sharedInterests: requestData.sharedInterests || []
+        };
+      });
       
       // Sort by timestamp, newest first
       pendingRequestsWithData.sort((a, b) => b.timestamp - a.timestamp);
@@ -138,58 +204,60 @@ export default function ConnectionsScreen() {
       setLoading(false);
     });
 
+    const unsubscribeOutgoing = onSnapshot(outgoingRequestsQuery, async (snapshot) => {
+      console.log(`Received ${snapshot.docs.length} outgoing connection requests`);
+      
+      const receivers = await loadProfiles(snapshot.docs.map(docSnapshot => docSnapshot.data().receiverId));
+      const outgoingWithData = snapshot.docs.map((docSnapshot) => {
+        const requestData = docSnapshot.data();
+        const receiverData = receivers[requestData.receiverId];
+        
+        return {
+          id: docSnapshot.id,
+          ...requestData,
+          receiverName: receiverData?.name || 'Unknown User',
+          receiverPhotoURL: receiverData?.photoURL,
+          timestamp: requestData.timestamp?.toDate() || new Date(),
+          tier: requestData.tier || 'casual'
+        };
+      });
+      
+      outgoingWithData.sort((a, b) => b.timestamp - a.timestamp);
+      setOutgoingRequests(outgoingWithData);
+    }, (error) => {
+      console.error('Error getting outgoing requests:', error);
+    });
+
     const unsubscribeConnections = onSnapshot(connectionsQuery, async (snapshot) => {
       console.log(`Received ${snapshot.docs.length} active connections`);
       
-      // Get user data for each connection (the other user, not the current user)
-      const connectionsWithData = await Promise.all(
-        snapshot.docs.map(async (docSnapshot) => {
-          const connectionData = docSnapshot.data();
-          
-          // Find the other user's ID (not the current user)
-          const otherUserId = connectionData.senderId === user.uid 
-            ? connectionData.receiverId 
-            : connectionData.senderId;
-          
-          // Get other user's info
-          const otherUserDoc = await getDocs(
-            query(collection(db, 'users'), where('uid', '==', otherUserId))
-          );
-          
-          let otherUserData = { name: 'Unknown User' };
-          if (!otherUserDoc.empty) {
-            otherUserData = otherUserDoc.docs[0].data();
-          }
-          
-          return {
-            id: docSnapshot.id,
-            ...connectionData,
-            otherUserId,
-            otherUserName: otherUserData.name,
-            otherUserPhotoURL: otherUserData.photoURL,
-            timestamp: connectionData.timestamp?.toDate() || new Date(),
-            tier: connectionData.tier || 'casual',
-            sharedInterests: connectionData.sharedInterests || []
-          };
-        })
-      );
+      // The other user on each connection, not the current user
+      const otherUserIds = snapshot.docs.map(docSnapshot => {
+        const connectionData = docSnapshot.data();
+        return connectionData.senderId === user.uid ? connectionData.receiverId : connectionData.senderId;
+      });
       
-      // Sort by tier and then by name
-      connectionsWithData.sort((a, b) => {
-        const tierRanking = {
-          'soulmate': 5,
-          'bestFriend': 4,
-          'friend': 3,
-          'buddy': 2,
-          'casual': 1
-        };
-        
-        // First sort by tier
-        const tierDiff = tierRanking[b.tier] - tierRanking[a.tier];
-        if (tierDiff !== 0) return tierDiff;
+      // Get user data for all of them in one batch
+      const profiles = await loadProfiles(otherUserIds);
+      
+      // Ordering is left to the list's sort option
+      const connectionsWithData = snapshot.docs.map((docSnapshot, index) => {
+        const connectionData = docSnapshot.data();
+        const otherUserId = otherUserIds[index];
+        const otherUserData = profiles[otherUserId];
         
-        // Then sort by name
-        return a.otherUserName.localeCompare(b.otherUserName);
+        return {
+          id: docSnapshot.id,
+          ...connectionData,
+          otherUserId,
+          otherUserName: otherUserData?.name || 'Unknown User',
+          otherUserPhotoURL: otherUserData?.photoURL,
+          otherUserInterests: otherUserData?.interests || [],
+          timestamp: connectionData.timestamp?.toDate() || new Date(),
+          acceptedAt: connectionData.acceptedAt?.toMillis ? connectionData.acceptedAt.toMillis() : null,
+          tier: connectionData.tier || 'casual',
+          sharedInterests: connectionData.sharedInterests || []
+        };
       });
       
       setConnections(connectionsWithData);
@@ -200,54 +268,46 @@ export default function ConnectionsScreen() {
       setLoading(false);
     });
 
+    // Last message times for sorting by recently messaged
+    const unsubscribeChatRooms = onSnapshot(chatRoomsQuery, (snapshot) => {
+      const times: Record<string, number | null> = {};
+      snapshot.docs.forEach(chatRoomDoc => {
+        const lastMessageTimestamp = chatRoomDoc.data().lastMessageTimestamp;
+        times[chatRoomDoc.id] = lastMessageTimestamp?.toMillis ? lastMessageTimestamp.toMillis() : null;
+      });
+      setLastMessageTimes(times);
+    }, (error) => {
+      console.error('Error getting chat rooms:', error);
+    });
+
     // Clean up listeners on unmount
     return () => {
       unsubscribePending();
+      unsubscribeOutgoing();
       unsubscribeConnections();
+      unsubscribeChatRooms();
     };
   }, [user?.uid]);
 
+  // Set while an accept is in flight so repeat taps are ignored
+  const acceptingRef = useRef(false);
+
   // Handle accepting a connection request
   const handleAcceptConnection = async (connectionRequest) => {
-    if (!user?.uid) return;
+    if (!user?.uid || acceptingRef.current) return;
+    acceptingRef.current = true;
     
     try {
       setLoading(true);
       
-      // Get the connection request reference
-      const connectionRef = doc(db, 'connectionRequests', connectionRequest.id);
-      
-      // Update status to 'accepted'
-      await updateDoc(connectionRef, {
-        status: 'accepted',
-        // Add participants array for easier querying
-        participants: [connectionRequest.senderId, connectionRequest.receiverId],
-        acceptedAt: serverTimestamp()
-      });
+      const result = await acceptConnectionRequest(user.uid, connectionRequest.id);
       
-      // Create a chat room for these users
-      const chatRoomRef = await addDoc(collection(db, 'chatRooms'), {
-        participants: [connectionRequest.senderId, connectionRequest.receiverId],
-        connectionId: connectionRequest.id,
-        createdAt: serverTimestamp(),
-        lastMessage: null,
-        lastMessageText: '',
-        lastMessageTimestamp: null
-      });
-      
-      // Update the connection with the chat room ID
-      await updateDoc(connectionRef, {
-        chatRoomId: chatRoomRef.id
-      });
-      
-      // Add a system message to the chat
-      await addDoc(collection(db, 'chatRooms', chatRoomRef.id, 'messages'), {
-        text: 'You are now connected! Say hello to your new connection.',
-        createdAt: serverTimestamp(),
-        system: true
-      });
+      if (result.status !== 'accepted' && result.status !== 'alreadyAccepted') {
+        Alert.alert('Connection Request', ACCEPT_FAILURE_MESSAGES[result.status]);
+        return;
+      }
       
-      console.log('Connection accepted and chat room created:', chatRoomRef.id);
+      console.log('Connection accepted with chat room:', result.chatRoomId);
       
       // Alert after a slight delay to avoid UI glitches
       setTimeout(() => {
@@ -258,6 +318,7 @@ export default function ConnectionsScreen() {
       console.error('Error accepting connection:', error);
       Alert.alert('Error', 'Failed to accept connection request');
     } finally {
+      acceptingRef.current = false;
       setLoading(false);
     }
   };
@@ -282,10 +343,11 @@ export default function ConnectionsScreen() {
             try {
               setLoading(true);
               
-              // Delete the connection request
-              await deleteDoc(doc(db, 'connectionRequests', connectionId));
-              
-              console.log('Connection request declined');
+              const status = await declineConnectionRequest(user.uid, connectionId);
+              if (status !== 'declined') {
+                Alert.alert('Connection Request', DECLINE_FAILURE_MESSAGES[status]);
+                return;
+              }
               
               // Alert after a slight delay to avoid UI glitches
               setTimeout(() => {
@@ -304,6 +366,62 @@ export default function ConnectionsScreen() {
     );
   };
 
+  // Handle withdrawing a request the user sent
+  const handleWithdrawRequest = (request: any) => {
+    if (!user?.uid) return;
+    const expired = isRequestExpired(request);
+    
+    Alert.alert(
+      expired ? 'Remove Request' : 'Withdraw Request',
+      expired
+        ? `Remove your expired request to ${request.receiverName}?`
+        : `Withdraw your connection request to ${request.receiverName}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: expired ? 'Remove' : 'Withdraw',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const status = await withdrawConnectionRequest(user.uid, request.id);
+              if (status !== 'withdrawn') {
+                Alert.alert('Connection Request', WITHDRAW_FAILURE_MESSAGES[status]);
+              }
+            } catch (error) {
+              console.error('Error withdrawing connection request:', error);
+              Alert.alert('Error', 'Failed to withdraw connection request');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Handle removing an accepted connection
+  const handleRemoveConnection = (connection: any) => {
+    if (!user?.uid) return;
+    
+    Alert.alert(
+      `Remove ${connection.otherUserName}?`,
+      'Your chat will be archived for both of you, and either of you will need to send a new request to reconnect.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeConnection(user.uid, connection.id);
+            } catch (error) {
+              console.error('Error removing connection:', error);
+              Alert.alert('Error', 'Failed to remove connection');
+            }
+          }
+        }
+      ]
+    );
+  };
+
   // Handle viewing a chat with a connection
   const handleViewChat = (connection) => {
     // Navigate to the chat screen with the connection's chat room ID
@@ -353,6 +471,7 @@ export default function ConnectionsScreen() {
                   month: 'short', 
                   day: 'numeric' 
                 })}
+                {' · '}{describeRequestExpiry(item)}
               </Text>
             </View>
           </View>
@@ -369,13 +488,19 @@ export default function ConnectionsScreen() {
         </View>
       </View>
 
+      {!!item.note && (
+        <View style={styles.noteContainer}>
+          <Text style={styles.noteText}>"{item.note}"</Text>
+        </View>
+      )}
+
       {item.sharedInterests && item.sharedInterests.length > 0 && (
         <View style={styles.interestsContainer}>
           <Text style={styles.interestsLabel}>Shared Interests:</Text>
           <View style={styles.interestTagsContainer}>
             {item.sharedInterests.map((interest, index) => (
               <View key={index} style={styles.interestTag}>
-                <Text style={styles.interestTagText}>{interest}</Text>
+                <Text style={styles.interestTagText}>{getInterestLabel(interest)}</Text>
               </View>
             ))}
           </View>
@@ -409,6 +534,52 @@ export default function ConnectionsScreen() {
     </View>
   );
 
+  // Render a request the user sent
+  const renderOutgoingRequest = (item: any) => {
+    const expired = isRequestExpired(item);
+    
+    return (
+      <View key={item.id} style={[styles.connectionCard, expired && styles.expiredCard]}>
+        <View style={styles.connectionHeader}>
+          <View style={styles.userInfoContainer}>
+            {item.receiverPhotoURL ? (
+              <Image source={{ uri: item.receiverPhotoURL }} style={styles.avatar} />
+            ) : (
+              <View style={[
+                styles.defaultAvatar,
+                { backgroundColor: TIER_COLORS[item.tier as keyof typeof TIER_COLORS]?.primary || TIER_COLORS.casual.primary }
+              ]}>
+                <Text style={styles.defaultAvatarText}>
+                  {(item.receiverName || '?').charAt(0).toUpperCase()}
+                </Text>
+              </View>
+            )}
+            <View style={styles.nameContainer}>
+              <Text style={styles.name}>{item.receiverName}</Text>
+              <View style={styles.timestampContainer}>
+                <MaterialIcons name={expired ? 'timer-off' : 'schedule'} size={12} color="#888" />
+                <Text style={styles.timestamp}>{describeRequestExpiry(item)}</Text>
+              </View>
+            </View>
+          </View>
+          <TouchableOpacity
+            style={styles.withdrawButton}
+            onPress={() => handleWithdrawRequest(item)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.withdrawButtonText}>{expired ? 'Remove' : 'Withdraw'}</Text>
+          </TouchableOpacity>
+        </View>
+        
+        {!!item.note && (
+          <View style={styles.noteContainer}>
+            <Text style={styles.noteText}>"{item.note}"</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
   // Render an active connection
   const renderConnection = ({ item }) => (
     <View style={styles.connectionCard}>
@@ -418,18 +589,21 @@ export default function ConnectionsScreen() {
         activeOpacity={0.7}
       >
         <View style={styles.userInfoContainer}>
-          {item.otherUserPhotoURL ? (
-            <Image source={{ uri: item.otherUserPhotoURL }} style={styles.avatar} />
-          ) : (
-            <View style={[
-              styles.defaultAvatar, 
-              { backgroundColor: TIER_COLORS[item.tier]?.primary || TIER_COLORS.casual.primary }
-            ]}>
-              <Text style={styles.defaultAvatarText}>
-                {(item.otherUserName || '?').charAt(0).toUpperCase()}
-              </Text>
-            </View>
-          )}
+          <View style={styles.avatarContainer}>
+            {item.otherUserPhotoURL ? (
+              <Image source={{ uri: item.otherUserPhotoURL }} style={[styles.avatar, { marginRight: 0 }]} />
+            ) : (
+              <View style={[
+                styles.defaultAvatar, 
+                { backgroundColor: TIER_COLORS[item.tier]?.primary || TIER_COLORS.casual.primary, marginRight: 0 }
+              ]}>
+                <Text style={styles.defaultAvatarText}>
+                  {(item.otherUserName || '?').charAt(0).toUpperCase()}
+                </Text>
+              </View>
+            )}
+            {presence[item.otherUserId]?.online && <View style={styles.onlineDot} />}
+          </View>
           <View style={styles.nameContainer}>
             <Text style={styles.name}>{item.otherUserName}</Text>
             <View style={styles.tierSmallTag}>
@@ -453,7 +627,7 @@ export default function ConnectionsScreen() {
           <View style={styles.interestTagsContainer}>
             {item.sharedInterests.slice(0, 3).map((interest, index) => (
               <View key={index} style={styles.interestTag}>
-                <Text style={styles.interestTagText}>{interest}</Text>
+                <Text style={styles.interestTagText}>{getInterestLabel(interest)}</Text>
               </View>
             ))}
             {item.sharedInterests.length > 3 && (
@@ -480,6 +654,100 @@ export default function ConnectionsScreen() {
           <Text style={styles.chatButtonText}>Message</Text>
         </LinearGradient>
       </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.removeButton}
+        onPress={() => handleRemoveConnection(item)}
+      >
+        <Text style={styles.removeButtonText}>Remove connection</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  // Collapse or expand a tier group
+  const toggleTier = (tier: string) => {
+    setCollapsedTiers(prev => {
+      const next = new Set(prev);
+      if (next.has(tier)) {
+        next.delete(tier);
+      } else {
+        next.add(tier);
+      }
+      return next;
+    });
+  };
+
+  // Render a tier group header
+  const renderTierHeader = (item: any) => {
+    const collapsed = collapsedTiers.has(item.tier);
+    
+    return (
+      <TouchableOpacity
+        style={styles.tierHeader}
+        onPress={() => toggleTier(item.tier)}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.tierHeaderDot, { backgroundColor: TIER_COLORS[item.tier as keyof typeof TIER_COLORS]?.primary || TIER_COLORS.casual.primary }]} />
+        <Text style={styles.tierHeaderText}>{getTierDisplayName(item.tier)}</Text>
+        <Text style={styles.tierHeaderCount}>{item.count}</Text>
+        <MaterialIcons name={collapsed ? 'expand-more' : 'expand-less'} size={22} color="#999" />
+      </TouchableOpacity>
+    );
+  };
+
+  // Render a row of the connections list, either a tier header or a connection
+  const renderConnectionRow = ({ item }: { item: any }) => (
+    item.rowType === 'tierHeader' ? renderTierHeader(item) : renderConnection({ item })
+  );
+
+  // Reminders link, search box, sort options and grouping toggle above the connections list
+  const connectionsToolbar = (
+    <View style={styles.toolbar}>
+      <TouchableOpacity
+        style={styles.healthLink}
+        onPress={() => router.push('/relationship-health')}
+        activeOpacity={0.7}
+      >
+        <MaterialIcons name="favorite-border" size={20} color="#6C5CE7" />
+        <View style={styles.healthLinkContent}>
+          <Text style={styles.healthLinkTitle}>Keep in touch</Text>
+          <Text style={styles.healthLinkText}>Replies, anniversaries and quiet chats</Text>
+        </View>
+        <MaterialIcons name="chevron-right" size={22} color="#ccc" />
+      </TouchableOpacity>
+      <View style={styles.searchContainer}>
+        <Ionicons name="search" size={18} color="#999" />
+        <TextInput
+          style={styles.searchInput}
+          value={searchText}
+          onChangeText={setSearchText}
+          placeholder="Search names and interests"
+          placeholderTextColor="#999"
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+      </View>
+      <View style={styles.sortOptions}>
+        {CONNECTION_SORTS.map(option => (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.sortChip, sort === option.id && styles.sortChipSelected]}
+            onPress={() => setSort(option.id)}
+          >
+            <Text style={[styles.sortChipText, sort === option.id && styles.sortChipTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity
+          style={[styles.sortChip, groupByTier && styles.sortChipSelected]}
+          onPress={() => setGroupByTier(!groupByTier)}
+        >
+          <Text style={[styles.sortChipText, groupByTier && styles.sortChipTextSelected]}>
+            Group by tier
+          </Text>
+        </TouchableOpacity>
+      </View>
     </View>
   );
 
@@ -594,9 +862,9 @@ export default function ConnectionsScreen() {
               Requests
             </Text>
             
-            {pendingConnections.length > 0 && (
+            {visiblePendingConnections.length > 0 && (
               <View style={styles.tabBadge}>
-                <Text style={styles.tabBadgeText}>{pendingConnections.length}</Text>
+                <Text style={styles.tabBadgeText}>{visiblePendingConnections.length}</Text>
               </View>
             )}
           </TouchableOpacity>
@@ -616,11 +884,16 @@ export default function ConnectionsScreen() {
         
         {/* Content based on active tab */}
         {activeTab === 'connections' ? (
-          connections.length > 0 ? (
+          visibleConnections.length > 0 ? (
             <Animated.FlatList
-              data={connections}
-              renderItem={renderConnection}
+              data={connectionRows}
+              renderItem={renderConnectionRow}
               keyExtractor={(item) => item.id}
+              ListHeaderComponent={connectionsToolbar}
+              ListEmptyComponent={
+                <Text style={styles.noResultsText}>No connections match "{searchText}"</Text>
+              }
+              keyboardShouldPersistTaps="handled"
               contentContainerStyle={styles.listContainer}
               showsVerticalScrollIndicator={false}
               onScroll={Animated.event(
@@ -633,11 +906,17 @@ export default function ConnectionsScreen() {
             renderEmptyState()
           )
         ) : (
-          pendingConnections.length > 0 ? (
+          visiblePendingConnections.length > 0 || visibleOutgoingRequests.length > 0 ? (
             <Animated.FlatList
-              data={pendingConnections}
+              data={visiblePendingConnections}
               renderItem={renderConnectionRequest}
               keyExtractor={(item) => item.id}
+              ListFooterComponent={visibleOutgoingRequests.length > 0 ? (
+                <View>
+                  <Text style={styles.sectionTitle}>Sent</Text>
+                  {visibleOutgoingRequests.map(renderOutgoingRequest)}
+                </View>
+              ) : null}
               contentContainerStyle={styles.listContainer}
               showsVerticalScrollIndicator={false}
               onScroll={Animated.event(
@@ -762,6 +1041,16 @@ const styles = StyleSheet.create({
     shadowRadius: 3,
     elevation: 2,
   },
+  expiredCard: {
+    opacity: 0.6,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#555',
+    marginTop: 8,
+    marginBottom: 12,
+  },
   connectionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -782,12 +1071,27 @@ const styles = StyleSheet.create({
   chevronIcon: {
     marginLeft: 8,
   },
+  avatarContainer: {
+    position: 'relative',
+    marginRight: 12,
+  },
   avatar: {
     width: 50,
     height: 50,
     borderRadius: 25,
     marginRight: 12,
   },
+  onlineDot: {
+    position: 'absolute',
+    bottom: 0,
+    right: 0,
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    backgroundColor: '#26de81',
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
   defaultAvatar: {
     width: 50,
     height: 50,
@@ -846,6 +1150,17 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#fff',
   },
+  noteContainer: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+  },
+  noteText: {
+    fontSize: 14,
+    color: '#555',
+    fontStyle: 'italic',
+  },
   interestsContainer: {
     marginTop: 8,
     marginBottom: 16,
@@ -905,6 +1220,18 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#ff4757',
   },
+  withdrawButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 12,
+  },
+  withdrawButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ff4757',
+  },
   acceptButton: {
     flex: 1,
     height: 46,
@@ -939,6 +1266,111 @@ const styles = StyleSheet.create({
     color: '#fff',
     marginLeft: 8,
   },
+  toolbar: {
+    marginBottom: 12,
+  },
+  healthLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    marginBottom: 10,
+  },
+  healthLinkContent: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  healthLinkTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  healthLinkText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 42,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+    marginLeft: 8,
+  },
+  sortOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 10,
+  },
+  sortChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  sortChipSelected: {
+    backgroundColor: '#6C5CE7',
+    borderColor: '#6C5CE7',
+  },
+  sortChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  sortChipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  tierHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginBottom: 4,
+  },
+  tierHeaderDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  tierHeaderText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  tierHeaderCount: {
+    flex: 1,
+    fontSize: 14,
+    color: '#999',
+    marginLeft: 8,
+  },
+  noResultsText: {
+    textAlign: 'center',
+    fontSize: 15,
+    color: '#999',
+    marginTop: 24,
+  },
+  removeButton: {
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginTop: 4,
+  },
+  removeButtonText: {
+    fontSize: 13,
+    color: '#999',
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -15,24 +15,18 @@ import {
 import MapView, { PROVIDER_GOOGLE, Marker, Circle, Callout } from 'react-native-maps';
 import * as Location from 'expo-location';
 import { 
-  collection, 
-  query, 
-  where, 
-  getDocs, 
   doc, 
   setDoc, 
-  getDoc, 
-  GeoPoint, 
-  addDoc,
-  serverTimestamp,
-  deleteDoc,
-  onSnapshot 
+  getDoc
 } from '@firebase/firestore';
 import { db } from '@/config/firebase';
 import { useAuth } from '@/contexts/AuthContext';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
-import EnhancedUserMapMarker from '@/components/maps/EnhancedUserMapMarker';
+import EnhancedUserMapMarker, { MarkerTier, TIER_COLORS } from '@/components/maps/EnhancedUserMapMarker';
 import MarkerSpiderfier from '@/components/maps/MarkerSpiderfier';
+import ClusterMarker from '@/components/maps/ClusterMarker';
+import AnimatedUserMarker from '@/components/maps/AnimatedUserMarker';
+import NearbyUserList from '@/components/maps/NearbyUserList';
 import ProfileCard from '@/components/maps/ProfileCard';
 import FilterDrawer from '@/components/maps/FilterDrawer';
 import { router } from 'expo-router';
@@ -41,60 +35,122 @@ import {
   offsetOverlappingMarkers, 
   radiusToLatitudeDelta 
 } from '@/utils/geospatial';
-import { useUserPresence } from '@/utils/presence';
+import {
+  saveUserLocation,
+  updateLocationVisibility,
+  subscribeToLocationsWithinRadius,
+  NearbyLocation
+} from '@/utils/locations';
+import { createClusterIndex, MapRegion, MarkerCluster } from '@/utils/clustering';
+import { obfuscateLocation, ObfuscatedLocation } from '@/utils/locationPrivacy';
+import { syncBackgroundLocation } from '@/utils/backgroundLocation';
+import { LOCATION_HEARTBEAT_INTERVAL, formatLastSeen } from '@/utils/locationFreshness';
+import {
+  resolveVisibilitySchedule,
+  getVisibilityStatus,
+  getNextMorning,
+  describeVisibilityStatus
+} from '@/utils/visibilitySchedule';
+import {
+  resolveDiscoveryRadius,
+  isClusteredRadius,
+  formatRadius
+} from '@/utils/discoveryRadius';
+import { useUserPresence, usePresence } from '@/utils/presence';
+import { scorePopulation } from '@/utils/compatibility';
+import { canonicalizeInterests, matchInterests } from '@/utils/interestTaxonomy';
+import { loadInterestCatalog } from '@/utils/interestCatalog';
+import {
+  DiscoveryFilters,
+  DEFAULT_DISCOVERY_FILTERS,
+  resolveDiscoveryFilters,
+  isAgeRangeNarrowed,
+  getActiveCriteria,
+  applyDiscoveryFilters,
+  describeExclusions
+} from '@/utils/discoveryFilters';
+import { notifyWatchMatches } from '@/utils/matchAlerts';
+import { useBlocks, blockUser } from '@/utils/blocks';
+import {
+  InviteOptions,
+  getRelationship,
+  sendConnectionRequest,
+  declineConnectionRequest,
+  acceptConnectionRequest,
+  useConnectedUids,
+  ACCEPT_FAILURE_MESSAGES,
+  DECLINE_FAILURE_MESSAGES,
+  SEND_FAILURE_MESSAGES
+} from '@/utils/connectionRequests';
+import { isSuspended } from '@/utils/reports';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-// Constants for location
-const QUARTER_MILE_IN_METERS = 400; // 0.4 km (quarter mile)
-const LOCATION_TASK_NAME = 'background-location-task';
-
-// Constants for tier system
-const TIER_THRESHOLDS = {
-  SOULMATE: 15, // 15+ shared interests
-  BEST_FRIEND: 8, // 8-14 shared interests
-  FRIEND: 5, // 5-7 shared interests
-  BUDDY: 3, // 3-4 shared interests
-  CASUAL: 1, // 1-2 shared interests
-};
-
 // Get screen dimensions
 const { width, height } = Dimensions.get('window');
 
 // Tabbed navigation menu height calculation
 const TAB_BAR_HEIGHT = Platform.OS === 'ios' ? 83 : 70; // Height including safe area insets on iOS
 
+// Share of the discovery radius the user can move before nearby users are re-fetched around them
+const RECENTER_FRACTION = 0.25;
+
 export default function MapScreen() {
-  const { user, userData } = useAuth();
-  const [location, setLocation] = useState(null);
-  const [nearbyUsers, setNearbyUsers] = useState([]);
-  const [filteredUsers, setFilteredUsers] = useState([]);
+  const { user, userData, refreshUserData } = useAuth();
+  const suspended = isSuspended(userData);
+  const [location, setLocation] = useState<Location.LocationObject | null>(null);
+  const [nearbyUsers, setNearbyUsers] = useState<any[]>([]);
+  const [filteredUsers, setFilteredUsers] = useState<any[]>([]);
   const [errorMsg, setErrorMsg] = useState(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [selectedUser, setSelectedUser] = useState(null);
+  const [selectedUser, setSelectedUser] = useState<any>(null);
   const [showProfileCard, setShowProfileCard] = useState(false);
   
   // Filter drawer state
   const [showFilterDrawer, setShowFilterDrawer] = useState(false);
-  const [filters, setFilters] = useState({
-    selectedInterests: [],
-    minSharedInterests: 1,
-    onlineOnly: false,
-    ageRange: [18, 99],
-    selectedGender: "Any",
-    activityStatus: "Any",
-    lookingFor: "Any"
-  });
+  const [filters, setFilters] = useState<DiscoveryFilters>(DEFAULT_DISCOVERY_FILTERS);
   const [filtersActive, setFiltersActive] = useState(false);
+  // How many people nearby pass the filters, and what ruled the rest out
+  const [filterSummary, setFilterSummary] = useState<{ matchCount: number; total: number; exclusions: string }>({
+    matchCount: 0,
+    total: 0,
+    exclusions: ''
+  });
+  
+  // Discovery radius drives the overlay, the query and how results are shown
+  const discoveryRadius = resolveDiscoveryRadius(filters.discoveryRadius);
+  const clusteredRadius = isClusteredRadius(discoveryRadius);
+  
+  // Map region that fits the discovery circle with a little margin
+  const getRadiusRegion = (latitude: number, longitude: number): MapRegion => {
+    const delta = radiusToLatitudeDelta(latitude, discoveryRadius) * 1.25;
+    return {
+      latitude,
+      longitude,
+      latitudeDelta: delta,
+      longitudeDelta: delta
+    };
+  };
   
   // Spiderfier state for handling overlapping markers
   const [spiderfiedMarkers, setSpiderfiedMarkers] = useState([]);
   const [spiderfierBaseCoordinate, setSpiderfierBaseCoordinate] = useState(null);
   const [showSpiderfier, setShowSpiderfier] = useState(false);
   
+  // Current visible region, used to cluster markers when zoomed out
+  const [mapRegion, setMapRegion] = useState<MapRegion | null>(null);
+  
   // Location visibility state
   const [locationVisible, setLocationVisible] = useState(userData?.location?.visible || false);
-  const [availableInterests, setAvailableInterests] = useState([]);
+  
+  // Visibility schedule and ghost mode narrow the switch down further
+  const visibilitySchedule = useMemo(
+    () => resolveVisibilitySchedule(userData?.visibilitySchedule),
+    [userData?.visibilitySchedule]
+  );
+  const [visibilityNow, setVisibilityNow] = useState(Date.now());
+  const visibilityStatus = getVisibilityStatus(locationVisible, visibilitySchedule, visibilityNow);
+  const [availableInterests, setAvailableInterests] = useState<string[]>([]);
   
   // Animation refs
   const filterDrawerAnimation = useRef(new Animated.Value(0)).current;
@@ -102,11 +158,80 @@ export default function MapScreen() {
   const controlsPosition = useRef(new Animated.Value(0)).current;
   
   // Map refs
-  const mapRef = useRef(null);
+  const mapRef = useRef<MapView>(null);
+  
+  // Rebuild the cluster hierarchy only when the set of markers changes
+  const clusterIndex = useMemo(() => createClusterIndex(filteredUsers), [filteredUsers]);
+  
+  // Pick clusters for the current zoom; before the first region change, show every marker
+  const clusterResult = useMemo(() => {
+    if (mapRegion) {
+      return clusterIndex.getClusters(mapRegion, width);
+    }
+    
+    // Large radii start out clustered, sized to the whole discovery circle
+    if (clusteredRadius && location) {
+      return clusterIndex.getClusters(getRadiusRegion(location.coords.latitude, location.coords.longitude), width);
+    }
+    
+    return { clusters: [], points: filteredUsers };
+  }, [clusterIndex, mapRegion, filteredUsers, clusteredRadius, location]);
   
   // Setup user presence
   useUserPresence();
   
+  // Connections get an emphasised marker, dropped again if the connection is removed
+  const connectedUids = useConnectedUids(user?.uid);
+  
+  // Blocks hide people in both directions, whoever made them
+  const { blockedUids } = useBlocks(user?.uid);
+  const visibleNearbyUsers = useMemo(
+    () => nearbyUsers.filter(nearbyUser => !blockedUids.has(nearbyUser.uid)),
+    [nearbyUsers, blockedUids]
+  );
+  
+  // Only watch the online status of users who are actually nearby
+  const presence = usePresence(visibleNearbyUsers.map(nearbyUser => nearbyUser.uid));
+  
+  // Merge online status in without touching the user list itself, then
+  // score everyone. Interest rarity depends on who is in range, so the whole
+  // list is rescored together whenever it changes.
+  const ageRangeNarrowed = isAgeRangeNarrowed(filters);
+  const rankedNearbyUsers = useMemo(() => {
+    const withPresence = visibleNearbyUsers.map(nearbyUser => ({
+      ...nearbyUser,
+      online: presence[nearbyUser.uid]?.online === true
+    }));
+    
+    const scored = scorePopulation(
+      {
+        interests: userData?.interests,
+        lookingFor: userData?.lookingFor,
+        age: userData?.age
+      },
+      withPresence,
+      // A narrowed age filter doubles as the viewer's age preference
+      { ageRange: ageRangeNarrowed ? filters.ageRange : null }
+    );
+    
+    // Best matches first, nearest first within the same score
+    return scored
+      .map(nearbyUser => ({
+        ...nearbyUser,
+        tier: nearbyUser.compatibility.tier,
+        compatibilityScore: nearbyUser.compatibility.score
+      }))
+      .sort((a, b) => (b.compatibilityScore - a.compatibilityScore) || (a.distance - b.distance));
+  }, [
+    visibleNearbyUsers,
+    presence,
+    userData?.interests,
+    userData?.lookingFor,
+    userData?.age,
+    ageRangeNarrowed,
+    filters.ageRange
+  ]);
+  
   console.log('MapScreen rendering, user:', user ? 'Authenticated' : 'Not authenticated');
   console.log('Platform:', Platform.OS);
 
@@ -143,24 +268,26 @@ export default function MapScreen() {
           setLocationVisible(userData.location.visible);
         }
         
-        // Save user location to Firebase
-        if (user?.uid) {
+        // Save user location to Firebase; suspended users stay off the map
+        if (user?.uid && !suspended) {
           console.log('Saving location to Firebase');
-          const userLocationRef = doc(db, 'locations', user.uid);
-          await setDoc(userLocationRef, {
+          await saveUserLocation(
+            user.uid,
+            location.coords.latitude,
+            location.coords.longitude,
+            userData?.location?.visible || false,
+            userData?.locationPrivacy,
+            userData?.visibilitySchedule
+          );
+          
+          // Resume (or stop) opted-in background updates to match visibility
+          syncBackgroundLocation({
             uid: user.uid,
-            location: new GeoPoint(
-              location.coords.latitude,
-              location.coords.longitude
-            ),
-            timestamp: new Date(),
-            lastSeen: serverTimestamp(),
-            visible: userData?.location?.visible || false
-          }, { merge: true });
+            visible: userData?.location?.visible || false,
+            privacy: userData?.locationPrivacy,
+            schedule: userData?.visibilitySchedule
+          });
           
-          // Fetch nearby users
-          console.log('Fetching nearby users');
-          await fetchNearbyUsers(location.coords.latitude, location.coords.longitude);
         } else {
           console.log('No user UID available, skipping Firebase update');
         }
@@ -176,65 +303,231 @@ export default function MapScreen() {
     setupLocation();
   }, [user?.uid, userData?.location?.visible]);
   
-  // Listen for real-time updates of online users
+  // Stream nearby users: markers appear, move and disappear as others update
   useEffect(() => {
     if (!user?.uid || !location) return;
     
-    console.log('Setting up presence listener');
+    const { latitude, longitude } = location.coords;
+    console.log('Subscribing to nearby users around', latitude, longitude);
+    
+    // Others only publish fuzzed positions, so measure from our own fuzzed
+    // position too rather than mixing precise and fuzzed coordinates
+    const ownFuzzedLocation = obfuscateLocation(user.uid, latitude, longitude, userData?.locationPrivacy);
+    
+    // Get current user's profile once to compare interests
+    const currentUserInterestsPromise = fetchUserProfile(user.uid)
+      .then(profile => canonicalizeInterests(profile?.interests));
+    
+    // Latest position of everyone in range; profile loads can finish after a
+    // user moved or left, so results are checked against this before use
+    const inRange = new Map<string, NearbyLocation>();
+    let active = true;
+    
+    const loadUsers = async (locations: NearbyLocation[]) => {
+      const currentUserInterests = await currentUserInterestsPromise;
+      const users = await Promise.all(
+        locations.map(nearby => buildNearbyUser(nearby, ownFuzzedLocation, currentUserInterests))
+      );
+      
+      return users
+        .filter(nearbyUser => inRange.has(nearbyUser.uid))
+        .map(nearbyUser => ({
+          ...nearbyUser,
+          ...getPositionFields(inRange.get(nearbyUser.uid)!, ownFuzzedLocation)
+        }));
+    };
     
-    const presenceRef = collection(db, 'presence');
-    const unsubscribe = onSnapshot(
-      presenceRef,
-      (snapshot) => {
-        // Get current online users
-        const onlineUsers = new Set();
-        snapshot.forEach(doc => {
-          const data = doc.data();
-          if (data.online === true) {
-            onlineUsers.add(doc.id);
+    const unsubscribe = subscribeToLocationsWithinRadius(
+      latitude,
+      longitude,
+      discoveryRadius,
+      (events, initial) => {
+        // Don't include current user
+        const otherEvents = events.filter(event => event.uid !== user.uid);
+        
+        const added: NearbyLocation[] = [];
+        const moved = new Map<string, NearbyLocation>();
+        const removed = new Set<string>();
+        
+        otherEvents.forEach(event => {
+          if (event.type === 'removed') {
+            inRange.delete(event.uid);
+            removed.add(event.uid);
+          } else {
+            inRange.set(event.uid, event.location);
+            if (event.type === 'added') {
+              added.push(event.location);
+            } else {
+              // Moved, or faded to a last-known position
+              moved.set(event.uid, event.location);
+            }
           }
         });
         
-        console.log(`Found ${onlineUsers.size} online users`);
+        console.log(`Nearby users changed: ${added.length} added, ${moved.size} moved, ${removed.size} removed`);
         
-        // Update our nearby users with online status
-        setNearbyUsers(prevUsers => {
-          const updatedUsers = prevUsers.map(user => ({
-            ...user,
-            online: onlineUsers.has(user.uid)
-          }));
-          
-          // Apply filters to get filtered user list
-          applyFilters(updatedUsers);
-          
-          return updatedUsers;
-        });
+        // Moves and departures apply straight away; markers animate to the new spot
+        if (!initial && (moved.size > 0 || removed.size > 0)) {
+          setNearbyUsers(prevUsers => prevUsers
+            .filter(nearbyUser => !removed.has(nearbyUser.uid))
+            .map(nearbyUser => moved.has(nearbyUser.uid)
+              ? { ...nearbyUser, ...getPositionFields(moved.get(nearbyUser.uid)!, ownFuzzedLocation) }
+              : nearbyUser)
+          );
+        }
+        
+        if (!initial && added.length === 0) return;
+        
+        // Newcomers show up once their profile has loaded
+        loadUsers(added)
+          .then(users => {
+            if (!active) return;
+            
+            setNearbyUsers(prevUsers => {
+              const incoming = new Set(users.map(nearbyUser => nearbyUser.uid));
+              return [
+                // The first batch also drops anyone left from before (e.g. a
+                // re-center), but keeps newcomers whose profiles loaded sooner
+                ...prevUsers.filter(nearbyUser =>
+                  !incoming.has(nearbyUser.uid) && (!initial || inRange.has(nearbyUser.uid))
+                ),
+                ...users
+              ];
+            });
+          })
+          .catch(error => {
+            console.error('Error loading nearby user profiles:', error);
+          });
       },
       (error) => {
-        console.error('Error getting presence:', error);
+        console.error('Error subscribing to nearby users:', error);
+        Alert.alert('Error', 'Failed to fetch nearby users.');
       }
     );
     
-    return () => unsubscribe();
-  }, [location, user?.uid, filters]);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [location, user?.uid, discoveryRadius, userData?.locationPrivacy]);
+  
+  // Follow the user while the map is open. Small moves are ignored, since
+  // each new location re-centers the nearby subscription above
+  const hasLocation = location !== null;
+  useEffect(() => {
+    if (!user?.uid || !hasLocation) return;
+    
+    const threshold = discoveryRadius * RECENTER_FRACTION;
+    let subscription: Location.LocationSubscription | null = null;
+    let active = true;
+    
+    Location.watchPositionAsync(
+      { accuracy: Location.Accuracy.Balanced, distanceInterval: threshold / 2 },
+      next => {
+        setLocation(current => {
+          if (!current) return next;
+          const moved = getDistanceFromLatLonInMeters(
+            current.coords.latitude,
+            current.coords.longitude,
+            next.coords.latitude,
+            next.coords.longitude
+          );
+          return moved >= threshold ? next : current;
+        });
+      }
+    )
+      .then(watch => {
+        if (active) {
+          subscription = watch;
+        } else {
+          watch.remove();
+        }
+      })
+      .catch(error => {
+        console.error('Error watching location:', error);
+      });
+    
+    return () => {
+      active = false;
+      subscription?.remove();
+    };
+  }, [user?.uid, hasLocation, discoveryRadius]);
+  
+  // Keep our own position from expiring while the map is open
+  useEffect(() => {
+    if (!user?.uid || !locationVisible || suspended) return;
+    
+    const heartbeat = setInterval(async () => {
+      try {
+        const current = await Location.getCurrentPositionAsync({
+          accuracy: Location.Accuracy.Balanced
+        });
+        await saveUserLocation(
+          user.uid,
+          current.coords.latitude,
+          current.coords.longitude,
+          true,
+          userData?.locationPrivacy,
+          visibilitySchedule
+        );
+        console.log('Location heartbeat written');
+      } catch (error) {
+        console.error('Error writing location heartbeat:', error);
+      }
+    }, LOCATION_HEARTBEAT_INTERVAL);
+    
+    return () => clearInterval(heartbeat);
+  }, [user?.uid, locationVisible, userData?.locationPrivacy, visibilitySchedule, suspended]);
+  
+  // Publish the effective visibility whenever it changes, and again when
+  // the schedule or ghost mode next flips it
+  useEffect(() => {
+    if (!user?.uid) return;
+    
+    updateLocationVisibility(user.uid, locationVisible, visibilitySchedule).catch(error => {
+      console.error('Error updating scheduled visibility:', error);
+    });
+    
+    if (visibilityStatus.nextChange === null) return;
+    
+    const timer = setTimeout(() => {
+      setVisibilityNow(Date.now());
+    }, Math.max(visibilityStatus.nextChange - Date.now(), 0) + 1000);
+    
+    return () => clearTimeout(timer);
+  }, [user?.uid, visibilityStatus.visible, visibilityStatus.nextChange]);
+  
+  // Zoom the map to fit the discovery circle when the radius changes
+  const previousRadiusRef = useRef(discoveryRadius);
+  useEffect(() => {
+    if (previousRadiusRef.current === discoveryRadius) return;
+    previousRadiusRef.current = discoveryRadius;
+    
+    if (location) {
+      mapRef.current?.animateToRegion(
+        getRadiusRegion(location.coords.latitude, location.coords.longitude),
+        500
+      );
+    }
+  }, [discoveryRadius]);
   
   // Monitor filter changes and apply them
   useEffect(() => {
-    applyFilters(nearbyUsers);
+    applyFilters(rankedNearbyUsers);
     
     // Check if any filters are active
-    const isActive = 
-      filters.selectedInterests.length > 0 || 
-      filters.minSharedInterests > 1 ||
-      filters.onlineOnly ||
-      filters.ageRange[0] > 18 ||
-      filters.ageRange[1] < 99 ||
-      filters.selectedGender !== "Any" ||
-      filters.activityStatus !== "Any" ||
-      filters.lookingFor !== "Any";
+    setFiltersActive(getActiveCriteria(filters).length > 0);
+  }, [filters, rankedNearbyUsers]);
+  
+  // The live subscription also feeds watched-preset alerts; cooldowns
+  // stop the same people alerting again on every update
+  useEffect(() => {
+    if (!user?.uid || rankedNearbyUsers.length === 0) return;
     
-    setFiltersActive(isActive);
-  }, [filters, nearbyUsers]);
+    notifyWatchMatches(user.uid, rankedNearbyUsers).catch(error => {
+      console.error('Error checking match alerts:', error);
+    });
+  }, [user?.uid, rankedNearbyUsers]);
   
   // Animate controls when profile card visibility changes
   useEffect(() => {
@@ -272,24 +565,10 @@ export default function MapScreen() {
   // Load all available interests for filtering
   const loadAvailableInterests = async () => {
     try {
-      // In a real app, this would be a Cloud Function or a dedicated interests collection
-      // For now, we'll extract interests from all user profiles
-      const usersRef = collection(db, 'users');
-      const snapshot = await getDocs(usersRef);
-      
-      const allInterests = new Set();
-      
-      snapshot.forEach(doc => {
-        const data = doc.data();
-        if (data.interests && Array.isArray(data.interests)) {
-          data.interests.forEach(interest => {
-            allInterests.add(interest);
-          });
-        }
-      });
-      
-      console.log(`Loaded ${allInterests.size} unique interests`);
-      setAvailableInterests(Array.from(allInterests).sort());
+      // Interests in use, most popular first, from the cached catalog
+      const catalog = await loadInterestCatalog();
+      console.log(`Loaded ${catalog.length} interests from the catalog`);
+      setAvailableInterests(catalog.map(entry => entry.id));
     } catch (error) {
       console.error('Error loading interests:', error);
     }
@@ -299,108 +578,31 @@ export default function MapScreen() {
   const applyFilters = useCallback((users) => {
     if (!users || users.length === 0) {
       setFilteredUsers([]);
+      setFilterSummary({ matchCount: 0, total: 0, exclusions: '' });
       return;
     }
     
-    console.log('Applying filters:', {
-      interestsCount: filters.selectedInterests.length,
-      minShared: filters.minSharedInterests,
-      onlineOnly: filters.onlineOnly,
-      ageRange: filters.ageRange,
-      gender: filters.selectedGender,
-      activityStatus: filters.activityStatus,
-      lookingFor: filters.lookingFor
-    });
-    
-    let filtered = [...users];
+    console.log('Applying filters:', getActiveCriteria(filters));
     
-    // Filter by minimum shared interests
-    if (filters.minSharedInterests > 1) {
-      filtered = filtered.filter(user => user.sharedInterestsCount >= filters.minSharedInterests);
-    }
-    
-    // Filter by specific interests
-    if (filters.selectedInterests.length > 0) {
-      filtered = filtered.filter(user => {
-        if (!user.interests || !Array.isArray(user.interests)) return false;
-        
-        // Check if user has at least one of the selected interests
-        return filters.selectedInterests.some(interest => 
-          user.interests.includes(interest)
-        );
-      });
-    }
-    
-    // Filter by online status
-    if (filters.onlineOnly) {
-      filtered = filtered.filter(user => user.online === true);
-    }
-    
-    // Filter by age range (if user has age property)
-    filtered = filtered.filter(user => {
-      if (!user.age) return true; // Include users without age data
-      return user.age >= filters.ageRange[0] && user.age <= filters.ageRange[1];
+    const { matches, total, excludedBy } = applyDiscoveryFilters(users, filters);
+    setFilterSummary({
+      matchCount: matches.length,
+      total,
+      exclusions: describeExclusions(excludedBy)
     });
     
-    // Filter by gender
-    if (filters.selectedGender !== "Any") {
-      filtered = filtered.filter(user => {
-        if (!user.gender) return false; // Exclude users without gender data
-        return user.gender === filters.selectedGender;
-      });
-    }
-    
-    // Filter by activity status
-    if (filters.activityStatus === "Recently active") {
-      filtered = filtered.filter(user => {
-        if (!user.lastActive) return false;
-        // Consider recently active if active in the last 24 hours
-        const oneDayAgo = new Date();
-        oneDayAgo.setDate(oneDayAgo.getDate() - 1);
-        return new Date(user.lastActive) >= oneDayAgo;
-      });
-    } else if (filters.activityStatus === "New users") {
-      filtered = filtered.filter(user => {
-        if (!user.createdAt) return false;
-        // Consider new if account created in the last 7 days
-        const oneWeekAgo = new Date();
-        oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-        return new Date(user.createdAt) >= oneWeekAgo;
-      });
-    }
-    
-    // Filter by "looking for"
-    if (filters.lookingFor !== "Any") {
-      filtered = filtered.filter(user => {
-        if (!user.lookingFor || !Array.isArray(user.lookingFor)) return false;
-        return user.lookingFor.includes(filters.lookingFor);
-      });
-    }
-    
     // Apply the offset algorithm to prevent overlapping markers
-    const offsetUsers = offsetOverlappingMarkers(filtered);
+    const offsetUsers = offsetOverlappingMarkers(matches);
     
-    console.log(`Filtered from ${users.length} to ${filtered.length} users`);
+    console.log(`Filtered from ${total} to ${matches.length} users`);
     setFilteredUsers(offsetUsers);
   }, [filters]);
   
-  // Calculate tier based on number of shared interests
-  const calculateTier = (sharedInterestsCount) => {
-    if (sharedInterestsCount >= TIER_THRESHOLDS.SOULMATE) return 'soulmate';
-    if (sharedInterestsCount >= TIER_THRESHOLDS.BEST_FRIEND) return 'bestFriend';
-    if (sharedInterestsCount >= TIER_THRESHOLDS.FRIEND) return 'friend';
-    if (sharedInterestsCount >= TIER_THRESHOLDS.BUDDY) return 'buddy';
-    if (sharedInterestsCount >= TIER_THRESHOLDS.CASUAL) return 'casual';
-    return 'casual'; // Default tier
-  };
-
   // Find shared interests between current user and another user
-  const findSharedInterests = (userInterests, otherUserInterests) => {
+  const findSharedInterests = (userInterests: string[], otherUserInterests: string[]) => {
     if (!userInterests || !otherUserInterests) return [];
     
-    return userInterests.filter(interest => 
-      otherUserInterests.includes(interest)
-    );
+    return matchInterests(userInterests, otherUserInterests).shared;
   };
 
   // Function to fetch user profile data
@@ -472,6 +674,22 @@ export default function MapScreen() {
     }
   };
   
+  // Zoom into a cluster so its members spread out
+  const handleClusterPress = (cluster: MarkerCluster<any>) => {
+    console.log(`Cluster pressed: ${cluster.count} users, top tier ${cluster.tier}`);
+    
+    if (showSpiderfier) {
+      closeSpiderfier();
+    }
+    
+    mapRef.current?.animateToRegion(clusterIndex.getExpansionRegion(cluster), 350);
+  };
+  
+  // Recompute clusters once the user stops panning/zooming
+  const handleRegionChangeComplete = (region: MapRegion) => {
+    setMapRegion(region);
+  };
+  
   // Handle closing the spiderfier
   const handleCloseSpiderfier = () => {
     closeSpiderfier();
@@ -498,7 +716,7 @@ export default function MapScreen() {
   // Handle starting a chat
   const handleStartChat = (uid) => {
     // First check if there's an existing chat room
-    const selectedUser = nearbyUsers.find(u => u.uid === uid);
+    const selectedUser = rankedNearbyUsers.find(u => u.uid === uid);
     if (!selectedUser) {
       Alert.alert('Error', 'User not found');
       return;
@@ -507,38 +725,8 @@ export default function MapScreen() {
     // Check if we have a connection with this user
     const checkConnection = async () => {
       try {
-        const connectionRequestsRef = collection(db, 'connectionRequests');
-        
-        // Check both sent and received connections
-        const sentQuery = query(
-          connectionRequestsRef,
-          where('senderId', '==', user.uid),
-          where('receiverId', '==', uid),
-          where('status', '==', 'accepted')
-        );
-        
-        const receivedQuery = query(
-          connectionRequestsRef,
-          where('senderId', '==', uid),
-          where('receiverId', '==', user.uid),
-          where('status', '==', 'accepted')
-        );
-        
-        const [sentResults, receivedResults] = await Promise.all([
-          getDocs(sentQuery),
-          getDocs(receivedQuery)
-        ]);
-        
-        let chatRoomId = null;
-        
-        // Check if there's a chat room from either query
-        if (!sentResults.empty) {
-          const connectionData = sentResults.docs[0].data();
-          chatRoomId = connectionData.chatRoomId;
-        } else if (!receivedResults.empty) {
-          const connectionData = receivedResults.docs[0].data();
-          chatRoomId = connectionData.chatRoomId;
-        }
+        const relationship = await getRelationship(user.uid, uid);
+        const chatRoomId = relationship.status === 'accepted' ? relationship.chatRoomId : null;
         
         if (chatRoomId) {
           // Navigate to the chat screen
@@ -556,8 +744,14 @@ export default function MapScreen() {
     handleDismissProfileCard();
   };
 
+  // Set while an accept is in flight so repeat taps are ignored
+  const acceptingInviteRef = useRef(false);
+  
   // Handle accepting an invitation
   const handleAcceptInvite = async (connectionId) => {
+    if (acceptingInviteRef.current) return;
+    acceptingInviteRef.current = true;
+    
     try {
       if (!user?.uid) {
         Alert.alert('Error', 'You must be logged in to accept invitations');
@@ -566,54 +760,22 @@ export default function MapScreen() {
       
       console.log(`Accepting connection invitation ${connectionId}`);
       
-      // Get the connection request reference
-      const connectionRef = doc(db, 'connectionRequests', connectionId);
-      const connectionDoc = await getDoc(connectionRef);
+      const result = await acceptConnectionRequest(user.uid, connectionId);
       
-      if (!connectionDoc.exists()) {
-        Alert.alert('Error', 'Connection request not found');
+      if (result.status !== 'accepted' && result.status !== 'alreadyAccepted') {
+        Alert.alert('Connection Request', ACCEPT_FAILURE_MESSAGES[result.status]);
+        handleDismissProfileCard();
         return;
       }
       
-      const connectionData = connectionDoc.data();
-      
-      // Update status to 'accepted'
-      await setDoc(connectionRef, {
-        ...connectionData,
-        status: 'accepted',
-        // Add participants array for easier querying
-        participants: [connectionData.senderId, connectionData.receiverId],
-        acceptedAt: serverTimestamp()
-      }, { merge: true });
-      
-      // Create a chat room for these users with all necessary data
-      const chatRoomRef = await addDoc(collection(db, 'chatRooms'), {
-        participants: [connectionData.senderId, connectionData.receiverId],
-        connectionId: connectionId,
-        createdAt: serverTimestamp(),
-        lastMessage: null,
-        lastMessageText: '',
-        lastMessageTimestamp: null
-      });
-      
-      // Update the connection with the chat room ID
-      await setDoc(connectionRef, {
-        chatRoomId: chatRoomRef.id
-      }, { merge: true });
-      
-      // Add a system message to the chat
-      await addDoc(collection(db, 'chatRooms', chatRoomRef.id, 'messages'), {
-        text: 'You are now connected! Say hello to your new connection.',
-        createdAt: serverTimestamp(),
-        system: true
-      });
-      
       Alert.alert('Success', 'Connection accepted!');
       handleDismissProfileCard();
       
     } catch (error) {
       console.error('Error accepting connection:', error);
       Alert.alert('Error', 'Failed to accept connection request');
+    } finally {
+      acceptingInviteRef.current = false;
     }
   };
   
@@ -627,10 +789,11 @@ export default function MapScreen() {
       
       console.log(`Declining connection invitation ${connectionId}`);
       
-      // Delete the connection request instead of just marking as declined
-      // This matches the behavior in the connections tab
-      const connectionRef = doc(db, 'connectionRequests', connectionId);
-      await deleteDoc(connectionRef);
+      const status = await declineConnectionRequest(user.uid, connectionId);
+      if (status !== 'declined') {
+        Alert.alert('Connection Request', DECLINE_FAILURE_MESSAGES[status]);
+        return;
+      }
       
       Alert.alert('Success', 'Connection declined');
       handleDismissProfileCard();
@@ -642,7 +805,7 @@ export default function MapScreen() {
   };
 
   // Handle sending an invitation
-  const handleSendInvite = async (uid) => {
+  const handleSendInvite = async (uid: string, options?: InviteOptions) => {
     // In a real app, send a connection invitation
     try {
       if (!user?.uid || uid === user.uid) {
@@ -652,64 +815,39 @@ export default function MapScreen() {
       
       console.log(`Sending connection invitation to user ${uid}`);
       
-      // Check if there's already a connection or pending request
-      const connectionRequestsRef = collection(db, 'connectionRequests');
-      
-      // Check for existing requests in either direction
-      const existingSentQuery = query(
-        connectionRequestsRef,
-        where('senderId', '==', user.uid),
-        where('receiverId', '==', uid)
-      );
-      
-      const existingReceivedQuery = query(
-        connectionRequestsRef,
-        where('senderId', '==', uid),
-        where('receiverId', '==', user.uid)
-      );
-      
-      const [sentResults, receivedResults] = await Promise.all([
-        getDocs(existingSentQuery),
-        getDocs(existingReceivedQuery)
-      ]);
-      
-      if (!sentResults.empty) {
-        // Already sent a request to this user
-        Alert.alert('Connection Request', 'You have already sent a connection request to this user.');
-        handleDismissProfileCard();
+      // Find the selected user in nearbyUsers
+      const selectedNearbyUser = rankedNearbyUsers.find(u => u.uid === uid);
+      if (!selectedNearbyUser) {
+        Alert.alert('Error', 'User not found');
         return;
       }
       
-      if (!receivedResults.empty) {
+      // The relationship doc decides whether a request can go out
+      const status = await sendConnectionRequest(user.uid, uid, {
+        senderName: userData?.name || 'Anonymous User',
+        tier: selectedNearbyUser.tier,
+        sharedInterests: selectedNearbyUser.sharedInterests || [],
+        sharedInterestsCount: selectedNearbyUser.sharedInterestsCount || 0,
+        options
+      });
+      
+      if (status === 'incoming') {
         // Already received a request from this user
         Alert.alert(
           'Connection Request',
-          'This user has already sent you a connection request. Check your connections tab!',
+          SEND_FAILURE_MESSAGES.incoming,
           [{ text: 'OK', onPress: () => router.push('/connections') }]
         );
         handleDismissProfileCard();
         return;
       }
       
-      // Find the selected user in nearbyUsers
-      const selectedNearbyUser = nearbyUsers.find(u => u.uid === uid);
-      if (!selectedNearbyUser) {
-        Alert.alert('Error', 'User not found');
+      if (status !== 'sent') {
+        Alert.alert('Connection Request', SEND_FAILURE_MESSAGES[status]);
+        handleDismissProfileCard();
         return;
       }
       
-      // Create a new connection request
-      await addDoc(connectionRequestsRef, {
-        senderId: user.uid,
-        receiverId: uid,
-        senderName: userData?.name || 'Anonymous User',
-        status: 'pending',
-        timestamp: serverTimestamp(),
-        tier: selectedNearbyUser.tier,
-        sharedInterests: selectedNearbyUser.sharedInterests || [],
-        sharedInterestsCount: selectedNearbyUser.sharedInterestsCount || 0
-      });
-      
       Alert.alert('Success', 'Invitation sent! They will be notified of your request.');
       handleDismissProfileCard();
       
@@ -719,230 +857,165 @@ export default function MapScreen() {
     }
   };
   
-  // Function to fetch nearby users
-  const fetchNearbyUsers = async (latitude, longitude) => {
-    if (!user?.uid) {
-      console.log('Cannot fetch nearby users: No user UID');
-      return;
-    }
+  // Handle blocking a user from their profile card
+  const handleBlockUser = (uid: string, name: string) => {
+    if (!user?.uid) return;
     
-    try {
-      // Don't set refreshing here to avoid clearing the existing markers while loading
-      console.log('Fetching nearby users around', latitude, longitude);
-      
-      // Create a temporary array to collect new users
-      const newUsers = [];
-      
-      // Get current user's profile to compare interests
-      const currentUserProfile = await fetchUserProfile(user.uid);
-      const currentUserInterests = currentUserProfile?.interests || [];
-      
-      console.log('Current user interests:', currentUserInterests);
-      
-      // Get presence data to determine who's online
-      const presenceRef = collection(db, 'presence');
-      const presenceSnapshot = await getDocs(presenceRef);
-      const onlineUsers = new Set();
-      
-      presenceSnapshot.forEach(doc => {
-        const data = doc.data();
-        if (data.online === true) {
-          onlineUsers.add(doc.id);
-        }
-      });
-      
-      console.log(`Found ${onlineUsers.size} online users`);
-      
-      // In a production app, you would use Firebase Geoqueries or a cloud function
-      // For simplicity, we'll fetch all visible locations and filter client-side
-      const locationsRef = collection(db, 'locations');
-      const q = query(locationsRef, where('visible', '==', true));
-      const querySnapshot = await getDocs(q);
-      
-      const users = [];
-      const profilePromises = [];
-      
-      console.log(`Found ${querySnapshot.size} total location entries`);
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        // Don't include current user
-        if (data.uid !== user.uid && data.location) {
-          // Calculate distance
-          const distance = getDistanceFromLatLonInMeters(
-            latitude,
-            longitude,
-            data.location.latitude,
-            data.location.longitude
-          );
-          
-          // Only include users within quarter mile
-          if (distance <= QUARTER_MILE_IN_METERS) {
-            console.log(`User ${data.uid} is within range: ${Math.round(distance)}m`);
-            
-            const userObj = {
-              uid: data.uid,
-              latitude: data.location.latitude,
-              longitude: data.location.longitude,
-              distance: Math.round(distance),
-              photoURL: null,
-              name: null,
-              bio: null,
-              interests: [],
-              sharedInterests: [],
-              sharedInterestsCount: 0,
-              tier: 'casual', // Default tier
-              online: onlineUsers.has(data.uid), // Check if user is online
-              age: null,
-              gender: null,
-              lookingFor: [],
-              lastActive: data.lastSeen ? new Date(data.lastSeen.toDate()) : null,
-              createdAt: null
-            };
-            
-            users.push(userObj);
-            
-            // Fetch user profile data
-            const profilePromise = fetchUserProfile(data.uid).then(profile => {
-              if (profile) {
-                console.log(`Setting profile data for user ${data.uid}`);
-                
-                // Log the photo URL for debugging
-                if (profile.photoURL) {
-                  console.log(`User ${data.uid} photo URL: ${profile.photoURL.substring(0, 50)}...`);
-                  
-                  // Ensure the photoURL is properly formed
-                  let finalPhotoURL = profile.photoURL.trim();
-                  
-                  // Validate URL - add https:// if missing
-                  if (!finalPhotoURL.startsWith('http')) {
-                    finalPhotoURL = `https://${finalPhotoURL}`;
-                  }
-                  
-                  // Add a cache-busting parameter to force reload on each run
-                  const timestamp = new Date().getTime();
-                  if (finalPhotoURL.includes('?')) {
-                    finalPhotoURL += `&_cb=${timestamp}`;
-                  } else {
-                    finalPhotoURL += `?_cb=${timestamp}`;
-                  }
-                  
-                  // Additional validation
-                  try {
-                    new URL(finalPhotoURL); // Test if it's a valid URL
-                    
-                    // Set the URL only after validation
-                    userObj.photoURL = finalPhotoURL;
-                    console.log(`Set User ${data.uid} photoURL: ${finalPhotoURL.substring(0, 30)}...`);
-                    
-                    // Pre-cache the image immediately
-                    try {
-                      console.log(`Pre-fetching image for ${data.uid}`);
-                      Image.prefetch(finalPhotoURL)
-                        .catch(prefetchError => {
-                          console.error(`Prefetch error for ${data.uid}:`, prefetchError);
-                        });
-                    } catch (err) {
-                      console.warn('Prefetch attempt failed:', err);
-                    }
-                  } catch (e) {
-                    console.error(`Invalid URL for user ${data.uid}:`, e.message);
-                    userObj.photoURL = null;
-                  }
-                } else {
-                  console.log(`User ${data.uid} has no photo URL`);
-                  userObj.photoURL = null;
-                }
-                
-                userObj.name = profile.name || 'Anonymous User';
-                userObj.bio = profile.bio || null;
-                userObj.interests = profile.interests || [];
-                userObj.age = profile.age || null;
-                userObj.gender = profile.gender || null;
-                userObj.lookingFor = profile.lookingFor || [];
-                userObj.createdAt = profile.createdAt ? new Date(profile.createdAt.toDate()) : null;
-                
-                // Load profile images if available
-                if (profile.profileImages && Array.isArray(profile.profileImages)) {
-                  userObj.profileImages = profile.profileImages;
-                }
-                
-                // Calculate shared interests
-                if (profile.interests && currentUserInterests.length > 0) {
-                  userObj.sharedInterests = findSharedInterests(currentUserInterests, profile.interests);
-                  userObj.sharedInterestsCount = userObj.sharedInterests.length;
-                  // Using a safer type casting approach
-                  const tierValue = calculateTier(userObj.sharedInterestsCount);
-                  userObj.tier = tierValue;
-                }
-                
-                console.log(`User ${data.uid} profile:`, {
-                  name: userObj.name,
-                  hasPhoto: !!userObj.photoURL,
-                  photoURL: userObj.photoURL ? 'exists' : 'missing',
-                  sharedInterests: userObj.sharedInterestsCount,
-                  tier: userObj.tier
-                });
-              }
-            });
-            
-            profilePromises.push(profilePromise);
-          } else {
-            console.log(`User ${data.uid} is out of range: ${Math.round(distance)}m`);
+    Alert.alert(
+      `Block ${name}?`,
+      'You won\'t see each other on the map, any pending requests between you are removed, and your chat will be closed. You can unblock them in Settings.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await blockUser(user.uid, uid, name);
+              handleDismissProfileCard();
+            } catch (error) {
+              console.error('Error blocking user:', error);
+              Alert.alert('Error', 'Failed to block user. Please try again.');
+            }
           }
-        } else if (data.uid === user.uid) {
-          console.log('Skipping current user location');
-        } else {
-          console.log('Skipping user with no location data');
         }
-      });
-      
-      // Wait for all profile data to be fetched
-      console.log(`Waiting for ${profilePromises.length} profile fetch operations to complete...`);
-      await Promise.all(profilePromises);
-      
-      // Sort users by tier first (highest tier first) and then by distance (closest first)
-      const tierRanking = {
-        'soulmate': 5,
-        'bestFriend': 4,
-        'friend': 3,
-        'buddy': 2,
-        'casual': 1
-      };
+      ]
+    );
+  };
+  
+  // Position-dependent fields of a nearby user; refreshed on every move
+  const getPositionFields = (nearby: NearbyLocation, ownFuzzedLocation: ObfuscatedLocation) => {
+    const { data } = nearby;
+    
+    const distance = getDistanceFromLatLonInMeters(
+      ownFuzzedLocation.latitude,
+      ownFuzzedLocation.longitude,
+      nearby.latitude,
+      nearby.longitude
+    );
+    
+    return {
+      latitude: nearby.latitude,
+      longitude: nearby.longitude,
+      distance: Math.round(distance),
+      // Users who chose to appear as an area rather than a pin
+      showAsArea: data.showAsArea === true,
+      precisionRadius: data.precisionRadius || 0,
+      // 'lastSeen' positions are drawn faded with their age
+      freshness: nearby.freshness,
+      positionUpdatedAt: nearby.updatedAt,
+      lastActive: data.lastSeen ? new Date(data.lastSeen.toDate()) : null
+    };
+  };
+  
+  // Build the marker entry for a nearby location, filled in with the user's profile
+  const buildNearbyUser = async (
+    nearby: NearbyLocation,
+    ownFuzzedLocation: ObfuscatedLocation,
+    currentUserInterests: string[]
+  ) => {
+    const { data } = nearby;
+    
+    const userObj: any = {
+      uid: nearby.uid,
+      ...getPositionFields(nearby, ownFuzzedLocation),
+      photoURL: null,
+      name: null,
+      bio: null,
+      interests: [],
+      sharedInterests: [],
+      sharedInterestsCount: 0,
+      tier: 'casual', // Scored once everyone in range is known
+      online: false, // Filled in from presence
+      age: null,
+      gender: null,
+      lookingFor: [],
+      createdAt: null
+    };
+    
+    console.log(`User ${data.uid} is within range: ~${userObj.distance}m`);
+    
+    // Fetch user profile data
+    const profile = await fetchUserProfile(nearby.uid);
+    if (profile) {
+      console.log(`Setting profile data for user ${data.uid}`);
       
-      users.sort((a, b) => {
-        // Compare tiers first
-        const tierDiff = tierRanking[b.tier] - tierRanking[a.tier];
+      // Log the photo URL for debugging
+      if (profile.photoURL) {
+        console.log(`User ${data.uid} photo URL: ${profile.photoURL.substring(0, 50)}...`);
+        
+        // Ensure the photoURL is properly formed
+        let finalPhotoURL = profile.photoURL.trim();
         
-        if (tierDiff !== 0) {
-          return tierDiff; // Sort by tier if tiers are different
+        // Validate URL - add https:// if missing
+        if (!finalPhotoURL.startsWith('http')) {
+          finalPhotoURL = `https://${finalPhotoURL}`;
         }
         
-        // If tiers are the same, sort by distance
-        return a.distance - b.distance;
-      });
+        // Add a cache-busting parameter to force reload on each run
+        const timestamp = new Date().getTime();
+        if (finalPhotoURL.includes('?')) {
+          finalPhotoURL += `&_cb=${timestamp}`;
+        } else {
+          finalPhotoURL += `?_cb=${timestamp}`;
+        }
+        
+        // Additional validation
+        try {
+          new URL(finalPhotoURL); // Test if it's a valid URL
+          
+          // Set the URL only after validation
+          userObj.photoURL = finalPhotoURL;
+          console.log(`Set User ${data.uid} photoURL: ${finalPhotoURL.substring(0, 30)}...`);
+          
+          // Pre-cache the image immediately
+          try {
+            console.log(`Pre-fetching image for ${data.uid}`);
+            Image.prefetch(finalPhotoURL)
+              .catch(prefetchError => {
+                console.error(`Prefetch error for ${data.uid}:`, prefetchError);
+              });
+          } catch (err) {
+            console.warn('Prefetch attempt failed:', err);
+          }
+        } catch (e) {
+          console.error(`Invalid URL for user ${data.uid}:`, e.message);
+          userObj.photoURL = null;
+        }
+      } else {
+        console.log(`User ${data.uid} has no photo URL`);
+        userObj.photoURL = null;
+      }
       
-      console.log('All profile data fetched and sorted. Nearby users with profiles:', users.map(u => ({
-        uid: u.uid,
-        name: u.name,
-        tier: u.tier,
-        sharedInterests: u.sharedInterestsCount
-      })));
+      userObj.name = profile.name || 'Anonymous User';
+      userObj.bio = profile.bio || null;
+      userObj.interests = canonicalizeInterests(profile.interests);
+      userObj.age = profile.age || null;
+      userObj.gender = profile.gender || null;
+      userObj.lookingFor = profile.lookingFor || [];
+      userObj.createdAt = profile.createdAt ? new Date(profile.createdAt.toDate()) : null;
       
-      // Apply offset algorithm to prevent overlapping markers
-      const offsetUsers = offsetOverlappingMarkers(users);
+      // Load profile images if available
+      if (profile.profileImages && Array.isArray(profile.profileImages)) {
+        userObj.profileImages = profile.profileImages;
+      }
       
-      // Update the state
-      setNearbyUsers(offsetUsers);
+      // Calculate shared interests
+      if (profile.interests && currentUserInterests.length > 0) {
+        userObj.sharedInterests = findSharedInterests(currentUserInterests, userObj.interests);
+        userObj.sharedInterestsCount = userObj.sharedInterests.length;
+      }
       
-      // Apply current filters
-      applyFilters(offsetUsers);
-    } catch (error) {
-      console.error('Error fetching nearby users:', error);
-      Alert.alert('Error', 'Failed to fetch nearby users.');
-    } finally {
-      setRefreshing(false);
+      console.log(`User ${data.uid} profile:`, {
+        name: userObj.name,
+        hasPhoto: !!userObj.photoURL,
+        photoURL: userObj.photoURL ? 'exists' : 'missing',
+        sharedInterests: userObj.sharedInterestsCount,
+        tier: userObj.tier
+      });
     }
+    
+    return userObj;
   };
   
   // Toggle location visibility
@@ -964,11 +1037,17 @@ export default function MapScreen() {
         }
       }, { merge: true });
       
-      // Update in Firestore - locations collection
-      const locationDocRef = doc(db, 'locations', user.uid);
-      await setDoc(locationDocRef, {
-        visible: newVisibility
-      }, { merge: true });
+      // Update in Firestore - locations collection, still subject to the
+      // schedule and safe zones
+      await updateLocationVisibility(user.uid, newVisibility, visibilitySchedule);
+      
+      // Background updates stop as soon as the user hides
+      await syncBackgroundLocation({
+        uid: user.uid,
+        visible: newVisibility,
+        privacy: userData?.locationPrivacy,
+        schedule: visibilitySchedule
+      });
       
       console.log('Location visibility updated in Firebase');
     } catch (error) {
@@ -979,6 +1058,50 @@ export default function MapScreen() {
     }
   };
   
+  // Start or end ghost mode
+  const setGhostUntil = async (ghostUntil: number | null) => {
+    try {
+      if (!user?.uid) return;
+      
+      const userDocRef = doc(db, 'users', user.uid);
+      await setDoc(userDocRef, {
+        visibilitySchedule: { ghostUntil }
+      }, { merge: true });
+      
+      await refreshUserData();
+      setVisibilityNow(Date.now());
+      
+      await syncBackgroundLocation({
+        uid: user.uid,
+        visible: locationVisible,
+        privacy: userData?.locationPrivacy,
+        schedule: { ...visibilitySchedule, ghostUntil }
+      });
+    } catch (error) {
+      console.error('Error updating ghost mode:', error);
+      Alert.alert('Error', 'Failed to update ghost mode.');
+    }
+  };
+  
+  // Ghost mode options, opened from the visibility status
+  const showGhostModeOptions = () => {
+    const options: any[] = [
+      { text: 'Hide for 1 hour', onPress: () => setGhostUntil(Date.now() + 60 * 60 * 1000) },
+      { text: 'Hide until tomorrow morning', onPress: () => setGhostUntil(getNextMorning()) }
+    ];
+    
+    if (visibilityStatus.mode === 'ghost') {
+      options.push({ text: 'End ghost mode', onPress: () => setGhostUntil(null) });
+    }
+    options.push({ text: 'Cancel', style: 'cancel' });
+    
+    Alert.alert(
+      'Ghost Mode',
+      'Hide your location for a while without turning visibility off. Your schedule can be edited from your profile.',
+      options
+    );
+  };
+  
   // Open/close filter drawer
   const toggleFilterDrawer = () => {
     // Store current state for animation
@@ -1063,9 +1186,29 @@ export default function MapScreen() {
     }));
   };
   
+  // Handle discovery radius change
+  const handleDiscoveryRadiusChange = (value: number) => {
+    setFilters(prev => ({
+      ...prev,
+      discoveryRadius: resolveDiscoveryRadius(value)
+    }));
+  };
+  
   // Handle loading preset
   const handleLoadPreset = (presetFilters) => {
-    setFilters(presetFilters);
+    // Older presets may lack newer settings or hold interests as typed
+    setFilters(resolveDiscoveryFilters(presetFilters));
+  };
+  
+  // Jump to a user picked from the list and open their card
+  const handleListUserSelect = (nearbyUser: any) => {
+    mapRef.current?.animateToRegion({
+      latitude: nearbyUser.latitude,
+      longitude: nearbyUser.longitude,
+      latitudeDelta: 0.005,
+      longitudeDelta: 0.005
+    }, 400);
+    handleMarkerPress(nearbyUser);
   };
   
   // Function to get safe area insets
@@ -1094,22 +1237,18 @@ export default function MapScreen() {
       setLocation(location);
       
       // Save updated location to Firebase
-      if (user?.uid) {
+      if (user?.uid && !suspended) {
         console.log('Updating location in Firebase');
-        const userLocationRef = doc(db, 'locations', user.uid);
-        await setDoc(userLocationRef, {
-          uid: user.uid,
-          location: new GeoPoint(
-            location.coords.latitude,
-            location.coords.longitude
-          ),
-          timestamp: new Date(),
-          visible: locationVisible,
-          lastSeen: serverTimestamp()
-        }, { merge: true });
+        await saveUserLocation(
+          user.uid,
+          location.coords.latitude,
+          location.coords.longitude,
+          locationVisible,
+          userData?.locationPrivacy,
+          visibilitySchedule
+        );
         
-        // Fetch nearby users
-        await fetchNearbyUsers(location.coords.latitude, location.coords.longitude);
+        // Moving the location re-centers the live nearby subscription
       }
     } catch (error) {
       console.error('Error refreshing location:', error);
@@ -1147,12 +1286,7 @@ export default function MapScreen() {
             ref={mapRef}
             provider={PROVIDER_GOOGLE}
             style={styles.map}
-            initialRegion={{
-              latitude: location.coords.latitude,
-              longitude: location.coords.longitude,
-              latitudeDelta: 0.01,
-              longitudeDelta: 0.01,
-            }}
+            initialRegion={getRadiusRegion(location.coords.latitude, location.coords.longitude)}
             showsUserLocation={true}
             showsMyLocationButton={true}
             cacheEnabled={Platform.OS === 'android'}
@@ -1165,30 +1299,81 @@ export default function MapScreen() {
                 closeSpiderfier();
               }
             }}
+            onRegionChangeComplete={handleRegionChangeComplete}
           >
-            {/* Quarter mile radius circle */}
+            {/* Discovery radius circle */}
             <Circle
               center={{
                 latitude: location.coords.latitude,
                 longitude: location.coords.longitude,
               }}
-              radius={QUARTER_MILE_IN_METERS}
+              radius={discoveryRadius}
               fillColor="rgba(0, 123, 255, 0.1)"
               strokeColor="rgba(0, 123, 255, 0.5)"
               strokeWidth={1}
             />
             
-            {/* Nearby users markers - Using filtered users */}
-            {!showSpiderfier && filteredUsers.map((nearbyUser, index) => {
+            {/* Cluster bubbles for groups of users when zoomed out */}
+            {!showSpiderfier && clusterResult.clusters.map(cluster => (
+              <Marker
+                key={cluster.id}
+                coordinate={{
+                  latitude: cluster.latitude,
+                  longitude: cluster.longitude,
+                }}
+                tracksViewChanges={false}
+                onPress={() => handleClusterPress(cluster)}
+              >
+                <ClusterMarker count={cluster.count} tier={cluster.tier} />
+              </Marker>
+            ))}
+            
+            {/* Nearby users markers - Using filtered users not inside a cluster */}
+            {!showSpiderfier && clusterResult.points.map((nearbyUser, index) => {
               if (nearbyUser.photoURL) {
                 console.log(`Rendering marker for user ${nearbyUser.uid} - profile image available`);
               }
               
-              // Use a stable key combining ID and coordinates to avoid remounts
-              const markerKey = `marker-${nearbyUser.uid || index}-${nearbyUser.latitude.toFixed(6)}-${nearbyUser.longitude.toFixed(6)}`;
+              // Key on the user only so a move animates the marker instead of remounting it
+              const markerKey = `marker-${nearbyUser.uid || index}`;
+              
+              // Users sharing only an area get a ring with a small tappable label instead of a pin
+              if (nearbyUser.showAsArea) {
+                const areaColor = TIER_COLORS[nearbyUser.tier as MarkerTier] || TIER_COLORS.casual;
+                const lastSeen = nearbyUser.freshness === 'lastSeen';
+                return (
+                  <React.Fragment key={markerKey}>
+                    <Circle
+                      center={{
+                        latitude: nearbyUser.latitude,
+                        longitude: nearbyUser.longitude,
+                      }}
+                      radius={nearbyUser.precisionRadius || 100}
+                      fillColor={lastSeen ? `${areaColor}11` : `${areaColor}22`}
+                      strokeColor={lastSeen ? `${areaColor}55` : `${areaColor}99`}
+                      strokeWidth={1}
+                    />
+                    <AnimatedUserMarker
+                      coordinate={{
+                        latitude: nearbyUser.latitude,
+                        longitude: nearbyUser.longitude,
+                      }}
+                      tracksViewChanges={false}
+                      onPress={() => handleMarkerPress(nearbyUser)}
+                    >
+                      <View style={[styles.areaLabel, { borderColor: areaColor }, lastSeen && styles.areaLabelFaded]}>
+                        <Text style={styles.areaLabelText} numberOfLines={1}>
+                          {nearbyUser.name || 'Someone'}
+                          {lastSeen ? ` · ${formatLastSeen(nearbyUser.positionUpdatedAt)}` : ''}
+                        </Text>
+                      </View>
+                    </AnimatedUserMarker>
+                  </React.Fragment>
+                );
+              }
                 
               return (
-                <Marker
+                <AnimatedUserMarker
                   key={markerKey}
                   coordinate={{
                     latitude: nearbyUser.latitude,
@@ -1204,8 +1389,12 @@ export default function MapScreen() {
                     tier={nearbyUser.tier || 'casual'}
                     sharedInterestsCount={nearbyUser.sharedInterestsCount || 0}
                     online={nearbyUser.online || false}
+                    connected={connectedUids.has(nearbyUser.uid)}
+                    lastSeenLabel={nearbyUser.freshness === 'lastSeen'
+                      ? formatLastSeen(nearbyUser.positionUpdatedAt)
+                      : null}
                   />
-                </Marker>
+                </AnimatedUserMarker>
               );
             })}
             
@@ -1225,6 +1414,9 @@ export default function MapScreen() {
             visible={showFilterDrawer}
             onClose={toggleFilterDrawer}
             filters={filters}
+            matchCount={filterSummary.matchCount}
+            totalCount={filterSummary.total}
+            exclusions={filterSummary.exclusions}
             allInterests={availableInterests}
             onInterestToggle={handleInterestToggle}
             onMinSharedInterestsChange={handleMinSharedInterestsChange}
@@ -1233,6 +1425,7 @@ export default function MapScreen() {
             onGenderChange={handleGenderChange}
             onActivityStatusChange={handleActivityStatusChange}
             onLookingForChange={handleLookingForChange}
+            onDiscoveryRadiusChange={handleDiscoveryRadiusChange}
             onLoadPreset={handleLoadPreset}
             drawerAnimation={filterDrawerAnimation}
           />
@@ -1286,6 +1479,26 @@ export default function MapScreen() {
                 ios_backgroundColor="#F44336"
               />
             </View>
+            
+            {/* Current visibility mode and when it next changes */}
+            {locationVisible && (
+              <TouchableOpacity
+                style={[
+                  styles.visibilityStatus,
+                  !visibilityStatus.visible && styles.visibilityStatusHidden
+                ]}
+                onPress={showGhostModeOptions}
+              >
+                <FontAwesome
+                  name={visibilityStatus.visible ? 'eye' : 'eye-slash'}
+                  size={12}
+                  color="#fff"
+                />
+                <Text style={styles.visibilityStatusText}>
+                  {describeVisibilityStatus(visibilityStatus, visibilityNow)}
+                </Text>
+              </TouchableOpacity>
+            )}
           </Animated.View>
           
           {/* Information panel - hide when profile card is visible */}
@@ -1304,18 +1517,33 @@ export default function MapScreen() {
             <Text style={styles.infoTitle}>Nearby Users</Text>
             <Text style={styles.infoText}>
               {filteredUsers.length > 0 
-                ? `${filteredUsers.length} users nearby`
+                ? `${filteredUsers.length} users within ${formatRadius(discoveryRadius)}`
                 : filtersActive
                   ? 'No users match your current filters'
                   : 'No users nearby at the moment'}
             </Text>
             
+            {/* Too many people to browse pin by pin at large radii */}
+            {clusteredRadius && filteredUsers.length > 0 && (
+              <NearbyUserList
+                users={filteredUsers}
+                onSelectUser={handleListUserSelect}
+                resetKey={`${discoveryRadius}-${JSON.stringify(filters)}`}
+              />
+            )}
+            
             {!locationVisible && (
               <Text style={styles.warningText}>
                 Your location is currently hidden. Others can't see you on the map.
               </Text>
             )}
             
+            {locationVisible && !visibilityStatus.visible && (
+              <Text style={styles.warningText}>
+                {describeVisibilityStatus(visibilityStatus, visibilityNow)}. Others can't see you on the map.
+              </Text>
+            )}
+            
             {filtersActive && (
               <Text style={styles.filterText}>
                 Filters active: {
@@ -1344,12 +1572,16 @@ export default function MapScreen() {
               interests={selectedUser.interests || []}
               sharedInterests={selectedUser.sharedInterests || []}
               tier={selectedUser.tier || 'casual'}
+              compatibilityScore={selectedUser.compatibilityScore}
+              compatibility={selectedUser.compatibility}
               distance={selectedUser.distance || 0}
               online={selectedUser.online || false}
+              lastActive={selectedUser.lastActive || null}
               onDismiss={handleDismissProfileCard}
               onStartChat={handleStartChat}
               onInvite={handleSendInvite}
               onAcceptInvite={handleAcceptInvite}
+              onBlock={handleBlockUser}
               onDeclineInvite={handleDeclineInvite}
             />
           )}
@@ -1443,12 +1675,52 @@ const styles = StyleSheet.create({
     marginTop: 8,
     fontStyle: 'italic',
   },
+  visibilityStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    backgroundColor: '#4CAF50',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginTop: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  visibilityStatusHidden: {
+    backgroundColor: '#607D8B',
+  },
+  visibilityStatusText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   filterText: {
     fontSize: 14,
     color: '#ff6600',
     marginTop: 8,
     fontStyle: 'italic',
   },
+  areaLabel: {
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    borderWidth: 2,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    maxWidth: 120,
+  },
+  areaLabelFaded: {
+    opacity: 0.55,
+  },
+  areaLabelText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#333',
+  },
   // Spiderfier styles
   spiderMarkerContainer: {
     alignItems: 'center',
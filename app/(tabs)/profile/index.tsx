@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { 
   StyleSheet, 
   View, 
@@ -20,12 +20,31 @@ import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { useAuth } from '@/contexts/AuthContext';
 import { signOut } from '@firebase/auth';
-import { doc, updateDoc } from '@firebase/firestore';
+import { doc, updateDoc, setDoc } from '@firebase/firestore';
 import { auth, db } from '@/config/firebase';
-import { router } from 'expo-router';
+import { router, useFocusEffect } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { BlurView } from 'expo-blur';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { 
+  PRECISION_LEVELS, 
+  resolveLocationPrivacy, 
+  LocationPrecision 
+} from '@/utils/locationPrivacy';
+import { 
+  isBackgroundLocationEnabled, 
+  setBackgroundLocationEnabled, 
+  syncBackgroundLocation 
+} from '@/utils/backgroundLocation';
+import {
+  resolveVisibilitySchedule,
+  getVisibilityStatus,
+  VisibilitySchedule
+} from '@/utils/visibilitySchedule';
+import VisibilityScheduleEditor from '@/components/profile/VisibilityScheduleEditor';
+import { updateLocationVisibility } from '@/utils/locations';
+import { loadSafeZones, getActiveSafeZone, SafeZone } from '@/utils/safeZones';
+import { getInterestLabel } from '@/utils/interestTaxonomy';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CARD_PADDING = 20;
@@ -36,6 +55,11 @@ const TAB_BAR_HEIGHT = Platform.OS === 'ios' ? 83 : 70; // Height including safe
 export default function ProfileScreen() {
   const { userData, user, refreshUserData } = useAuth();
   const [locationVisible, setLocationVisible] = useState(userData?.location?.visible || false);
+  const locationPrivacy = resolveLocationPrivacy(userData?.locationPrivacy);
+  const visibilitySchedule = resolveVisibilitySchedule(userData?.visibilitySchedule);
+  const [backgroundUpdates, setBackgroundUpdates] = useState(false);
+  const [safeZoneCount, setSafeZoneCount] = useState(0);
+  const [activeSafeZone, setActiveSafeZone] = useState<SafeZone | null>(null);
   const [loading, setLoading] = useState(false);
   const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
   const [showImageModal, setShowImageModal] = useState(false);
@@ -49,6 +73,20 @@ export default function ProfileScreen() {
     extrapolate: 'clamp',
   });
   
+  // Load the device-local background location preference
+  useEffect(() => {
+    isBackgroundLocationEnabled().then(setBackgroundUpdates);
+  }, []);
+  
+  // Safe zones live on the device; refresh them whenever the tab is shown
+  useFocusEffect(
+    useCallback(() => {
+      if (!user?.uid) return;
+      loadSafeZones(user.uid).then(zones => setSafeZoneCount(zones.length));
+      getActiveSafeZone(user.uid).then(setActiveSafeZone);
+    }, [user?.uid])
+  );
+  
   // Handle image tap
   const handleImageTap = (index: number) => {
     setSelectedImageIndex(index);
@@ -85,6 +123,14 @@ export default function ProfileScreen() {
       
       await refreshUserData();
       setLocationVisible(value);
+      
+      // Background updates only run while visible
+      await syncBackgroundLocation({
+        uid: user.uid,
+        visible: value,
+        privacy: userData?.locationPrivacy,
+        schedule: visibilitySchedule
+      });
     } catch (error) {
       console.error('Error updating location visibility:', error);
       Alert.alert('Error', 'Failed to update setting. Please try again.');
@@ -93,6 +139,97 @@ export default function ProfileScreen() {
     }
   };
   
+  // Handle background location opt-in
+  const handleBackgroundUpdatesToggle = async (value: boolean) => {
+    if (!user?.uid) return;
+    
+    setLoading(true);
+    try {
+      const applied = await setBackgroundLocationEnabled(value, {
+        uid: user.uid,
+        visible: locationVisible,
+        privacy: userData?.locationPrivacy,
+        schedule: visibilitySchedule
+      });
+      
+      if (!applied) {
+        Alert.alert(
+          'Permission Needed',
+          'Allow location access "Always" in your device settings to keep your spot updated in the background.'
+        );
+        return;
+      }
+      
+      setBackgroundUpdates(value);
+    } catch (error) {
+      console.error('Error updating background location setting:', error);
+      Alert.alert('Error', 'Failed to update setting. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+  
+  // Handle location privacy changes (precision level or area-only display)
+  const handleLocationPrivacyChange = async (changes: { precision?: LocationPrecision; showAsArea?: boolean }) => {
+    if (!user?.uid) return;
+    
+    setLoading(true);
+    try {
+      const updatedPrivacy = { ...locationPrivacy, ...changes };
+      
+      const userRef = doc(db, 'users', user.uid);
+      await updateDoc(userRef, {
+        locationPrivacy: updatedPrivacy
+      });
+      
+      // Display mode can switch right away; a new precision applies
+      // the next time the location is written
+      if (changes.showAsArea !== undefined) {
+        const locationRef = doc(db, 'locations', user.uid);
+        await setDoc(locationRef, {
+          showAsArea: updatedPrivacy.showAsArea
+        }, { merge: true });
+      }
+      
+      await refreshUserData();
+    } catch (error) {
+      console.error('Error updating location privacy:', error);
+      Alert.alert('Error', 'Failed to update setting. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+  
+  // Handle visibility schedule and ghost mode changes
+  const handleVisibilityScheduleChange = async (schedule: VisibilitySchedule) => {
+    if (!user?.uid) return;
+    
+    setLoading(true);
+    try {
+      const userRef = doc(db, 'users', user.uid);
+      await updateDoc(userRef, {
+        visibilitySchedule: schedule
+      });
+      
+      // Apply the new schedule to the published location right away
+      await updateLocationVisibility(user.uid, locationVisible, schedule);
+      
+      await refreshUserData();
+      
+      await syncBackgroundLocation({
+        uid: user.uid,
+        visible: locationVisible,
+        privacy: userData?.locationPrivacy,
+        schedule
+      });
+    } catch (error) {
+      console.error('Error updating visibility schedule:', error);
+      Alert.alert('Error', 'Failed to update setting. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+  
   if (!userData) {
     return (
       <View style={styles.loadingContainer}>
@@ -166,7 +303,7 @@ export default function ProfileScreen() {
             <View style={styles.interestsContainer}>
               {userData.interests.map((interest, index) => (
                 <View key={index} style={styles.interestTag}>
-                  <Text style={styles.interestText}>{interest}</Text>
+                  <Text style={styles.interestText}>{getInterestLabel(interest)}</Text>
                 </View>
               ))}
             </View>
@@ -230,6 +367,104 @@ export default function ProfileScreen() {
               ? 'Your location is visible to other users'
               : 'Your location is hidden from other users'}
           </Text>
+          
+          {locationVisible && (
+            <View style={styles.settingItemSpaced}>
+              <VisibilityScheduleEditor
+                schedule={visibilitySchedule}
+                status={getVisibilityStatus(locationVisible, visibilitySchedule)}
+                onChange={handleVisibilityScheduleChange}
+                disabled={loading}
+              />
+            </View>
+          )}
+          
+          <View style={[styles.settingItem, styles.settingItemSpaced]}>
+            <View style={styles.settingLabelContainer}>
+              <MaterialIcons name="blur-on" size={20} color="#6C5CE7" />
+              <Text style={styles.settingLabel}>Location Precision</Text>
+            </View>
+          </View>
+          <View style={styles.precisionOptions}>
+            {(Object.keys(PRECISION_LEVELS) as LocationPrecision[]).map(level => (
+              <TouchableOpacity
+                key={level}
+                style={[
+                  styles.precisionOption,
+                  locationPrivacy.precision === level && styles.precisionOptionSelected
+                ]}
+                onPress={() => handleLocationPrivacyChange({ precision: level })}
+                disabled={loading}
+              >
+                <Text
+                  style={[
+                    styles.precisionOptionText,
+                    locationPrivacy.precision === level && styles.precisionOptionTextSelected
+                  ]}
+                >
+                  {PRECISION_LEVELS[level].label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          
+          <View style={[styles.settingItem, styles.settingItemSpaced]}>
+            <View style={styles.settingLabelContainer}>
+              <MaterialIcons name="radio-button-unchecked" size={20} color="#6C5CE7" />
+              <Text style={styles.settingLabel}>Show as Area</Text>
+            </View>
+            <Switch
+              value={locationPrivacy.showAsArea}
+              onValueChange={(value) => handleLocationPrivacyChange({ showAsArea: value })}
+              trackColor={{ false: '#e0e0e0', true: '#a29bfe' }}
+              thumbColor={locationPrivacy.showAsArea ? '#6C5CE7' : '#f4f3f4'}
+              ios_backgroundColor="#e0e0e0"
+              disabled={loading}
+            />
+          </View>
+          <Text style={styles.settingDescription}>
+            {locationPrivacy.showAsArea 
+              ? 'Others see a ring around your approximate area instead of a pin'
+              : 'Others see a pin at your approximate position, never your exact one'}
+          </Text>
+          
+          <TouchableOpacity
+            style={[styles.settingItem, styles.settingItemSpaced]}
+            onPress={() => router.push('/safe-zones')}
+          >
+            <View style={styles.settingLabelContainer}>
+              <MaterialIcons name="shield" size={20} color="#6C5CE7" />
+              <Text style={styles.settingLabel}>Safe Zones</Text>
+            </View>
+            <MaterialIcons name="chevron-right" size={22} color="#999" />
+          </TouchableOpacity>
+          <Text style={styles.settingDescription}>
+            {activeSafeZone
+              ? `You're in ${activeSafeZone.name}, so your location is ${activeSafeZone.mode === 'hide' ? 'hidden' : 'blurred'}`
+              : safeZoneCount > 0
+                ? `${safeZoneCount} safe zone${safeZoneCount === 1 ? '' : 's'}, kept only on this device`
+                : 'Hide or blur your location at places like home or work'}
+          </Text>
+          
+          <View style={[styles.settingItem, styles.settingItemSpaced]}>
+            <View style={styles.settingLabelContainer}>
+              <MaterialIcons name="my-location" size={20} color="#6C5CE7" />
+              <Text style={styles.settingLabel}>Background Updates</Text>
+            </View>
+            <Switch
+              value={backgroundUpdates}
+              onValueChange={handleBackgroundUpdatesToggle}
+              trackColor={{ false: '#e0e0e0', true: '#a29bfe' }}
+              thumbColor={backgroundUpdates ? '#6C5CE7' : '#f4f3f4'}
+              ios_backgroundColor="#e0e0e0"
+              disabled={loading}
+            />
+          </View>
+          <Text style={styles.settingDescription}>
+            {backgroundUpdates 
+              ? 'Your spot updates when you move, even with the app closed, while you are visible'
+              : 'Your spot only updates while the map is open'}
+          </Text>
         </View>
         
         {/* Action Buttons */}
@@ -470,6 +705,32 @@ const styles = StyleSheet.create({
     marginTop: 4,
     marginLeft: 28,
   },
+  settingItemSpaced: {
+    marginTop: 20,
+  },
+  precisionOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginLeft: 24,
+  },
+  precisionOption: {
+    backgroundColor: '#f3f0ff',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    margin: 4,
+  },
+  precisionOptionSelected: {
+    backgroundColor: '#6C5CE7',
+  },
+  precisionOptionText: {
+    fontSize: 13,
+    color: '#6C5CE7',
+    fontWeight: '500',
+  },
+  precisionOptionTextSelected: {
+    color: '#fff',
+  },
   editButton: {
     marginHorizontal: 16,
     marginTop: 8,
@@ -1,12 +1,15 @@
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
-import { Stack } from 'expo-router';
+import { Stack, router } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { useEffect } from 'react';
 import { ActivityIndicator, View, Platform } from 'react-native';
 import 'react-native-reanimated';
 import { auth } from '@/config/firebase';
+// Registers the background location task; must run at startup so the OS can wake it
+import '@/utils/backgroundLocation';
+import { subscribeToMatchAlertTaps } from '@/utils/matchAlerts';
 
 import { useColorScheme } from '@/components/useColorScheme';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
@@ -81,6 +84,13 @@ function RootLayoutNav() {
     });
   }, [user, loading]);
   
+  // Tapping a "match nearby" alert opens that person's profile
+  useEffect(() => {
+    return subscribeToMatchAlertTaps(({ uid, name, tier }) => {
+      router.push({ pathname: '/user-profile', params: { id: uid, name, tier } });
+    });
+  }, []);
+  
   console.log('RootLayoutNav rendering with Stack navigator');
   
   return (
@@ -122,6 +132,11 @@ function RootLayoutNav() {
         />
         <Stack.Screen name="complete-profile" options={{ headerShown: true }} />
         <Stack.Screen name="edit-profile" options={{ headerShown: true, title: 'Edit Profile' }} />
+        <Stack.Screen name="safe-zones" options={{ headerShown: true, title: 'Safe Zones' }} />
+        <Stack.Screen name="import-preset" options={{ headerShown: true, title: 'Import Preset' }} />
+        <Stack.Screen name="blocked-users" options={{ headerShown: true, title: 'Blocked Users' }} />
+        <Stack.Screen name="moderation" options={{ headerShown: true, title: 'Moderation' }} />
+        <Stack.Screen name="relationship-health" options={{ headerShown: true, title: 'Keep in Touch' }} />
         <Stack.Screen name="+not-found" options={{ headerShown: false, title: 'Not Found' }} />
       </Stack>
     </ThemeProvider>
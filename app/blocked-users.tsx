@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useAuth } from '@/contexts/AuthContext';
+import { Block, useBlocks, unblockUser } from '@/utils/blocks';
+
+/**
+ * Everyone the user has blocked, with a way to unblock them
+ */
+export default function BlockedUsersScreen() {
+  const { user } = useAuth();
+  const { blocks, loading } = useBlocks(user?.uid);
+  const [unblocking, setUnblocking] = useState<string | null>(null);
+
+  const handleUnblock = (block: Block) => {
+    if (!user?.uid) return;
+    const displayName = block.blockedName || 'this user';
+
+    Alert.alert(`Unblock ${displayName}?`, 'You\'ll be able to see each other and connect again.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Unblock',
+        onPress: async () => {
+          try {
+            setUnblocking(block.blockedId);
+            await unblockUser(user.uid, block.blockedId);
+          } catch (error) {
+            console.error('Error unblocking user:', error);
+            Alert.alert('Error', 'Failed to unblock user. Please try again.');
+          } finally {
+            setUnblocking(null);
+          }
+        }
+      }
+    ]);
+  };
+
+  const renderBlock = ({ item }: { item: Block }) => (
+    <View style={styles.row}>
+      <View style={styles.avatar}>
+        <Text style={styles.avatarText}>{(item.blockedName || '?').charAt(0).toUpperCase()}</Text>
+      </View>
+      <View style={styles.rowContent}>
+        <Text style={styles.name}>{item.blockedName || 'Unknown User'}</Text>
+        {item.createdAt && (
+          <Text style={styles.date}>
+            Blocked {item.createdAt.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+          </Text>
+        )}
+      </View>
+      <TouchableOpacity
+        style={styles.unblockButton}
+        onPress={() => handleUnblock(item)}
+        disabled={unblocking === item.blockedId}
+      >
+        {unblocking === item.blockedId ? (
+          <ActivityIndicator size="small" color="#6C5CE7" />
+        ) : (
+          <Text style={styles.unblockButtonText}>Unblock</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#6C5CE7" />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={blocks.length === 0 && styles.emptyContent}
+      data={blocks}
+      keyExtractor={item => item.id}
+      renderItem={renderBlock}
+      ListEmptyComponent={
+        <View style={styles.centered}>
+          <MaterialIcons name="block" size={48} color="#ccc" />
+          <Text style={styles.emptyText}>You haven't blocked anyone.</Text>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  emptyContent: {
+    flexGrow: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: '#fff',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#ddd',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  rowContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  date: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  unblockButton: {
+    minWidth: 80,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#6C5CE7',
+    alignItems: 'center',
+  },
+  unblockButtonText: {
+    color: '#6C5CE7',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
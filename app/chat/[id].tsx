@@ -43,6 +43,8 @@ import {
   arrayRemove
 } from '@firebase/firestore';
 import { db } from '@/config/firebase';
+import { usePresence } from '@/utils/presence';
+import { useBlocks, blockUser, unblockUser } from '@/utils/blocks';
 import { 
   MediaPicker, 
   MediaItem, 
@@ -55,6 +57,8 @@ import {
   UrlPreview, 
   extractUrls 
 } from '@/components/chat';
+import ReportModal from '@/components/moderation/ReportModal';
+import { snapshotMessage, isSuspended } from '@/utils/reports';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const BUBBLE_MAX_WIDTH = SCREEN_WIDTH * 0.75;
@@ -69,6 +73,13 @@ enum MessageType {
   SYSTEM = 'system'
 }
 
+// The person on the other side of the chat
+interface ChatPartner {
+  id: string;
+  name?: string;
+  photoURL?: string;
+}
+
 // Message interface
 interface Message {
   id: string;
@@ -97,9 +108,20 @@ export default function ChatRoomScreen() {
   const [loading, setLoading] = useState(true);
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
-  const [otherUser, setOtherUser] = useState(null);
+  const [otherUser, setOtherUser] = useState<ChatPartner | null>(null);
   const [isTyping, setIsTyping] = useState(false);
   const [otherUserTyping, setOtherUserTyping] = useState(false);
+  
+  // Online status of the person we're chatting with
+  const presence = usePresence(otherUser?.id ? [otherUser.id] : []);
+  const otherUserPresence = otherUser?.id ? presence[otherUser.id] : undefined;
+  
+  // A block either way, or a removed connection, closes the chat to new messages
+  const { blocks, blockedUids } = useBlocks(user?.uid);
+  const [archived, setArchived] = useState(false);
+  const blockedByMe = !!otherUser?.id && blocks.some(block => block.blockedId === otherUser.id);
+  const suspended = isSuspended(userData);
+  const chatClosed = archived || suspended || (!!otherUser?.id && blockedUids.has(otherUser.id));
   const [inputHeight, setInputHeight] = useState(50);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   
@@ -122,6 +144,9 @@ export default function ChatRoomScreen() {
   const [selectedMessage, setSelectedMessage] = useState<Message | null>(null);
   const [contextMenuPosition, setContextMenuPosition] = useState({ x: 0, y: 0 });
   
+  // Message being reported
+  const [reportedMessage, setReportedMessage] = useState<Message | null>(null);
+  
   // Animation values
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const contentOffsetY = useRef(new Animated.Value(0)).current;
@@ -259,9 +284,20 @@ export default function ChatRoomScreen() {
     };
   }, [user?.uid, chatId]);
 
+  // Removing a connection archives the chat read-only for both sides
+  useEffect(() => {
+    if (!user?.uid || !chatId) return;
+    
+    return onSnapshot(
+      doc(db, 'chatRooms', chatId.toString()),
+      chatRoomDoc => setArchived(!!chatRoomDoc.data()?.archived),
+      error => console.error('Error listening to chat room:', error)
+    );
+  }, [user?.uid, chatId]);
+
   // Handle sending a new text message
   const handleSendTextMessage = async () => {
-    if (!user?.uid || !chatId || !newMessage.trim()) return;
+    if (!user?.uid || !chatId || !newMessage.trim() || chatClosed) return;
     
     try {
       // Get a reference to the messages collection for this chat room
@@ -315,7 +351,7 @@ export default function ChatRoomScreen() {
   
   // Handle sending media messages
   const handleSendMediaMessage = async (mediaItems: MediaItem[]) => {
-    if (!user?.uid || !chatId || mediaItems.length === 0) return;
+    if (!user?.uid || !chatId || mediaItems.length === 0 || chatClosed) return;
     
     try {
       // Get a reference to the messages collection for this chat room
@@ -377,7 +413,7 @@ export default function ChatRoomScreen() {
   
   // Handle sending a voice message
   const handleSendVoiceMessage = async (uri: string, duration: number) => {
-    if (!user?.uid || !chatId || !uri) return;
+    if (!user?.uid || !chatId || !uri || chatClosed) return;
     
     try {
       // Get a reference to the messages collection for this chat room
@@ -565,6 +601,14 @@ export default function ChatRoomScreen() {
     setShowReactionPicker(true);
   };
 
+  // Handle reporting a message
+  const handleReportMessage = () => {
+    if (!selectedMessage) return;
+    
+    setReportedMessage(selectedMessage);
+    setShowContextMenu(false);
+  };
+
   const renderMessage = ({ item, index }) => {
     const isUser = item.userId === user?.uid;
     const isSystem = item.system;
@@ -787,6 +831,47 @@ export default function ChatRoomScreen() {
     });
   }, []);
   
+  // Handle the header menu
+  const handleHeaderMenu = () => {
+    if (!user?.uid || !otherUser?.id) return;
+    const displayName = otherUser.name || name?.toString() || 'this user';
+    
+    const toggleBlock = async () => {
+      try {
+        if (blockedByMe) {
+          await unblockUser(user.uid, otherUser.id);
+        } else {
+          await blockUser(user.uid, otherUser.id, otherUser.name);
+        }
+      } catch (error) {
+        console.error('Error updating block:', error);
+        Alert.alert('Error', 'Failed to update block. Please try again.');
+      }
+    };
+    
+    Alert.alert(displayName, undefined, [
+      {
+        text: 'View Profile',
+        onPress: () => router.push({ pathname: '/user-profile', params: { id: otherUser.id, name: displayName } })
+      },
+      blockedByMe
+        ? { text: `Unblock ${displayName}`, onPress: toggleBlock }
+        : {
+          text: `Block ${displayName}`,
+          style: 'destructive',
+          onPress: () => Alert.alert(
+            `Block ${displayName}?`,
+            'You won\'t see each other on the map and neither of you can send messages here. You can unblock them in Settings.',
+            [
+              { text: 'Cancel', style: 'cancel' },
+              { text: 'Block', style: 'destructive', onPress: toggleBlock }
+            ]
+          )
+        },
+      { text: 'Cancel', style: 'cancel' }
+    ]);
+  };
+  
   // Calculate content container padding bottom based on input height
   const contentPaddingBottom = inputHeight + 16;
 
@@ -847,6 +932,16 @@ export default function ChatRoomScreen() {
                 <MaterialIcons name="add-reaction" size={20} color="#333" />
                 <Text style={styles.contextMenuItemText}>React</Text>
               </TouchableOpacity>
+              
+              {selectedMessage.userId !== user?.uid && (
+                <TouchableOpacity 
+                  style={styles.contextMenuItem}
+                  onPress={handleReportMessage}
+                >
+                  <MaterialIcons name="flag" size={20} color="#ff4757" />
+                  <Text style={[styles.contextMenuItemText, styles.contextMenuItemDanger]}>Report</Text>
+                </TouchableOpacity>
+              )}
             </View>
           </View>
         </TouchableWithoutFeedback>
@@ -881,9 +976,20 @@ export default function ChatRoomScreen() {
                     </Text>
                   </View>
                 )}
-                <Text style={styles.headerTitle} numberOfLines={1}>
-                  {name || 'Chat'}
-                </Text>
+                <View>
+                  <Text style={styles.headerTitle} numberOfLines={1}>
+                    {name || 'Chat'}
+                  </Text>
+                  {otherUserPresence && (
+                    <Text style={styles.headerStatus} numberOfLines={1}>
+                      {otherUserPresence.online
+                        ? 'Online'
+                        : otherUserPresence.lastSeen
+                          ? `Last seen ${otherUserPresence.lastSeen.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`
+                          : 'Offline'}
+                    </Text>
+                  )}
+                </View>
               </View>
             ),
             headerLeft: () => (
@@ -892,7 +998,7 @@ export default function ChatRoomScreen() {
               </TouchableOpacity>
             ),
             headerRight: () => (
-              <TouchableOpacity style={styles.headerButton}>
+              <TouchableOpacity style={styles.headerButton} onPress={handleHeaderMenu}>
                 <Ionicons name="ellipsis-vertical" size={24} color="#6C5CE7" />
               </TouchableOpacity>
             ),
@@ -931,7 +1037,20 @@ export default function ChatRoomScreen() {
               />
               
               {/* Input Container */}
-              {inputMode === 'text' ? (
+              {chatClosed ? (
+                <View style={styles.closedContainer}>
+                  <MaterialIcons name={archived && !blockedByMe && !suspended ? 'archive' : 'block'} size={18} color="#999" />
+                  <Text style={styles.closedText}>
+                    {suspended
+                      ? 'Your account is suspended.'
+                      : blockedByMe
+                        ? 'You blocked this user. Unblock them to send messages.'
+                        : archived
+                          ? 'This connection was removed. Send a new request to chat again.'
+                          : 'This conversation is closed.'}
+                  </Text>
+                </View>
+              ) : inputMode === 'text' ? (
                 <View style={styles.inputContainer}>
                   <View style={styles.inputWrapper}>
                     <TouchableOpacity 
@@ -1021,6 +1140,20 @@ export default function ChatRoomScreen() {
         
         {/* Context Menu */}
         {renderContextMenu()}
+        
+        {/* Report a message */}
+        <ReportModal
+          visible={!!reportedMessage}
+          title="Report Message"
+          report={reportedMessage ? {
+            reportedId: reportedMessage.userId,
+            target: 'message',
+            snapshot: snapshotMessage(reportedMessage),
+            chatRoomId: chatId?.toString() || null,
+            messageId: reportedMessage.id
+          } : null}
+          onClose={() => setReportedMessage(null)}
+        />
       </Animated.View>
     </SafeAreaView>
   );
@@ -1071,6 +1204,10 @@ const styles = StyleSheet.create({
     color: '#333',
     maxWidth: SCREEN_WIDTH - 150, // Adjust based on header button widths
   },
+  headerStatus: {
+    fontSize: 12,
+    color: '#888',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -1242,6 +1379,20 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: '#f0f0f0',
   },
+  closedContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  closedText: {
+    fontSize: 14,
+    color: '#999',
+    marginLeft: 8,
+  },
   inputWrapper: {
     flex: 1,
     flexDirection: 'row',
@@ -1308,4 +1459,7 @@ const styles = StyleSheet.create({
     color: '#333',
     marginLeft: 12,
   },
+  contextMenuItemDanger: {
+    color: '#ff4757',
+  },
 });
@@ -3,27 +3,33 @@ import { StyleSheet, View, Text, TextInput, TouchableOpacity, ScrollView, Alert,
 import { Stack, router } from 'expo-router';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import * as ImagePicker from 'expo-image-picker';
-import { doc, updateDoc } from '@firebase/firestore';
+import { doc, writeBatch } from '@firebase/firestore';
 import { ref, uploadBytes, getDownloadURL } from '@firebase/storage';
 import { db, storage } from '@/config/firebase';
 import { useAuth } from '@/contexts/AuthContext';
+import {
+  INTEREST_TAXONOMY_VERSION,
+  canonicalizeInterests,
+  getInterestLabel
+} from '@/utils/interestTaxonomy';
+import { addInterestCountChanges } from '@/utils/interestCatalog';
+import InterestSuggestions from '@/components/interests/InterestSuggestions';
 
-// Sample interests list - in a real app, this could be fetched from Firestore
+// Featured interests, as canonical IDs from the interest taxonomy
 const INTERESTS = [
-  'Hiking', 'Reading', 'Gaming', 'Cooking', 'Photography', 
-  'Art', 'Music', 'Movies', 'Sports', 'Travel', 
-  'Technology', 'Fashion', 'Fitness', 'Dancing', 'Writing',
-  'Gardening', 'Pets', 'Yoga', 'Meditation', 'Programming',
-  'Coffee', 'Wine', 'Food', 'Cycling', 'Running'
+  'hiking', 'reading', 'gaming', 'cooking', 'photography', 
+  'art', 'music', 'movies', 'sports', 'travel', 
+  'technology', 'fashion', 'fitness', 'dancing', 'writing',
+  'gardening', 'pets', 'yoga', 'meditation', 'programming',
+  'coffee', 'wine', 'food', 'cycling', 'running'
 ];
 
 export default function CompleteProfileScreen() {
-  const { user, refreshUserData } = useAuth();
+  const { user, userData, refreshUserData } = useAuth();
   const [name, setName] = useState('');
   const [bio, setBio] = useState('');
   const [selectedInterests, setSelectedInterests] = useState<string[]>([]);
   const [customInterests, setCustomInterests] = useState<string[]>([]);
-  const [customInterest, setCustomInterest] = useState('');
   const [profileImage, setProfileImage] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [uploadingImage, setUploadingImage] = useState(false);
@@ -48,19 +54,18 @@ export default function CompleteProfileScreen() {
     }
   };
 
-  const addCustomInterest = () => {
-    if (!customInterest.trim()) {
+  // Add an interest picked from the suggestions, or typed in as a new one
+  const addInterest = (interestId: string) => {
+    if ([...selectedInterests, ...customInterests].includes(interestId)) {
       return;
     }
     
-    // Check if interest already exists
-    if ([...selectedInterests, ...customInterests].includes(customInterest.trim())) {
-      Alert.alert('Interest Exists', 'You have already added this interest.');
-      return;
+    // A featured interest found by search just gets selected
+    if (INTERESTS.includes(interestId)) {
+      setSelectedInterests([...selectedInterests, interestId]);
+    } else {
+      setCustomInterests([...customInterests, interestId]);
     }
-    
-    setCustomInterests([...customInterests, customInterest.trim()]);
-    setCustomInterest('');
   };
 
   const removeCustomInterest = (interest: string) => {
@@ -141,12 +146,13 @@ export default function CompleteProfileScreen() {
         const userRef = doc(db, 'users', user.uid);
         
         // Combine selected predefined interests and custom interests
-        const combinedInterests = [...selectedInterests, ...customInterests];
+        const combinedInterests = canonicalizeInterests([...selectedInterests, ...customInterests]);
         
         const updateData: any = {
           name: name.trim(),
           bio: bio.trim(),
           interests: combinedInterests,
+          interestsVersion: INTEREST_TAXONOMY_VERSION,
           'location.visible': true, // Default to visible for new users
           lastUpdated: new Date()
         };
@@ -156,7 +162,11 @@ export default function CompleteProfileScreen() {
           updateData.photoURL = profileImage;
         }
         
-        await updateDoc(userRef, updateData);
+        // Keep the interests catalog counts in step with the profile
+        const batch = writeBatch(db);
+        batch.update(userRef, updateData);
+        addInterestCountChanges(batch, userData?.interests, combinedInterests);
+        await batch.commit();
         
         await refreshUserData();
         router.replace('/(tabs)');
@@ -183,7 +193,7 @@ export default function CompleteProfileScreen() {
           selectedInterests.includes(item) && styles.interestTextSelected
         ]}
       >
-        {item}
+        {getInterestLabel(item)}
       </Text>
     </TouchableOpacity>
   );
@@ -267,30 +277,20 @@ export default function CompleteProfileScreen() {
           {/* Custom Interest Input */}
           <View style={styles.customInterestSection}>
             <Text style={styles.subLabel}>Add your own interests</Text>
-            <View style={styles.customInterestInputContainer}>
-              <TextInput
-                style={styles.customInterestInput}
-                placeholder="Add a custom interest"
-                value={customInterest}
-                onChangeText={setCustomInterest}
-                maxLength={20}
-                editable={!loading}
-              />
-              <TouchableOpacity
-                style={[styles.addButton, (!customInterest.trim() || loading) && styles.addButtonDisabled]}
-                onPress={addCustomInterest}
-                disabled={!customInterest.trim() || loading}
-              >
-                <Text style={styles.addButtonText}>Add</Text>
-              </TouchableOpacity>
-            </View>
+            <InterestSuggestions
+              selected={[...selectedInterests, ...customInterests]}
+              onSelect={addInterest}
+              placeholder="Search or add an interest"
+              allowCustom
+              disabled={loading}
+            />
             
             {/* Custom Interests List */}
             {customInterests.length > 0 && (
               <View style={styles.customInterestsList}>
                 {customInterests.map((interest, index) => (
                   <View key={index} style={styles.customInterestItem}>
-                    <Text style={styles.customInterestText}>{interest}</Text>
+                    <Text style={styles.customInterestText}>{getInterestLabel(interest)}</Text>
                     <TouchableOpacity
                       style={styles.removeButton}
                       onPress={() => removeCustomInterest(interest)}
@@ -445,35 +445,6 @@ const styles = StyleSheet.create({
   customInterestSection: {
     marginTop: 16,
   },
-  customInterestInputContainer: {
-    flexDirection: 'row',
-    marginBottom: 12,
-  },
-  customInterestInput: {
-    flex: 1,
-    backgroundColor: '#fff',
-    borderWidth: 1,
-    borderColor: '#ddd',
-    borderRadius: 8,
-    padding: 12,
-    fontSize: 16,
-    marginRight: 8,
-  },
-  addButton: {
-    backgroundColor: '#007bff',
-    borderRadius: 8,
-    paddingHorizontal: 16,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  addButtonDisabled: {
-    backgroundColor: '#99caff',
-  },
-  addButtonText: {
-    color: '#fff',
-    fontSize: 16,
-    fontWeight: 'bold',
-  },
   customInterestsList: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -19,19 +19,26 @@ import { LinearGradient } from 'expo-linear-gradient';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import * as ImagePicker from 'expo-image-picker';
-import { doc, updateDoc } from '@firebase/firestore';
+import { doc, writeBatch } from '@firebase/firestore';
 import { ref, uploadBytes, getDownloadURL, deleteObject } from '@firebase/storage';
 import { db, storage } from '@/config/firebase';
 import { useAuth } from '@/contexts/AuthContext';
+import {
+  INTEREST_TAXONOMY_VERSION,
+  canonicalizeInterests,
+  getInterestLabel
+} from '@/utils/interestTaxonomy';
+import { addInterestCountChanges } from '@/utils/interestCatalog';
+import InterestSuggestions from '@/components/interests/InterestSuggestions';
 import { StatusBar } from 'expo-status-bar';
 
-// Sample interests list - in a real app, this could be fetched from Firestore
+// Featured interests, as canonical IDs from the interest taxonomy
 const INTERESTS = [
-  'Hiking', 'Reading', 'Gaming', 'Cooking', 'Photography', 
-  'Art', 'Music', 'Movies', 'Sports', 'Travel', 
-  'Technology', 'Fashion', 'Fitness', 'Dancing', 'Writing',
-  'Gardening', 'Pets', 'Yoga', 'Meditation', 'Programming',
-  'Coffee', 'Wine', 'Food', 'Cycling', 'Running'
+  'hiking', 'reading', 'gaming', 'cooking', 'photography', 
+  'art', 'music', 'movies', 'sports', 'travel', 
+  'technology', 'fashion', 'fitness', 'dancing', 'writing',
+  'gardening', 'pets', 'yoga', 'meditation', 'programming',
+  'coffee', 'wine', 'food', 'cycling', 'running'
 ];
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -43,7 +50,6 @@ export default function EditProfileScreen() {
   const [bio, setBio] = useState('');
   const [selectedInterests, setSelectedInterests] = useState<string[]>([]);
   const [customInterests, setCustomInterests] = useState<string[]>([]);
-  const [customInterest, setCustomInterest] = useState('');
   const [profileImage, setProfileImage] = useState<string | null>(null);
   const [profileImages, setProfileImages] = useState<string[]>([]);
   const [locationVisible, setLocationVisible] = useState(false);
@@ -62,8 +68,9 @@ export default function EditProfileScreen() {
       // Set existing interests
       if (userData.interests && Array.isArray(userData.interests)) {
         // Split interests into predefined and custom
-        const predefined = userData.interests.filter(interest => INTERESTS.includes(interest));
-        const custom = userData.interests.filter(interest => !INTERESTS.includes(interest));
+        const interests = canonicalizeInterests(userData.interests);
+        const predefined = interests.filter(interest => INTERESTS.includes(interest));
+        const custom = interests.filter(interest => !INTERESTS.includes(interest));
         
         setSelectedInterests(predefined);
         setCustomInterests(custom);
@@ -113,19 +120,18 @@ export default function EditProfileScreen() {
     }
   };
 
-  const addCustomInterest = () => {
-    if (!customInterest.trim()) {
+  // Add an interest picked from the suggestions, or typed in as a new one
+  const addInterest = (interestId: string) => {
+    if ([...selectedInterests, ...customInterests].includes(interestId)) {
       return;
     }
     
-    // Check if interest already exists
-    if ([...selectedInterests, ...customInterests].includes(customInterest.trim())) {
-      Alert.alert('Interest Exists', 'You have already added this interest.');
-      return;
+    // A featured interest found by search just gets selected
+    if (INTERESTS.includes(interestId)) {
+      setSelectedInterests([...selectedInterests, interestId]);
+    } else {
+      setCustomInterests([...customInterests, interestId]);
     }
-    
-    setCustomInterests([...customInterests, customInterest.trim()]);
-    setCustomInterest('');
   };
 
   const removeCustomInterest = (interest: string) => {
@@ -351,12 +357,13 @@ export default function EditProfileScreen() {
         const userRef = doc(db, 'users', user.uid);
         
         // Combine selected predefined interests and custom interests
-        const combinedInterests = [...selectedInterests, ...customInterests];
+        const combinedInterests = canonicalizeInterests([...selectedInterests, ...customInterests]);
         
         const updateData: any = {
           name: name.trim(),
           bio: bio.trim(),
           interests: combinedInterests,
+          interestsVersion: INTEREST_TAXONOMY_VERSION,
           'location.visible': locationVisible,
           lastUpdated: new Date()
         };
@@ -371,7 +378,11 @@ export default function EditProfileScreen() {
           updateData.profileImages = profileImages;
         }
         
-        await updateDoc(userRef, updateData);
+        // Keep the interests catalog counts in step with the profile
+        const batch = writeBatch(db);
+        batch.update(userRef, updateData);
+        addInterestCountChanges(batch, userData?.interests, combinedInterests);
+        await batch.commit();
         
         await refreshUserData();
         
@@ -402,7 +413,7 @@ export default function EditProfileScreen() {
           selectedInterests.includes(item) && styles.interestTextSelected
         ]}
       >
-        {item}
+        {getInterestLabel(item)}
       </Text>
     </TouchableOpacity>
   );
@@ -557,31 +568,20 @@ export default function EditProfileScreen() {
           {/* Custom Interest Input */}
           <View style={styles.customInterestSection}>
             <Text style={styles.subLabel}>Add your own interests</Text>
-            <View style={styles.customInterestInputContainer}>
-              <TextInput
-                style={styles.customInterestInput}
-                placeholder="Add a custom interest"
-                value={customInterest}
-                onChangeText={setCustomInterest}
-                maxLength={20}
-                editable={!loading}
-                placeholderTextColor="#aaa"
-              />
-              <TouchableOpacity
-                style={[styles.addButton, (!customInterest.trim() || loading) && styles.addButtonDisabled]}
-                onPress={addCustomInterest}
-                disabled={!customInterest.trim() || loading}
-              >
-                <Text style={styles.addButtonText}>Add</Text>
-              </TouchableOpacity>
-            </View>
+            <InterestSuggestions
+              selected={[...selectedInterests, ...customInterests]}
+              onSelect={addInterest}
+              placeholder="Search or add an interest"
+              allowCustom
+              disabled={loading}
+            />
             
             {/* Custom Interests List */}
             {customInterests.length > 0 && (
               <View style={styles.customInterestsList}>
                 {customInterests.map((interest, index) => (
                   <View key={index} style={styles.customInterestItem}>
-                    <Text style={styles.customInterestText}>{interest}</Text>
+                    <Text style={styles.customInterestText}>{getInterestLabel(interest)}</Text>
                     <TouchableOpacity
                       style={styles.removeButton}
                       onPress={() => removeCustomInterest(interest)}
@@ -863,36 +863,6 @@ const styles = StyleSheet.create({
   customInterestSection: {
     marginTop: 20,
   },
-  customInterestInputContainer: {
-    flexDirection: 'row',
-    marginBottom: 12,
-  },
-  customInterestInput: {
-    flex: 1,
-    backgroundColor: '#f9f9f9',
-    borderWidth: 1,
-    borderColor: '#e0e0e0',
-    borderRadius: 12,
-    padding: 14,
-    fontSize: 16,
-    marginRight: 10,
-    color: '#333',
-  },
-  addButton: {
-    backgroundColor: '#6C5CE7',
-    borderRadius: 12,
-    paddingHorizontal: 16,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  addButtonDisabled: {
-    backgroundColor: '#a29bfe',
-  },
-  addButtonText: {
-    color: '#fff',
-    fontSize: 16,
-    fontWeight: 'bold',
-  },
   customInterestsList: {
     flexDirection: 'row',
     flexWrap: 'wrap',
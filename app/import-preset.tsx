@@ -0,0 +1,176 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  MAX_PRESET_NAME_LENGTH,
+  parseSharedPreset,
+  loadFilterPresets,
+  validatePresetName,
+  createFilterPreset
+} from '@/utils/filterPresets';
+import { describeFilters } from '@/utils/discoveryFilters';
+
+/**
+ * Opened from a shared preset link; saves the preset to the user's own list
+ */
+export default function ImportPresetScreen() {
+  const { user } = useAuth();
+  const params = useLocalSearchParams();
+  const shared = useMemo(
+    () => parseSharedPreset(params.name, params.filters),
+    [params.name, params.filters]
+  );
+
+  const [name, setName] = useState(shared?.name || '');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!user?.uid || !shared) return;
+
+    try {
+      setSaving(true);
+      const error = validatePresetName(name, await loadFilterPresets(user.uid));
+      if (error) {
+        Alert.alert('Error', error);
+        return;
+      }
+
+      await createFilterPreset(user.uid, name, shared.filters);
+      Alert.alert('Preset Saved', `"${name.trim()}" is now in your filter presets.`, [
+        { text: 'OK', onPress: () => router.replace('/(tabs)/map') }
+      ]);
+    } catch (error) {
+      console.error('Error importing filter preset:', error);
+      Alert.alert('Error', 'Failed to save preset');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!shared) {
+    return (
+      <View style={styles.centered}>
+        <MaterialIcons name="link-off" size={48} color="#ccc" />
+        <Text style={styles.errorText}>This preset link is incomplete or damaged.</Text>
+      </View>
+    );
+  }
+
+  if (!user) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>Sign in to save this preset.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Preset name</Text>
+      <TextInput
+        style={styles.input}
+        value={name}
+        onChangeText={setName}
+        maxLength={MAX_PRESET_NAME_LENGTH}
+      />
+
+      <Text style={styles.label}>Filters</Text>
+      <View style={styles.summary}>
+        {describeFilters(shared.filters).map(line => (
+          <View key={line} style={styles.summaryRow}>
+            <MaterialIcons name="check" size={16} color="#4B7BEC" />
+            <Text style={styles.summaryText}>{line}</Text>
+          </View>
+        ))}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+        onPress={handleSave}
+        disabled={saving}
+      >
+        {saving ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.saveButtonText}>Save to My Presets</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    padding: 20,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: '#fff',
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  summary: {
+    backgroundColor: '#f5f7ff',
+    borderRadius: 8,
+    padding: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#333',
+    marginLeft: 8,
+  },
+  saveButton: {
+    backgroundColor: '#4B7BEC',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,311 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  Alert
+} from 'react-native';
+import { router } from 'expo-router';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  Report,
+  ModerationAction,
+  getReportReasonLabel,
+  useIsModerator,
+  subscribeToOpenReports,
+  resolveReport
+} from '@/utils/reports';
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  dismiss: 'Dismiss',
+  warn: 'Warn',
+  suspend: 'Suspend'
+};
+
+/**
+ * Open reports for moderators to act on
+ */
+export default function ModerationScreen() {
+  const { user } = useAuth();
+  const { moderator, loading: checkingRole } = useIsModerator(user?.uid);
+  const [reports, setReports] = useState<Report[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!moderator) return;
+
+    return subscribeToOpenReports(
+      openReports => {
+        setReports(openReports);
+        setLoading(false);
+      },
+      () => {
+        Alert.alert('Error', 'Could not load reports');
+        setLoading(false);
+      }
+    );
+  }, [moderator]);
+
+  const applyAction = async (report: Report, action: ModerationAction) => {
+    if (!user?.uid) return;
+
+    try {
+      setResolving(report.id);
+      await resolveReport(user.uid, report, action, reports);
+    } catch (error) {
+      console.error('Error resolving report:', error);
+      Alert.alert('Error', 'Failed to update report. Please try again.');
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const handleAction = (report: Report, action: ModerationAction) => {
+    if (action === 'dismiss') {
+      applyAction(report, action);
+      return;
+    }
+
+    const name = report.snapshot.name || 'this user';
+    Alert.alert(
+      `${ACTION_LABELS[action]} ${name}?`,
+      action === 'suspend'
+        ? 'Their account will be suspended and every open report against them closed.'
+        : 'A warning will be added to their account.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: ACTION_LABELS[action],
+          style: action === 'suspend' ? 'destructive' : 'default',
+          onPress: () => applyAction(report, action)
+        }
+      ]
+    );
+  };
+
+  const renderReport = ({ item }: { item: Report }) => {
+    const { snapshot } = item;
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <View style={styles.reasonBadge}>
+            <Text style={styles.reasonBadgeText}>{getReportReasonLabel(item.reason)}</Text>
+          </View>
+          <Text style={styles.meta}>
+            {item.target === 'message' ? 'Message' : 'Profile'}
+            {item.createdAt ? ` · ${item.createdAt.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}` : ''}
+          </Text>
+        </View>
+
+        <TouchableOpacity
+          style={styles.reportedRow}
+          onPress={() => router.push({ pathname: '/user-profile', params: { id: item.reportedId, name: snapshot.name || '' } })}
+        >
+          {snapshot.photoURL ? (
+            <Image source={{ uri: snapshot.photoURL }} style={styles.avatar} />
+          ) : (
+            <View style={styles.avatar}>
+              <MaterialIcons name="person" size={20} color="#fff" />
+            </View>
+          )}
+          <Text style={styles.reportedName}>{snapshot.name || 'Unknown User'}</Text>
+          <MaterialIcons name="chevron-right" size={20} color="#ccc" />
+        </TouchableOpacity>
+
+        {/* What was reported, as it was at the time */}
+        <View style={styles.snapshot}>
+          {item.target === 'message' ? (
+            <>
+              <Text style={styles.snapshotText}>{snapshot.text || `[${snapshot.messageType || 'message'}]`}</Text>
+              {(snapshot.mediaUrls || []).length > 0 && (
+                <Text style={styles.snapshotMeta}>{snapshot.mediaUrls!.length} attachment(s)</Text>
+              )}
+            </>
+          ) : (
+            <Text style={styles.snapshotText}>{snapshot.bio || 'No bio'}</Text>
+          )}
+        </View>
+
+        {!!item.details && (
+          <Text style={styles.details}>"{item.details}"</Text>
+        )}
+
+        <View style={styles.actions}>
+          {resolving === item.id ? (
+            <ActivityIndicator color="#6C5CE7" />
+          ) : (
+            (Object.keys(ACTION_LABELS) as ModerationAction[]).map(action => (
+              <TouchableOpacity
+                key={action}
+                style={[styles.actionButton, action === 'suspend' && styles.actionButtonDanger]}
+                onPress={() => handleAction(item, action)}
+              >
+                <Text style={[styles.actionButtonText, action === 'suspend' && styles.actionButtonTextDanger]}>
+                  {ACTION_LABELS[action]}
+                </Text>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  if (checkingRole || (moderator && loading)) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#6C5CE7" />
+      </View>
+    );
+  }
+
+  if (!moderator) {
+    return (
+      <View style={styles.centered}>
+        <MaterialIcons name="lock" size={48} color="#ccc" />
+        <Text style={styles.emptyText}>Only moderators can see this page.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={reports.length === 0 ? styles.emptyContent : styles.listContent}
+      data={reports}
+      keyExtractor={item => item.id}
+      renderItem={renderReport}
+      ListEmptyComponent={
+        <View style={styles.centered}>
+          <MaterialIcons name="check-circle" size={48} color="#ccc" />
+          <Text style={styles.emptyText}>No open reports.</Text>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  listContent: {
+    padding: 16,
+  },
+  emptyContent: {
+    flexGrow: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: '#f5f5f5',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  reasonBadge: {
+    backgroundColor: '#ff475720',
+    borderRadius: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  reasonBadgeText: {
+    color: '#ff4757',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#999',
+  },
+  reportedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#ddd',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  reportedName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 10,
+  },
+  snapshot: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+  },
+  snapshotText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  snapshotMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  details: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#6C5CE7',
+    marginLeft: 8,
+  },
+  actionButtonDanger: {
+    borderColor: '#ff4757',
+    backgroundColor: '#ff4757',
+  },
+  actionButtonText: {
+    color: '#6C5CE7',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  actionButtonTextDanger: {
+    color: '#fff',
+  },
+});
@@ -0,0 +1,270 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  Alert
+} from 'react-native';
+import { router } from 'expo-router';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  Reminder,
+  ReminderType,
+  QUIET_WEEKS_OPTIONS,
+  SNOOZE_OPTIONS,
+  useRelationshipHealth
+} from '@/utils/relationshipHealth';
+
+const REMINDER_ICONS: Record<ReminderType, keyof typeof MaterialIcons.glyphMap> = {
+  reply: 'chat-bubble-outline',
+  anniversary: 'cake',
+  quiet: 'hourglass-empty'
+};
+
+/**
+ * Connections worth getting back in touch with, with snooze and dismiss
+ */
+export default function RelationshipHealthScreen() {
+  const { user } = useAuth();
+  const {
+    reminders,
+    loading,
+    quietWeeks,
+    setQuietWeeks,
+    snoozeReminder,
+    dismissReminder
+  } = useRelationshipHealth(user?.uid);
+
+  const handleMessage = (reminder: Reminder) => {
+    const { chatRoomId, otherUserName } = reminder.connection;
+    if (!chatRoomId) {
+      Alert.alert('Error', 'Chat room not found for this connection');
+      return;
+    }
+    router.push(`/chat/${chatRoomId}?name=${encodeURIComponent(otherUserName)}`);
+  };
+
+  const handleSnooze = (reminder: Reminder) => {
+    Alert.alert('Snooze reminder', 'Remind me again:', [
+      ...SNOOZE_OPTIONS.map(option => ({
+        text: option.label,
+        onPress: () => snoozeReminder(reminder.key, option.days)
+      })),
+      { text: 'Cancel', style: 'cancel' as const }
+    ]);
+  };
+
+  const renderReminder = ({ item }: { item: Reminder }) => (
+    <View style={styles.row}>
+      <View style={styles.avatar}>
+        {item.connection.otherUserPhotoURL ? (
+          <Image source={{ uri: item.connection.otherUserPhotoURL }} style={styles.avatarImage} />
+        ) : (
+          <Text style={styles.avatarText}>{(item.connection.otherUserName || '?').charAt(0).toUpperCase()}</Text>
+        )}
+        <View style={styles.typeBadge}>
+          <MaterialIcons name={REMINDER_ICONS[item.type]} size={12} color="#fff" />
+        </View>
+      </View>
+      <View style={styles.rowContent}>
+        <Text style={styles.title}>{item.title}</Text>
+        <Text style={styles.detail}>{item.detail}</Text>
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.messageButton} onPress={() => handleMessage(item)}>
+            <Text style={styles.messageButtonText}>Message</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleSnooze(item)}>
+            <Text style={styles.actionButtonText}>Snooze</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => dismissReminder(item.key)}>
+            <Text style={styles.actionButtonText}>Dismiss</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#6C5CE7" />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={reminders.length === 0 && styles.emptyContent}
+      data={reminders}
+      keyExtractor={item => item.key}
+      renderItem={renderReminder}
+      ListHeaderComponent={
+        <View style={styles.header}>
+          <Text style={styles.headerLabel}>Remind me about quiet chats after</Text>
+          <View style={styles.weekOptions}>
+            {QUIET_WEEKS_OPTIONS.map(weeks => (
+              <TouchableOpacity
+                key={weeks}
+                style={[styles.weekChip, quietWeeks === weeks && styles.weekChipSelected]}
+                onPress={() => setQuietWeeks(weeks)}
+              >
+                <Text style={[styles.weekChipText, quietWeeks === weeks && styles.weekChipTextSelected]}>
+                  {weeks} weeks
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      }
+      ListEmptyComponent={
+        <View style={styles.centered}>
+          <MaterialIcons name="favorite-border" size={48} color="#ccc" />
+          <Text style={styles.emptyText}>You're all caught up with your connections.</Text>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  emptyContent: {
+    flexGrow: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: '#fff',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  header: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  weekOptions: {
+    flexDirection: 'row',
+  },
+  weekChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 8,
+  },
+  weekChipSelected: {
+    backgroundColor: '#6C5CE7',
+    borderColor: '#6C5CE7',
+  },
+  weekChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  weekChipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#ddd',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarImage: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+  },
+  avatarText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  typeBadge: {
+    position: 'absolute',
+    bottom: -2,
+    right: -2,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: '#6C5CE7',
+    borderWidth: 2,
+    borderColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  detail: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  messageButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: '#6C5CE7',
+    marginRight: 8,
+  },
+  messageButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 8,
+  },
+  actionButtonText: {
+    color: '#666',
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,466 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import MapView, { PROVIDER_GOOGLE, Marker, Circle, MapPressEvent } from 'react-native-maps';
+import * as Location from 'expo-location';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  SAFE_ZONE_RADII,
+  DEFAULT_SAFE_ZONE_RADIUS,
+  SafeZone,
+  SafeZoneMode,
+  loadSafeZones,
+  saveSafeZones,
+  createSafeZone,
+  getActiveSafeZone
+} from '@/utils/safeZones';
+import { saveUserLocation } from '@/utils/locations';
+import { isSuspended } from '@/utils/reports';
+
+// Map span when first opened (degrees)
+const INITIAL_DELTA = 0.02;
+
+const ZONE_COLORS: Record<SafeZoneMode, { stroke: string; fill: string }> = {
+  hide: { stroke: 'rgba(108, 92, 231, 0.8)', fill: 'rgba(108, 92, 231, 0.2)' },
+  blur: { stroke: 'rgba(0, 150, 136, 0.8)', fill: 'rgba(0, 150, 136, 0.2)' }
+};
+
+export default function SafeZonesScreen() {
+  const { user, userData } = useAuth();
+  const [zones, setZones] = useState<SafeZone[]>([]);
+  const [activeZone, setActiveZone] = useState<SafeZone | null>(null);
+  const [initialRegion, setInitialRegion] = useState<any>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Zone being drawn; its center is set by tapping the map
+  const [draftCenter, setDraftCenter] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draftRadius, setDraftRadius] = useState(DEFAULT_SAFE_ZONE_RADIUS);
+  const [draftMode, setDraftMode] = useState<SafeZoneMode>('hide');
+
+  useEffect(() => {
+    const load = async () => {
+      if (!user?.uid) return;
+
+      try {
+        const [storedZones, storedActiveZone] = await Promise.all([
+          loadSafeZones(user.uid),
+          getActiveSafeZone(user.uid)
+        ]);
+        setZones(storedZones);
+        setActiveZone(storedActiveZone);
+
+        // Start on the current position, where a first zone is most likely drawn
+        const { status } = await Location.getForegroundPermissionsAsync();
+        if (status === 'granted') {
+          const current = await Location.getCurrentPositionAsync({
+            accuracy: Location.Accuracy.Balanced
+          });
+          setInitialRegion({
+            latitude: current.coords.latitude,
+            longitude: current.coords.longitude,
+            latitudeDelta: INITIAL_DELTA,
+            longitudeDelta: INITIAL_DELTA
+          });
+        } else if (storedZones.length > 0) {
+          setInitialRegion({
+            latitude: storedZones[0].latitude,
+            longitude: storedZones[0].longitude,
+            latitudeDelta: INITIAL_DELTA,
+            longitudeDelta: INITIAL_DELTA
+          });
+        }
+      } catch (error) {
+        console.error('Error loading safe zones:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [user?.uid]);
+
+  const persistZones = async (updatedZones: SafeZone[]) => {
+    if (!user?.uid) return;
+
+    try {
+      await saveSafeZones(user.uid, updatedZones);
+      setZones(updatedZones);
+
+      // Re-publish from the current position so a zone drawn around where
+      // the user is right now takes effect immediately
+      const { status } = await Location.getForegroundPermissionsAsync();
+      if (status === 'granted' && !isSuspended(userData)) {
+        const current = await Location.getCurrentPositionAsync({
+          accuracy: Location.Accuracy.Balanced
+        });
+        await saveUserLocation(
+          user.uid,
+          current.coords.latitude,
+          current.coords.longitude,
+          userData?.location?.visible || false,
+          userData?.locationPrivacy,
+          userData?.visibilitySchedule
+        );
+      }
+
+      setActiveZone(await getActiveSafeZone(user.uid));
+    } catch (error) {
+      console.error('Error saving safe zones:', error);
+      Alert.alert('Error', 'Failed to save safe zones. Please try again.');
+    }
+  };
+
+  const handleMapPress = (event: MapPressEvent) => {
+    setDraftCenter(event.nativeEvent.coordinate);
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draftCenter) return;
+
+    const zone = createSafeZone({
+      name: draftName.trim() || `Zone ${zones.length + 1}`,
+      latitude: draftCenter.latitude,
+      longitude: draftCenter.longitude,
+      radius: draftRadius,
+      mode: draftMode
+    });
+
+    await persistZones([...zones, zone]);
+    setDraftCenter(null);
+    setDraftName('');
+  };
+
+  const handleDeleteZone = (zone: SafeZone) => {
+    Alert.alert(
+      'Delete Safe Zone',
+      `Stop protecting ${zone.name}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => persistZones(zones.filter(z => z.id !== zone.id))
+        }
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6C5CE7" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {initialRegion ? (
+        <MapView
+          style={styles.map}
+          provider={PROVIDER_GOOGLE}
+          initialRegion={initialRegion}
+          showsUserLocation
+          onPress={handleMapPress}
+        >
+          {zones.map(zone => (
+            <Circle
+              key={zone.id}
+              center={{ latitude: zone.latitude, longitude: zone.longitude }}
+              radius={zone.radius}
+              strokeColor={ZONE_COLORS[zone.mode].stroke}
+              fillColor={ZONE_COLORS[zone.mode].fill}
+              strokeWidth={zone.id === activeZone?.id ? 3 : 1}
+            />
+          ))}
+
+          {draftCenter && (
+            <>
+              <Circle
+                center={draftCenter}
+                radius={draftRadius}
+                strokeColor={ZONE_COLORS[draftMode].stroke}
+                fillColor={ZONE_COLORS[draftMode].fill}
+                strokeWidth={2}
+                lineDashPattern={[6, 4]}
+              />
+              <Marker coordinate={draftCenter} />
+            </>
+          )}
+        </MapView>
+      ) : (
+        <View style={[styles.map, styles.mapPlaceholder]}>
+          <Text style={styles.placeholderText}>
+            Allow location access to draw safe zones on the map.
+          </Text>
+        </View>
+      )}
+
+      <ScrollView style={styles.panel} contentContainerStyle={styles.panelContent}>
+        <Text style={styles.privacyNote}>
+          Safe zones are stored only on this device and are never shared.
+          While you're inside one, others either can't see you or only see a wide area.
+        </Text>
+
+        {activeZone && (
+          <View style={styles.activeBanner}>
+            <MaterialIcons name="shield" size={18} color="#fff" />
+            <Text style={styles.activeBannerText}>
+              Active: {activeZone.name} ({activeZone.mode === 'hide' ? 'hidden' : 'blurred'})
+            </Text>
+          </View>
+        )}
+
+        {draftCenter ? (
+          <View style={styles.draftContainer}>
+            <Text style={styles.sectionTitle}>New Safe Zone</Text>
+            <TextInput
+              style={styles.nameInput}
+              value={draftName}
+              onChangeText={setDraftName}
+              placeholder="Name (e.g. Home)"
+              placeholderTextColor="#999"
+            />
+
+            <Text style={styles.optionLabel}>Radius</Text>
+            <View style={styles.optionRow}>
+              {SAFE_ZONE_RADII.map(radius => (
+                <TouchableOpacity
+                  key={radius}
+                  style={[styles.option, draftRadius === radius && styles.optionSelected]}
+                  onPress={() => setDraftRadius(radius)}
+                >
+                  <Text style={[styles.optionText, draftRadius === radius && styles.optionTextSelected]}>
+                    {radius} m
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.optionLabel}>While inside</Text>
+            <View style={styles.optionRow}>
+              <TouchableOpacity
+                style={[styles.option, draftMode === 'hide' && styles.optionSelected]}
+                onPress={() => setDraftMode('hide')}
+              >
+                <Text style={[styles.optionText, draftMode === 'hide' && styles.optionTextSelected]}>
+                  Hide me
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.option, draftMode === 'blur' && styles.optionSelected]}
+                onPress={() => setDraftMode('blur')}
+              >
+                <Text style={[styles.optionText, draftMode === 'blur' && styles.optionTextSelected]}>
+                  Show a wide area
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.draftButtons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setDraftCenter(null)}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.saveButton} onPress={handleSaveDraft}>
+                <Text style={styles.saveButtonText}>Save Zone</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <Text style={styles.hintText}>Tap the map to place a new safe zone.</Text>
+        )}
+
+        <Text style={styles.sectionTitle}>Your Safe Zones</Text>
+        {zones.length === 0 ? (
+          <Text style={styles.emptyText}>No safe zones yet.</Text>
+        ) : (
+          zones.map(zone => (
+            <View key={zone.id} style={styles.zoneRow}>
+              <View style={[styles.zoneDot, { backgroundColor: ZONE_COLORS[zone.mode].stroke }]} />
+              <View style={styles.zoneInfo}>
+                <Text style={styles.zoneName}>
+                  {zone.name}{zone.id === activeZone?.id ? ' · Active' : ''}
+                </Text>
+                <Text style={styles.zoneDetail}>
+                  {zone.radius} m · {zone.mode === 'hide' ? 'Hidden' : 'Wide area'}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => handleDeleteZone(zone)}>
+                <MaterialIcons name="delete-outline" size={22} color="#999" />
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  map: {
+    height: '45%',
+  },
+  mapPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f0f0f0',
+    padding: 20,
+  },
+  placeholderText: {
+    color: '#666',
+    textAlign: 'center',
+  },
+  panel: {
+    flex: 1,
+  },
+  panelContent: {
+    padding: 16,
+  },
+  privacyNote: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  activeBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#6C5CE7',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  activeBannerText: {
+    color: '#fff',
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  draftContainer: {
+    backgroundColor: '#f8f7ff',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: '#333',
+    backgroundColor: '#fff',
+  },
+  optionLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#a29bfe',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionSelected: {
+    backgroundColor: '#6C5CE7',
+    borderColor: '#6C5CE7',
+  },
+  optionText: {
+    fontSize: 13,
+    color: '#6C5CE7',
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+  draftButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginRight: 8,
+  },
+  cancelButtonText: {
+    color: '#666',
+  },
+  saveButton: {
+    backgroundColor: '#6C5CE7',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#6C5CE7',
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  zoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e0e0e0',
+  },
+  zoneDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 10,
+  },
+  zoneInfo: {
+    flex: 1,
+  },
+  zoneName: {
+    fontSize: 15,
+    color: '#333',
+  },
+  zoneDetail: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+});
@@ -3,8 +3,13 @@ import { Platform, StyleSheet, TouchableOpacity } from 'react-native';
 import { Text, View } from '@/components/Themed';
 import { router } from 'expo-router';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useAuth } from '@/contexts/AuthContext';
+import { useIsModerator } from '@/utils/reports';
 
 export default function SettingsScreen() {
+  const { user } = useAuth();
+  const { moderator } = useIsModerator(user?.uid);
+
   return (
     <View style={styles.container}>
       <Text style={styles.title}>Settings</Text>
@@ -30,6 +35,26 @@ export default function SettingsScreen() {
           <FontAwesome name="chevron-right" size={16} color="#ccc" />
         </TouchableOpacity>
         
+        <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/blocked-users')}>
+          <FontAwesome name="ban" size={24} color="#666" style={styles.settingIcon} />
+          <View style={styles.settingContent}>
+            <Text style={styles.settingTitle}>Blocked Users</Text>
+            <Text style={styles.settingDescription}>Review and unblock people you've blocked</Text>
+          </View>
+          <FontAwesome name="chevron-right" size={16} color="#ccc" />
+        </TouchableOpacity>
+        
+        {moderator && (
+          <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/moderation')}>
+            <FontAwesome name="flag" size={24} color="#666" style={styles.settingIcon} />
+            <View style={styles.settingContent}>
+              <Text style={styles.settingTitle}>Moderation</Text>
+              <Text style={styles.settingDescription}>Review open reports</Text>
+            </View>
+            <FontAwesome name="chevron-right" size={16} color="#ccc" />
+          </TouchableOpacity>
+        )}
+        
         <TouchableOpacity style={styles.settingItem}>
           <FontAwesome name="question-circle" size={24} color="#666" style={styles.settingIcon} />
           <View style={styles.settingContent}>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   StyleSheet, 
   View, 
@@ -22,8 +22,16 @@ import FontAwesome from '@expo/vector-icons/FontAwesome';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { useAuth } from '@/contexts/AuthContext';
-import { doc, getDoc, collection, query, where, getDocs } from '@firebase/firestore';
+import { doc, getDoc } from '@firebase/firestore';
 import { db } from '@/config/firebase';
+import { getInterestLabel } from '@/utils/interestTaxonomy';
+import { scorePopulation, explainCompatibility } from '@/utils/compatibility';
+import { usePresence } from '@/utils/presence';
+import { useBlocks, blockUser, unblockUser } from '@/utils/blocks';
+import MatchBreakdown from '@/components/profile/MatchBreakdown';
+import ReportModal from '@/components/moderation/ReportModal';
+import { snapshotProfile } from '@/utils/reports';
+import { Relationship, getRelationship, removeConnection } from '@/utils/connectionRequests';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CARD_PADDING = 20;
@@ -38,15 +46,21 @@ const TIER_COLORS = {
 };
 
 export default function UserProfileScreen() {
-  const { user } = useAuth();
+  const { user, userData: viewerData } = useAuth();
   const params = useLocalSearchParams();
   const { id, name, tier } = params;
+  const presence = usePresence(id ? [id.toString()] : []);
+  const { blocks, blockedUids } = useBlocks(user?.uid);
+  const blockedByMe = !!id && blocks.some(block => block.blockedId === id.toString());
+  // Someone who blocked the viewer is shown as not found
+  const blockedByThem = !!id && blockedUids.has(id.toString()) && !blockedByMe;
   
   const [loading, setLoading] = useState(true);
-  const [userData, setUserData] = useState(null);
+  const [userData, setUserData] = useState<any>(null);
   const [selectedImageIndex, setSelectedImageIndex] = useState(null);
   const [showImageModal, setShowImageModal] = useState(false);
-  const [connection, setConnection] = useState(null);
+  const [showReportModal, setShowReportModal] = useState(false);
+  const [connection, setConnection] = useState<Relationship | null>(null);
   
   // Animation values
   const scrollY = useRef(new Animated.Value(0)).current;
@@ -77,33 +91,8 @@ export default function UserProfileScreen() {
           // Also fetch connection data to get the chat room ID
           if (user?.uid) {
             try {
-              // Check for connection between current user and this user
-              const connectionQuery1 = query(
-                collection(db, 'connectionRequests'),
-                where('senderId', '==', user.uid),
-                where('receiverId', '==', id.toString()),
-                where('status', '==', 'accepted')
-              );
-              
-              const connectionQuery2 = query(
-                collection(db, 'connectionRequests'),
-                where('senderId', '==', id.toString()),
-                where('receiverId', '==', user.uid),
-                where('status', '==', 'accepted')
-              );
-              
-              const [snapshot1, snapshot2] = await Promise.all([
-                getDocs(connectionQuery1),
-                getDocs(connectionQuery2)
-              ]);
-              
-              let connectionData = null;
-              
-              if (!snapshot1.empty) {
-                connectionData = { id: snapshot1.docs[0].id, ...snapshot1.docs[0].data() };
-              } else if (!snapshot2.empty) {
-                connectionData = { id: snapshot2.docs[0].id, ...snapshot2.docs[0].data() };
-              }
+              const relationship = await getRelationship(user.uid, id.toString());
+              const connectionData = relationship.status === 'accepted' ? relationship : null;
               
               if (connectionData) {
                 console.log('Connection found with chat room ID:', connectionData.chatRoomId);
@@ -169,6 +158,11 @@ export default function UserProfileScreen() {
   
   // Handle message button
   const handleMessage = () => {
+    if (blockedByMe) {
+      Alert.alert('Blocked', 'Unblock this user to message them again.');
+      return;
+    }
+    
     // Navigate to the chat screen if a chat room exists
     if (connection?.chatRoomId) {
       router.push(`/chat/${connection.chatRoomId}?name=${encodeURIComponent(userData?.name || 'User')}`);
@@ -191,6 +185,97 @@ export default function UserProfileScreen() {
     }
   };
   
+  // Handle remove connection button
+  const handleRemoveConnection = () => {
+    if (!user?.uid || !connection) return;
+    const displayName = userData?.name || 'this user';
+    
+    Alert.alert(
+      `Remove ${displayName}?`,
+      'Your chat will be archived for both of you, and either of you will need to send a new request to reconnect.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeConnection(user.uid, connection.id);
+              setConnection(null);
+            } catch (error) {
+              console.error('Error removing connection:', error);
+              Alert.alert('Error', 'Failed to remove connection. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+  
+  // Handle block / unblock button
+  const handleToggleBlock = () => {
+    if (!user?.uid || !id) return;
+    const displayName = userData?.name || 'this user';
+    
+    if (blockedByMe) {
+      Alert.alert(`Unblock ${displayName}?`, 'You\'ll be able to see each other and connect again.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unblock',
+          onPress: async () => {
+            try {
+              await unblockUser(user.uid, id.toString());
+            } catch (error) {
+              console.error('Error unblocking user:', error);
+              Alert.alert('Error', 'Failed to unblock user. Please try again.');
+            }
+          }
+        }
+      ]);
+      return;
+    }
+    
+    Alert.alert(
+      `Block ${displayName}?`,
+      'You won\'t see each other on the map, any pending requests between you are removed, and your chat will be closed. You can unblock them in Settings.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await blockUser(user.uid, id.toString(), userData?.name);
+            } catch (error) {
+              console.error('Error blocking user:', error);
+              Alert.alert('Error', 'Failed to block user. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+  
+  // Score this profile against the viewer. Without the rest of the people
+  // nearby, interest rarity is judged between the two of them only.
+  const breakdown = useMemo(() => {
+    if (!userData || !viewerData) return null;
+    
+    const profilePresence = id ? presence[id.toString()] : undefined;
+    const candidate = {
+      interests: userData.interests,
+      lookingFor: userData.lookingFor,
+      age: userData.age,
+      online: profilePresence?.online === true,
+      lastActive: profilePresence?.lastSeen || null
+    };
+    const [scored] = scorePopulation(
+      { interests: viewerData.interests, lookingFor: viewerData.lookingFor, age: viewerData.age },
+      [candidate]
+    );
+    return explainCompatibility(scored.compatibility, candidate);
+  }, [userData, viewerData, presence, id]);
+  
   const tierInfo = getTierInfo(tier);
   
   if (loading) {
@@ -202,7 +287,7 @@ export default function UserProfileScreen() {
     );
   }
   
-  if (!userData) {
+  if (!userData || blockedByThem) {
     return (
       <View style={styles.errorContainer}>
         <MaterialIcons name="error-outline" size={60} color="#ff4757" />
@@ -296,13 +381,20 @@ export default function UserProfileScreen() {
             <View style={styles.interestsContainer}>
               {userData.interests.map((interest, index) => (
                 <View key={index} style={[styles.interestTag, { backgroundColor: `${tierInfo.color}15` }]}>
-                  <Text style={[styles.interestText, { color: tierInfo.color }]}>{interest}</Text>
+                  <Text style={[styles.interestText, { color: tierInfo.color }]}>{getInterestLabel(interest)}</Text>
                 </View>
               ))}
             </View>
           </View>
         )}
         
+        {/* Compatibility Breakdown Card */}
+        {breakdown && (
+          <View style={styles.card}>
+            <MatchBreakdown breakdown={breakdown} color={tierInfo.color} />
+          </View>
+        )}
+        
         {/* Profile Images Card */}
         {userData.profileImages && userData.profileImages.length > 0 && (
           <View style={styles.card}>
@@ -349,8 +441,50 @@ export default function UserProfileScreen() {
             <Text style={styles.messageButtonText}>Message</Text>
           </LinearGradient>
         </TouchableOpacity>
+        
+        {/* Remove, Report and Block Buttons */}
+        {user?.uid && user.uid !== id && (
+          <View style={styles.safetyActions}>
+            {connection && (
+              <TouchableOpacity 
+                style={styles.blockButton}
+                onPress={handleRemoveConnection}
+              >
+                <MaterialIcons name="link-off" size={18} color="#ff4757" />
+                <Text style={styles.blockButtonText}>Remove</Text>
+              </TouchableOpacity>
+            )}
+            
+            <TouchableOpacity 
+              style={styles.blockButton}
+              onPress={() => setShowReportModal(true)}
+            >
+              <MaterialIcons name="flag" size={18} color="#ff4757" />
+              <Text style={styles.blockButtonText}>Report</Text>
+            </TouchableOpacity>
+            
+            <TouchableOpacity 
+              style={styles.blockButton}
+              onPress={handleToggleBlock}
+            >
+              <MaterialIcons name="block" size={18} color={blockedByMe ? '#6C5CE7' : '#ff4757'} />
+              <Text style={[styles.blockButtonText, blockedByMe && styles.unblockButtonText]}>
+                {blockedByMe ? 'Unblock' : 'Block'} {userData.name || 'User'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </Animated.ScrollView>
       
+      {id && (
+        <ReportModal
+          visible={showReportModal}
+          title={`Report ${userData.name || 'User'}`}
+          report={{ reportedId: id.toString(), target: 'profile', snapshot: snapshotProfile(userData) }}
+          onClose={() => setShowReportModal(false)}
+        />
+      )}
+      
       {/* Image Modal */}
       <Modal
         visible={showImageModal}
@@ -605,6 +739,27 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  safetyActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  blockButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+  },
+  blockButtonText: {
+    color: '#ff4757',
+    fontSize: 15,
+    fontWeight: '500',
+    marginLeft: 6,
+  },
+  unblockButtonText: {
+    color: '#6C5CE7',
+  },
   modalContainer: {
     flex: 1,
     backgroundColor: 'transparent',
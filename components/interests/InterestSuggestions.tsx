@@ -0,0 +1,170 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity
+} from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useInterestCatalog, searchInterests } from '@/utils/interestCatalog';
+import { canonicalizeInterest, getInterestLabel } from '@/utils/interestTaxonomy';
+
+interface InterestSuggestionsProps {
+  // Interests already chosen; they aren't suggested again
+  selected: string[];
+  onSelect: (interestId: string) => void;
+  placeholder?: string;
+  // Offer to add the typed text when it isn't a known interest
+  allowCustom?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Search-as-you-type interest picker backed by the interests catalog
+ */
+const InterestSuggestions: React.FC<InterestSuggestionsProps> = ({
+  selected,
+  onSelect,
+  placeholder = 'Search interests',
+  allowCustom = false,
+  disabled = false
+}) => {
+  const catalog = useInterestCatalog();
+  const [text, setText] = useState('');
+
+  const suggestions = useMemo(
+    () => searchInterests(catalog, text, { exclude: selected }),
+    [catalog, text, selected]
+  );
+
+  // Typed text that doesn't match anything offered can be added as-is
+  const customId = allowCustom ? canonicalizeInterest(text) : null;
+  const showCustom = customId !== null &&
+    !selected.includes(customId) &&
+    !suggestions.some(suggestion => suggestion.id === customId);
+
+  const handleSelect = (interestId: string) => {
+    onSelect(interestId);
+    setText('');
+  };
+
+  return (
+    <View>
+      <View style={styles.inputContainer}>
+        <FontAwesome name="search" size={14} color="#999" style={styles.searchIcon} />
+        <TextInput
+          style={styles.input}
+          placeholder={placeholder}
+          placeholderTextColor="#aaa"
+          value={text}
+          onChangeText={setText}
+          onSubmitEditing={() => {
+            if (suggestions.length > 0) handleSelect(suggestions[0].id);
+            else if (showCustom) handleSelect(customId!);
+          }}
+          maxLength={30}
+          autoCorrect={false}
+          editable={!disabled}
+          returnKeyType="done"
+        />
+      </View>
+
+      {text.trim().length > 0 && (
+        <View style={styles.suggestions}>
+          {suggestions.map(suggestion => (
+            <TouchableOpacity
+              key={suggestion.id}
+              style={styles.suggestion}
+              onPress={() => handleSelect(suggestion.id)}
+              disabled={disabled}
+            >
+              <Text style={styles.suggestionText}>{suggestion.label}</Text>
+              {suggestion.count > 0 && (
+                <Text style={styles.suggestionCount}>{suggestion.count}</Text>
+              )}
+            </TouchableOpacity>
+          ))}
+
+          {showCustom && (
+            <TouchableOpacity
+              style={[styles.suggestion, styles.customSuggestion]}
+              onPress={() => handleSelect(customId!)}
+              disabled={disabled}
+            >
+              <FontAwesome name="plus" size={10} color="#6C5CE7" />
+              <Text style={[styles.suggestionText, styles.customSuggestionText]}>
+                Add "{getInterestLabel(customId!)}"
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {suggestions.length === 0 && !showCustom && (
+            <Text style={styles.emptyText}>No matching interests</Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    backgroundColor: '#fff',
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: '#333',
+  },
+  suggestions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 15,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  suggestionText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  suggestionCount: {
+    fontSize: 11,
+    color: '#999',
+    marginLeft: 6,
+  },
+  customSuggestion: {
+    backgroundColor: '#f3f0ff',
+    borderWidth: 1,
+    borderColor: '#a29bfe',
+  },
+  customSuggestionText: {
+    color: '#6C5CE7',
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+});
+
+export default InterestSuggestions;
@@ -0,0 +1,56 @@
+import React, { useEffect, useRef } from 'react';
+import { MarkerAnimated, AnimatedRegion, MapMarkerProps } from 'react-native-maps';
+
+interface AnimatedUserMarkerProps extends Omit<MapMarkerProps, 'coordinate'> {
+  coordinate: {
+    latitude: number;
+    longitude: number;
+  };
+  // How long a move takes to play out (ms)
+  duration?: number;
+}
+
+/**
+ * Map marker that glides to its new coordinate instead of jumping
+ * Give it a key that doesn't include the coordinate, otherwise React
+ * remounts it on every move and there is nothing to animate.
+ */
+const AnimatedUserMarker: React.FC<AnimatedUserMarkerProps> = ({
+  coordinate,
+  duration = 500,
+  children,
+  ...markerProps
+}) => {
+  // Created once; later coordinates are animated into it
+  const animatedCoordinate = useRef(new AnimatedRegion({
+    latitude: coordinate.latitude,
+    longitude: coordinate.longitude,
+    latitudeDelta: 0,
+    longitudeDelta: 0
+  })).current;
+
+  useEffect(() => {
+    animatedCoordinate.timing({
+      latitude: coordinate.latitude,
+      longitude: coordinate.longitude,
+      latitudeDelta: 0,
+      longitudeDelta: 0,
+      toValue: 0,
+      duration,
+      useNativeDriver: false
+    }).start();
+  }, [coordinate.latitude, coordinate.longitude]);
+
+  return (
+    <MarkerAnimated
+      {...markerProps}
+      // The typings leave out AnimatedRegion's latitude and longitude values,
+      // which are what the animated marker reads
+      coordinate={animatedCoordinate as unknown as MapMarkerProps['coordinate']}
+    >
+      {children}
+    </MarkerAnimated>
+  );
+};
+
+export default AnimatedUserMarker;
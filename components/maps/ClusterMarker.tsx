@@ -0,0 +1,82 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MarkerTier, TIER_COLORS } from './EnhancedUserMapMarker';
+
+interface ClusterMarkerProps {
+  count: number;
+  tier?: MarkerTier;
+}
+
+/**
+ * Count bubble shown in place of a group of nearby users when zoomed out
+ * Colored by the highest tier inside the cluster, sized by member count
+ */
+const ClusterMarker: React.FC<ClusterMarkerProps> = ({
+  count,
+  tier = 'casual'
+}) => {
+  const color = TIER_COLORS[tier] || TIER_COLORS.casual;
+
+  // Grow the bubble slowly with the count so big clusters stand out
+  const getBubbleSize = () => {
+    if (count >= 100) return 64;
+    if (count >= 25) return 56;
+    if (count >= 10) return 48;
+    return 40;
+  };
+
+  const size = getBubbleSize();
+
+  return (
+    <View
+      style={[
+        styles.halo,
+        {
+          width: size + 12,
+          height: size + 12,
+          borderRadius: (size + 12) / 2,
+          backgroundColor: `${color}55`
+        }
+      ]}
+    >
+      <View
+        style={[
+          styles.bubble,
+          {
+            width: size,
+            height: size,
+            borderRadius: size / 2,
+            backgroundColor: color
+          }
+        ]}
+      >
+        <Text style={styles.countText}>{count > 999 ? '999+' : `${count}`}</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  halo: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  bubble: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#fff',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.3,
+    shadowRadius: 2,
+    elevation: 3,
+  },
+  countText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+});
+
+export default ClusterMarker;
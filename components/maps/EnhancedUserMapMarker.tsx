@@ -2,10 +2,29 @@ import React, { useState, useEffect, useRef } from 'react';
 import { View, Image, Text, StyleSheet, ViewStyle, ActivityIndicator } from 'react-native';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { Asset } from 'expo-asset';
+import { formatDistanceBucket } from '@/utils/locationPrivacy';
 
 // Define tier types for the marker
 export type MarkerTier = 'soulmate' | 'bestFriend' | 'friend' | 'buddy' | 'casual';
 
+// Border colors for each tier, shared with cluster bubbles
+export const TIER_COLORS: Record<MarkerTier, string> = {
+  soulmate: '#00B0FF', // Light blue
+  bestFriend: '#FFD700', // Gold
+  friend: '#C0C0C0', // Silver
+  buddy: '#CD7F32', // Bronze
+  casual: '#AAAAAA' // Gray
+};
+
+// Precedence of tiers, highest first wins
+export const TIER_RANKING: Record<MarkerTier, number> = {
+  soulmate: 5,
+  bestFriend: 4,
+  friend: 3,
+  buddy: 2,
+  casual: 1
+};
+
 // Define the props for the enhanced marker component
 interface EnhancedUserMapMarkerProps {
   photoURL?: string;
@@ -14,6 +33,10 @@ interface EnhancedUserMapMarkerProps {
   tier?: MarkerTier;
   sharedInterestsCount?: number;
   online?: boolean;
+  // People the viewer is connected with get a heavier tier border and a badge
+  connected?: boolean;
+  // Set for last-known positions; the marker fades and shows this instead of the distance
+  lastSeenLabel?: string | null;
   style?: ViewStyle;
 }
 
@@ -27,6 +50,8 @@ const EnhancedUserMapMarker: React.FC<EnhancedUserMapMarkerProps> = ({
   tier = 'casual',
   sharedInterestsCount = 0,
   online = false,
+  connected = false,
+  lastSeenLabel = null,
   style 
 }) => {
   const [imageLoaded, setImageLoaded] = useState(false);
@@ -121,15 +146,7 @@ const EnhancedUserMapMarker: React.FC<EnhancedUserMapMarkerProps> = ({
 
   // Determine the marker border color based on tier
   const getMarkerColor = () => {
-    const safeType = tier || 'casual';
-    switch(safeType) {
-      case 'soulmate': return '#00B0FF'; // Light blue
-      case 'bestFriend': return '#FFD700'; // Gold
-      case 'friend': return '#C0C0C0'; // Silver
-      case 'buddy': return '#CD7F32'; // Bronze
-      case 'casual':
-      default: return '#AAAAAA'; // Gray
-    }
+    return TIER_COLORS[tier || 'casual'] || TIER_COLORS.casual;
   };
 
   const markerSize = getMarkerSize();
@@ -139,7 +156,7 @@ const EnhancedUserMapMarker: React.FC<EnhancedUserMapMarkerProps> = ({
   const imageRadius = markerSize.image / 2;
 
   return (
-    <View style={[styles.container, style]}>
+    <View style={[styles.container, lastSeenLabel ? styles.lastSeenContainer : null, style]}>
       <View 
         style={[
           styles.imageContainer, 
@@ -148,6 +165,7 @@ const EnhancedUserMapMarker: React.FC<EnhancedUserMapMarkerProps> = ({
             height: markerSize.container, 
             borderRadius: containerRadius,
             borderColor: markerColor,
+            borderWidth: connected ? 5 : 3,
             backgroundColor: '#fff',
             justifyContent: 'center',
             alignItems: 'center',
@@ -234,15 +252,26 @@ const EnhancedUserMapMarker: React.FC<EnhancedUserMapMarkerProps> = ({
         </View>
       )}
       
+      {/* Connection badge */}
+      {connected && (
+        <View style={[styles.connectedBadge, { backgroundColor: markerColor }]}>
+          <FontAwesome name="link" size={9} color="#fff" />
+        </View>
+      )}
+      
       {/* Online status indicator */}
       {online && (
         <View style={styles.onlineIndicator} />
       )}
       
-      {/* Display distance if available */}
-      {distance !== null && distance !== undefined && (
+      {/* Last-known positions say how old they are instead of how far */}
+      {lastSeenLabel ? (
+        <View style={styles.lastSeenPill}>
+          <Text style={styles.distanceText} numberOfLines={1}>Last seen here {lastSeenLabel}</Text>
+        </View>
+      ) : distance !== null && distance !== undefined && (
         <View style={[styles.distanceContainer, { backgroundColor: `${markerColor}CC` }]}>
-          <Text style={styles.distanceText}>{`${distance}m`}</Text>
+          <Text style={styles.distanceText}>{formatDistanceBucket(distance)}</Text>
         </View>
       )}
     </View>
@@ -272,6 +301,17 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     marginTop: 4,
   },
+  lastSeenContainer: {
+    opacity: 0.55,
+    width: 120,
+  },
+  lastSeenPill: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginTop: 4,
+    backgroundColor: '#777777CC',
+  },
   distanceText: {
     color: '#fff',
     fontSize: 10,
@@ -295,6 +335,18 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: 'bold',
   },
+  connectedBadge: {
+    position: 'absolute',
+    bottom: -5,
+    left: 5,
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#fff',
+  },
   onlineIndicator: {
     position: 'absolute',
     bottom: -5,
@@ -12,69 +12,64 @@ import {
   TextInput,
   Modal,
   Alert,
-  FlatList
+  FlatList,
+  Share
 } from 'react-native';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
+import {
+  DISCOVERY_RADIUS_STEPS,
+  RADIUS_TIERS,
+  getRadiusTier,
+  resolveDiscoveryRadius,
+  formatRadius
+} from '@/utils/discoveryRadius';
+import {
+  INTEREST_CATEGORIES,
+  INTERESTS,
+  getCategoryLabel,
+  getInterestCategory,
+  getInterestLabel
+} from '@/utils/interestTaxonomy';
+import InterestSuggestions from '@/components/interests/InterestSuggestions';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  FilterPreset,
+  MAX_PRESET_NAME_LENGTH,
+  loadFilterPresets,
+  syncFilterPresets,
+  validatePresetName,
+  createFilterPreset,
+  renameFilterPreset,
+  setFilterPresetWatch,
+  deleteFilterPreset,
+  moveFilterPreset,
+  createPresetShareLink
+} from '@/utils/filterPresets';
+import { requestMatchAlertPermission } from '@/utils/matchAlerts';
+import {
+  DiscoveryFilters,
+  GENDER_OPTIONS,
+  ACTIVITY_OPTIONS,
+  LOOKING_FOR_OPTIONS,
+  MIN_FILTER_AGE,
+  AGE_INPUT_LIMIT,
+  MAX_MIN_SHARED_INTERESTS
+} from '@/utils/discoveryFilters';
 
 const { width } = Dimensions.get('window');
 const DRAWER_WIDTH = width * 0.8; // 80% of screen width
 const DISMISS_THRESHOLD = 50; // How far to swipe to dismiss
 
-// Predefined interest categories
-const INTEREST_CATEGORIES = {
-  "Activities": [
-    "Hiking", "Cycling", "Running", "Swimming", "Yoga", "Dancing", 
-    "Photography", "Painting", "Drawing", "Crafting"
-  ],
-  "Entertainment": [
-    "Movies", "TV Shows", "Gaming", "Music", "Reading", "Theater", 
-    "Concerts", "Festivals"
-  ],
-  "Lifestyle": [
-    "Cooking", "Baking", "Travel", "Fashion", "Fitness", "Meditation", 
-    "Mindfulness"
-  ],
-  "Social & Intellectual": [
-    "Politics", "History", "Science", "Philosophy", "Technology",
-    "Languages", "Volunteering", "Networking"
-  ],
-  "Sports": [
-    "Football", "Basketball", "Baseball", "Soccer", "Tennis", "Golf", 
-    "Volleyball", "Skiing", "Snowboarding", "Surfing"
-  ],
-  "Other": [] // Will contain any interests not in above categories
-};
-
-// Gender Options
-const GENDER_OPTIONS = ["Male", "Female", "Non-binary", "Any"];
-
-// Activity Status Options
-const ACTIVITY_OPTIONS = ["Recently active", "New users", "Any"];
-
-// Looking For Options
-const LOOKING_FOR_OPTIONS = ["Friendship", "Dating", "Activity partners", "Networking", "Any"];
-
-const FILTER_PRESET_STORAGE_KEY = "hive_filter_presets";
-
 interface FilterDrawerProps {
   visible: boolean;
   onClose: () => void;
-  filters: {
-    // Interest filters
-    selectedInterests: string[];
-    minSharedInterests: number;
-    // Visibility filters
-    onlineOnly: boolean;
-    // Demographic filters
-    ageRange: [number, number];
-    selectedGender: string;
-    // Activity filters
-    activityStatus: string;
-    // Looking for
-    lookingFor: string;
-  };
+  filters: DiscoveryFilters;
+  // People nearby passing the filters, out of everyone nearby
+  matchCount: number;
+  totalCount: number;
+  // The criteria ruling out the most people, e.g. "Gender (4)"
+  exclusions?: string;
   allInterests: string[];
   onInterestToggle: (interest: string) => void;
   onMinSharedInterestsChange: (value: number) => void;
@@ -83,7 +78,8 @@ interface FilterDrawerProps {
   onGenderChange: (value: string) => void;
   onActivityStatusChange: (value: string) => void;
   onLookingForChange: (value: string) => void;
-  onLoadPreset: (preset: any) => void;
+  onDiscoveryRadiusChange: (value: number) => void;
+  onLoadPreset: (filters: DiscoveryFilters) => void;
   drawerAnimation: Animated.Value;
 }
 
@@ -91,6 +87,9 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
   visible,
   onClose,
   filters,
+  matchCount,
+  totalCount,
+  exclusions,
   allInterests,
   onInterestToggle,
   onMinSharedInterestsChange,
@@ -99,70 +98,78 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
   onGenderChange,
   onActivityStatusChange,
   onLookingForChange,
+  onDiscoveryRadiusChange,
   onLoadPreset,
   drawerAnimation
 }) => {
+  const { user } = useAuth();
+  
   // Local state for presets
-  const [presets, setPresets] = useState<Array<{ name: string, filters: any }>>([]);
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
   const [showSavePresetModal, setShowSavePresetModal] = useState(false);
   const [presetName, setPresetName] = useState('');
+  // Preset being renamed, or null when saving a new one
+  const [renamingPreset, setRenamingPreset] = useState<FilterPreset | null>(null);
   const [showPresetsModal, setShowPresetsModal] = useState(false);
 
-  // Load presets on component mount
+  // Show this device's presets straight away, then sync whenever the drawer opens
   useEffect(() => {
-    loadPresets();
-  }, []);
+    if (!user?.uid) return;
+    
+    let active = true;
+    const load = visible ? syncFilterPresets : loadFilterPresets;
+    load(user.uid).then(loaded => {
+      if (active) setPresets(loaded);
+    });
+    return () => {
+      active = false;
+    };
+  }, [user?.uid, visible]);
 
-  // Load saved presets from AsyncStorage
-  const loadPresets = async () => {
-    try {
-      const savedPresets = await AsyncStorage.getItem(FILTER_PRESET_STORAGE_KEY);
-      if (savedPresets) {
-        setPresets(JSON.parse(savedPresets));
-      }
-    } catch (error) {
-      console.error('Error loading filter presets:', error);
-    }
+  const closePresetNameModal = () => {
+    setPresetName('');
+    setRenamingPreset(null);
+    setShowSavePresetModal(false);
   };
 
-  // Save a new preset
+  // Save a new preset, or rename one
   const savePreset = async () => {
-    if (!presetName.trim()) {
-      Alert.alert('Error', 'Please enter a name for your preset');
+    if (!user?.uid) return;
+    
+    const error = validatePresetName(presetName, presets, renamingPreset?.id);
+    if (error) {
+      Alert.alert('Error', error);
       return;
     }
 
     try {
-      // Check for duplicate names
-      if (presets.some(p => p.name === presetName.trim())) {
-        Alert.alert('Error', 'A preset with this name already exists');
-        return;
+      if (renamingPreset) {
+        setPresets(await renameFilterPreset(user.uid, renamingPreset, presetName));
+      } else {
+        setPresets(await createFilterPreset(user.uid, presetName, filters));
+        Alert.alert('Success', 'Filter preset saved successfully');
       }
-
-      const newPreset = {
-        name: presetName.trim(),
-        filters: { ...filters }
-      };
-
-      const updatedPresets = [...presets, newPreset];
-      setPresets(updatedPresets);
-      await AsyncStorage.setItem(FILTER_PRESET_STORAGE_KEY, JSON.stringify(updatedPresets));
-      
-      setPresetName('');
-      setShowSavePresetModal(false);
-      Alert.alert('Success', 'Filter preset saved successfully');
+      closePresetNameModal();
     } catch (error) {
       console.error('Error saving filter preset:', error);
       Alert.alert('Error', 'Failed to save preset');
     }
   };
 
+  // Open the name modal to rename a preset
+  const startRename = (preset: FilterPreset) => {
+    setRenamingPreset(preset);
+    setPresetName(preset.name);
+    setShowPresetsModal(false);
+    setShowSavePresetModal(true);
+  };
+
   // Delete a preset
-  const deletePreset = async (name: string) => {
+  const deletePreset = async (preset: FilterPreset) => {
+    if (!user?.uid) return;
+    
     try {
-      const updatedPresets = presets.filter(p => p.name !== name);
-      setPresets(updatedPresets);
-      await AsyncStorage.setItem(FILTER_PRESET_STORAGE_KEY, JSON.stringify(updatedPresets));
+      setPresets(await deleteFilterPreset(user.uid, preset));
       Alert.alert('Success', 'Preset deleted successfully');
     } catch (error) {
       console.error('Error deleting preset:', error);
@@ -170,8 +177,50 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
     }
   };
 
+  // Move a preset up or down the list
+  const movePreset = async (preset: FilterPreset, direction: -1 | 1) => {
+    if (!user?.uid) return;
+    
+    try {
+      setPresets(await moveFilterPreset(user.uid, preset, direction));
+    } catch (error) {
+      console.error('Error reordering presets:', error);
+    }
+  };
+
+  // Turn "match nearby" alerts for a preset on or off
+  const toggleWatch = async (preset: FilterPreset) => {
+    if (!user?.uid) return;
+    
+    try {
+      if (!preset.watch && !(await requestMatchAlertPermission())) {
+        Alert.alert(
+          'Notifications Off',
+          'Allow notifications for Hive in your device settings to get match alerts.'
+        );
+        return;
+      }
+      setPresets(await setFilterPresetWatch(user.uid, preset, !preset.watch));
+    } catch (error) {
+      console.error('Error updating preset watch:', error);
+      Alert.alert('Error', 'Failed to update match alerts');
+    }
+  };
+
+  // Share a preset as a link a friend can open to import it
+  const sharePreset = async (preset: FilterPreset) => {
+    try {
+      await Share.share({
+        message: `Try my "${preset.name}" filters on Hive: ${createPresetShareLink(preset)}`
+      });
+    } catch (error) {
+      console.error('Error sharing preset:', error);
+      Alert.alert('Error', 'Failed to share preset');
+    }
+  };
+
   // Load a preset
-  const handleLoadPreset = (preset: any) => {
+  const handleLoadPreset = (preset: FilterPreset) => {
     onLoadPreset(preset.filters);
     setShowPresetsModal(false);
   };
@@ -203,33 +252,27 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
     },
   }), [drawerAnimation, onClose]);
 
-  // Sort interests into categories - HOOK 2
+  // Sort interests into taxonomy categories - HOOK 2
   const categorizedInterests = useMemo(() => {
-    const result = {...INTEREST_CATEGORIES};
+    const result: Record<string, string[]> = {};
     
-    // Initialize "Other" category
-    result["Other"] = [];
+    // allInterests comes most popular first; unused interests go last
+    const popularity = (interest: string) => {
+      const index = allInterests.indexOf(interest);
+      return index === -1 ? Infinity : index;
+    };
     
-    // Categorize each interest
-    allInterests.forEach(interest => {
-      let found = false;
-      
-      // Check each category
-      for (const category in result) {
-        if (category === "Other") continue; // Skip "Other" for now
-        
-        if (result[category].includes(interest)) {
-          found = true;
-          break;
-        }
-      }
-      
-      // If not found in any category, add to "Other"
-      if (!found) {
-        result["Other"].push(interest);
-      }
+    // Every known interest, grouped under its category
+    Object.keys(INTEREST_CATEGORIES).forEach(category => {
+      result[getCategoryLabel(category)] = Object.keys(INTERESTS)
+        .filter(id => INTERESTS[id].category === category)
+        .sort((a, b) => popularity(a) - popularity(b));
     });
     
+    // Custom interests people have added go under "Other"
+    result["Other"] = allInterests
+      .filter(interest => !getInterestCategory(interest));
+    
     return result;
   }, [allInterests]);
 
@@ -294,7 +337,48 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
         </View>
       </View>
       
+      {/* Match Summary */}
+      <View style={styles.matchSummary}>
+        <Text style={styles.matchSummaryText}>
+          {matchCount} of {totalCount} {totalCount === 1 ? 'person' : 'people'} nearby match
+        </Text>
+        {!!exclusions && matchCount < totalCount && (
+          <Text style={styles.matchSummaryDetail}>Most ruled out by {exclusions}</Text>
+        )}
+      </View>
+      
       <ScrollView style={styles.scrollContent}>
+        {/* Discovery Radius Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Discovery Radius</Text>
+          <Text style={styles.sectionSubtitle}>
+            Within {formatRadius(filters.discoveryRadius)} ({RADIUS_TIERS[getRadiusTier(filters.discoveryRadius)].label})
+            {RADIUS_TIERS[getRadiusTier(filters.discoveryRadius)].clustered ? ' - grouped on the map and listed below it' : ''}
+          </Text>
+          
+          <View style={styles.optionsContainer}>
+            {DISCOVERY_RADIUS_STEPS.map((radius) => (
+              <TouchableOpacity
+                key={radius}
+                style={[
+                  styles.optionButton,
+                  filters.discoveryRadius === radius && styles.optionButtonSelected
+                ]}
+                onPress={() => onDiscoveryRadiusChange(radius)}
+              >
+                <Text
+                  style={[
+                    styles.optionText,
+                    filters.discoveryRadius === radius && styles.optionTextSelected
+                  ]}
+                >
+                  {formatRadius(radius)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+        
         {/* Demographic Filters Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Demographics</Text>
@@ -309,7 +393,7 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
               <TouchableOpacity
                 style={styles.sliderButton}
                 onPress={() => {
-                  if (filters.ageRange[0] > 18) {
+                  if (filters.ageRange[0] > MIN_FILTER_AGE) {
                     onAgeRangeChange([filters.ageRange[0] - 1, filters.ageRange[1]]);
                   }
                 }}
@@ -323,7 +407,7 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
                 keyboardType="number-pad"
                 onChangeText={(text) => {
                   const value = parseInt(text);
-                  if (!isNaN(value) && value >= 18 && value <= filters.ageRange[1]) {
+                  if (!isNaN(value) && value >= MIN_FILTER_AGE && value <= filters.ageRange[1]) {
                     onAgeRangeChange([value, filters.ageRange[1]]);
                   }
                 }}
@@ -363,7 +447,7 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
                 keyboardType="number-pad"
                 onChangeText={(text) => {
                   const value = parseInt(text);
-                  if (!isNaN(value) && value >= filters.ageRange[0] && value <= 100) {
+                  if (!isNaN(value) && value >= filters.ageRange[0] && value <= AGE_INPUT_LIMIT) {
                     onAgeRangeChange([filters.ageRange[0], value]);
                   }
                 }}
@@ -372,7 +456,7 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
               <TouchableOpacity
                 style={styles.sliderButton}
                 onPress={() => {
-                  if (filters.ageRange[1] < 100) {
+                  if (filters.ageRange[1] < AGE_INPUT_LIMIT) {
                     onAgeRangeChange([filters.ageRange[0], filters.ageRange[1] + 1]);
                   }
                 }}
@@ -433,7 +517,7 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
               keyboardType="number-pad"
               onChangeText={(text) => {
                 const value = parseInt(text);
-                if (!isNaN(value) && value >= 1 && value <= 15) {
+                if (!isNaN(value) && value >= 1 && value <= MAX_MIN_SHARED_INTERESTS) {
                   onMinSharedInterestsChange(value);
                 }
               }}
@@ -442,7 +526,7 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
             <TouchableOpacity
               style={styles.sliderButton}
               onPress={() => {
-                if (filters.minSharedInterests < 15) {
+                if (filters.minSharedInterests < MAX_MIN_SHARED_INTERESTS) {
                   onMinSharedInterestsChange(filters.minSharedInterests + 1);
                 }
               }}
@@ -453,7 +537,7 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
           
           <View style={styles.sliderLabels}>
             <Text style={styles.sliderLabel}>1</Text>
-            <Text style={styles.sliderLabel}>15</Text>
+            <Text style={styles.sliderLabel}>{MAX_MIN_SHARED_INTERESTS}</Text>
           </View>
         </View>
         
@@ -464,6 +548,13 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
             Show users who have these interests
           </Text>
           
+          <View style={styles.interestSearch}>
+            <InterestSuggestions
+              selected={filters.selectedInterests}
+              onSelect={onInterestToggle}
+            />
+          </View>
+          
           {/* Categorized Interest List */}
           {Object.keys(categorizedInterests).map(category => {
             // Skip empty categories
@@ -489,7 +580,7 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
                           filters.selectedInterests.includes(interest) && styles.interestTextSelected
                         ]}
                       >
-                        {interest}
+                        {getInterestLabel(interest)}
                       </Text>
                     </TouchableOpacity>
                   ))}
@@ -527,25 +618,25 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
         transparent={true}
         visible={showSavePresetModal}
         animationType="fade"
-        onRequestClose={() => setShowSavePresetModal(false)}
+        onRequestClose={closePresetNameModal}
       >
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
-            <Text style={styles.modalTitle}>Save Filter Preset</Text>
+            <Text style={styles.modalTitle}>
+              {renamingPreset ? 'Rename Filter Preset' : 'Save Filter Preset'}
+            </Text>
             <TextInput
               style={styles.presetNameInput}
               placeholder="Enter preset name"
               value={presetName}
               onChangeText={setPresetName}
+              maxLength={MAX_PRESET_NAME_LENGTH}
               autoFocus
             />
             <View style={styles.modalButtons}>
               <TouchableOpacity
                 style={[styles.modalButton, styles.cancelButton]}
-                onPress={() => {
-                  setPresetName('');
-                  setShowSavePresetModal(false);
-                }}
+                onPress={closePresetNameModal}
               >
                 <Text style={styles.modalButtonText}>Cancel</Text>
               </TouchableOpacity>
@@ -576,27 +667,75 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
             ) : (
               <FlatList
                 data={presets}
-                keyExtractor={(item, index) => `preset-${index}`}
-                renderItem={({ item }) => (
+                keyExtractor={(item) => item.id}
+                renderItem={({ item, index }) => (
                   <View style={styles.presetItem}>
                     <TouchableOpacity
                       style={styles.presetItemButton}
                       onPress={() => handleLoadPreset(item)}
                     >
                       <Text style={styles.presetItemText}>{item.name}</Text>
+                      <Text style={styles.presetItemSubtext}>
+                        Within {formatRadius(resolveDiscoveryRadius(item.filters?.discoveryRadius))}
+                      </Text>
                     </TouchableOpacity>
-                    <TouchableOpacity
-                      style={styles.presetDeleteButton}
-                      onPress={() => deletePreset(item.name)}
-                    >
-                      <FontAwesome name="trash" size={18} color="#ff6b6b" />
-                    </TouchableOpacity>
+                    <View style={styles.presetActions}>
+                      <TouchableOpacity
+                        style={styles.presetActionButton}
+                        onPress={() => movePreset(item, -1)}
+                        disabled={index === 0}
+                      >
+                        <FontAwesome name="arrow-up" size={14} color={index === 0 ? '#ddd' : '#888'} />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.presetActionButton}
+                        onPress={() => movePreset(item, 1)}
+                        disabled={index === presets.length - 1}
+                      >
+                        <FontAwesome name="arrow-down" size={14} color={index === presets.length - 1 ? '#ddd' : '#888'} />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.presetActionButton}
+                        onPress={() => toggleWatch(item)}
+                      >
+                        <FontAwesome
+                          name={item.watch ? 'bell' : 'bell-o'}
+                          size={16}
+                          color={item.watch ? '#f5a623' : '#888'}
+                        />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.presetActionButton}
+                        onPress={() => startRename(item)}
+                      >
+                        <FontAwesome name="pencil" size={16} color="#888" />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.presetActionButton}
+                        onPress={() => sharePreset(item)}
+                      >
+                        <FontAwesome name="share-alt" size={16} color="#4B7BEC" />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.presetDeleteButton}
+                        onPress={() => deletePreset(item)}
+                      >
+                        <FontAwesome name="trash" size={18} color="#ff6b6b" />
+                      </TouchableOpacity>
+                    </View>
                   </View>
                 )}
                 style={styles.presetsList}
               />
             )}
             
+            {presets.length > 0 && (
+              <Text style={styles.watchNote}>
+                Tap the bell to be alerted when someone matching a preset is nearby.
+                With the app closed this needs background location.
+              </Text>
+            )}
+            
             <TouchableOpacity
               style={[styles.modalButton, styles.closePresetsButton]}
               onPress={() => setShowPresetsModal(false)}
@@ -650,6 +789,23 @@ const styles = StyleSheet.create({
     padding: 5,
     marginRight: 15,
   },
+  matchSummary: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    backgroundColor: '#f5f7ff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  matchSummaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4B7BEC',
+  },
+  matchSummaryDetail: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
   scrollContent: {
     flex: 1,
   },
@@ -773,6 +929,9 @@ const styles = StyleSheet.create({
     color: 'white',
     fontWeight: '500',
   },
+  interestSearch: {
+    marginBottom: 12,
+  },
   categorySection: {
     marginTop: 15,
   },
@@ -930,9 +1089,27 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
+  presetItemSubtext: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  presetActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  presetActionButton: {
+    padding: 6,
+  },
   presetDeleteButton: {
     padding: 8,
   },
+  watchNote: {
+    fontSize: 12,
+    color: '#888',
+    textAlign: 'center',
+    marginTop: 10,
+  },
   noPresetsText: {
     fontSize: 16,
     color: '#666',
@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import {
+  MAX_INTRO_NOTE_LENGTH,
+  REQUEST_EXPIRY_OPTIONS,
+  DEFAULT_REQUEST_EXPIRY_DAYS,
+  InviteOptions,
+  suggestIntroNotes
+} from '@/utils/connectionRequests';
+
+interface InviteComposerProps {
+  visible: boolean;
+  name: string;
+  sharedInterests: string[];
+  onCancel: () => void;
+  onSend: (options: InviteOptions) => void;
+}
+
+/**
+ * Write an optional intro note and pick how long a request stays open
+ */
+const InviteComposer: React.FC<InviteComposerProps> = ({
+  visible,
+  name,
+  sharedInterests,
+  onCancel,
+  onSend
+}) => {
+  const [note, setNote] = useState('');
+  const [expiryDays, setExpiryDays] = useState(DEFAULT_REQUEST_EXPIRY_DAYS);
+
+  const suggestions = useMemo(() => suggestIntroNotes(name, sharedInterests), [name, sharedInterests]);
+
+  useEffect(() => {
+    if (visible) {
+      setNote('');
+      setExpiryDays(DEFAULT_REQUEST_EXPIRY_DAYS);
+    }
+  }, [visible]);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCancel}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Connect with {name}</Text>
+            <TouchableOpacity onPress={onCancel}>
+              <MaterialIcons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>Add a note (optional)</Text>
+          <View style={styles.suggestions}>
+            {suggestions.map(suggestion => (
+              <TouchableOpacity
+                key={suggestion}
+                style={styles.suggestionChip}
+                onPress={() => setNote(suggestion)}
+              >
+                <Text style={styles.suggestionText} numberOfLines={2}>{suggestion}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TextInput
+            style={styles.input}
+            value={note}
+            onChangeText={setNote}
+            placeholder={`Say hi to ${name}`}
+            placeholderTextColor="#999"
+            multiline
+            maxLength={MAX_INTRO_NOTE_LENGTH}
+          />
+          <Text style={styles.counter}>{note.length}/{MAX_INTRO_NOTE_LENGTH}</Text>
+
+          <Text style={styles.label}>Request expires after</Text>
+          <View style={styles.expiryOptions}>
+            {REQUEST_EXPIRY_OPTIONS.map(days => (
+              <TouchableOpacity
+                key={days}
+                style={[styles.expiryChip, expiryDays === days && styles.expiryChipSelected]}
+                onPress={() => setExpiryDays(days)}
+              >
+                <Text style={[styles.expiryChipText, expiryDays === days && styles.expiryChipTextSelected]}>
+                  {days} days
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TouchableOpacity
+            style={styles.sendButton}
+            onPress={() => onSend({ note, expiryDays })}
+          >
+            <Text style={styles.sendButtonText}>Send Request</Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  suggestions: {
+    marginBottom: 8,
+  },
+  suggestionChip: {
+    backgroundColor: '#f5f7ff',
+    borderRadius: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginBottom: 6,
+  },
+  suggestionText: {
+    fontSize: 13,
+    color: '#4B7BEC',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  counter: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'right',
+    marginTop: 4,
+  },
+  expiryOptions: {
+    flexDirection: 'row',
+  },
+  expiryChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 8,
+  },
+  expiryChipSelected: {
+    backgroundColor: '#4B7BEC',
+    borderColor: '#4B7BEC',
+  },
+  expiryChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  expiryChipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  sendButton: {
+    backgroundColor: '#4B7BEC',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  sendButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default InviteComposer;
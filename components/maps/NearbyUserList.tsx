@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Dimensions
+} from 'react-native';
+import { MarkerTier, TIER_COLORS } from './EnhancedUserMapMarker';
+import { formatDistanceBucket } from '@/utils/locationPrivacy';
+
+// How many rows to add each time the end of the list is reached
+const PAGE_SIZE = 20;
+
+const { height } = Dimensions.get('window');
+
+interface NearbyListUser {
+  uid: string;
+  name?: string | null;
+  photoURL?: string | null;
+  tier?: MarkerTier;
+  distance?: number;
+  online?: boolean;
+}
+
+interface NearbyUserListProps {
+  users: NearbyListUser[];
+  onSelectUser: (user: any) => void;
+  // Changing this starts the list over from the first page
+  resetKey?: string | number;
+}
+
+/**
+ * Paged list of nearby users, shown alongside clustered markers at large radii
+ * where individual pins are no longer practical to browse
+ */
+const NearbyUserList: React.FC<NearbyUserListProps> = ({
+  users,
+  onSelectUser,
+  resetKey
+}) => {
+  const [pageCount, setPageCount] = useState(1);
+
+  // Start over when the search changes
+  useEffect(() => {
+    setPageCount(1);
+  }, [resetKey]);
+
+  const visibleUsers = users.slice(0, pageCount * PAGE_SIZE);
+  const hasMore = visibleUsers.length < users.length;
+
+  const loadNextPage = () => {
+    if (hasMore) {
+      setPageCount(prev => prev + 1);
+    }
+  };
+
+  const renderUser = ({ item }: { item: NearbyListUser }) => {
+    const color = TIER_COLORS[item.tier || 'casual'] || TIER_COLORS.casual;
+
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => onSelectUser(item)}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.avatarRing, { borderColor: color }]}>
+          {item.photoURL ? (
+            <Image source={{ uri: item.photoURL }} style={styles.avatar} />
+          ) : (
+            <View style={[styles.avatar, styles.defaultAvatar, { backgroundColor: color }]}>
+              <Text style={styles.defaultAvatarText}>
+                {(item.name || '?').charAt(0).toUpperCase()}
+              </Text>
+            </View>
+          )}
+          {item.online && <View style={styles.onlineDot} />}
+        </View>
+        <Text style={styles.name} numberOfLines={1}>
+          {item.name || 'Someone'}
+        </Text>
+        <Text style={styles.distance}>
+          {formatDistanceBucket(item.distance || 0)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <FlatList
+      data={visibleUsers}
+      renderItem={renderUser}
+      keyExtractor={(item) => item.uid}
+      style={styles.list}
+      onEndReached={loadNextPage}
+      onEndReachedThreshold={0.5}
+      ListFooterComponent={
+        users.length > 0 ? (
+          <Text style={styles.footerText}>
+            Showing {visibleUsers.length} of {users.length}
+          </Text>
+        ) : null
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  list: {
+    maxHeight: height * 0.3,
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  avatarRing: {
+    position: 'relative',
+    borderWidth: 2,
+    borderRadius: 20,
+    padding: 1,
+    marginRight: 10,
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+  },
+  defaultAvatar: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  defaultAvatarText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  onlineDot: {
+    position: 'absolute',
+    bottom: -1,
+    right: -1,
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#26de81',
+    borderWidth: 1.5,
+    borderColor: '#fff',
+  },
+  name: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  distance: {
+    fontSize: 13,
+    color: '#888',
+    marginLeft: 8,
+  },
+  footerText: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 6,
+  },
+});
+
+export default NearbyUserList;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   View, 
   Text, 
@@ -15,9 +15,15 @@ import {
 } from 'react-native';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { MarkerTier } from './EnhancedUserMapMarker';
-import { collection, query, where, getDocs } from '@firebase/firestore';
-import { db } from '@/config/firebase';
 import { useAuth } from '@/contexts/AuthContext';
+import { formatDistanceBucket } from '@/utils/locationPrivacy';
+import { getInterestLabel } from '@/utils/interestTaxonomy';
+import { CompatibilityResult, explainCompatibility } from '@/utils/compatibility';
+import MatchBreakdown from '@/components/profile/MatchBreakdown';
+import ReportModal from '@/components/moderation/ReportModal';
+import { snapshotProfile } from '@/utils/reports';
+import { InviteOptions, getRelationship } from '@/utils/connectionRequests';
+import InviteComposer from './InviteComposer';
 
 interface ProfileCardProps {
   uid: string;
@@ -28,13 +34,19 @@ interface ProfileCardProps {
   interests: string[];
   sharedInterests: string[];
   tier: MarkerTier;
+  // 0-100 compatibility score the tier was derived from
+  compatibilityScore?: number;
+  // Full result, for the "why this match" breakdown
+  compatibility?: CompatibilityResult;
   distance?: number;
   online?: boolean;
+  lastActive?: Date | null;
   onDismiss: () => void;
   onStartChat?: (uid: string) => void;
-  onInvite?: (uid: string) => void;
+  onInvite?: (uid: string, options: InviteOptions) => void;
   onAcceptInvite?: (uid: string) => void;
   onDeclineInvite?: (uid: string) => void;
+  onBlock?: (uid: string, name: string) => void;
 }
 
 const { height, width } = Dimensions.get('window');
@@ -59,13 +71,17 @@ const ProfileCard: React.FC<ProfileCardProps> = ({
   interests = [],
   sharedInterests = [],
   tier = 'casual',
+  compatibilityScore,
+  compatibility,
   distance,
   online = false,
+  lastActive,
   onDismiss,
   onStartChat,
   onInvite,
   onAcceptInvite,
-  onDeclineInvite
+  onDeclineInvite,
+  onBlock
 }) => {
   const { user } = useAuth();
   
@@ -80,6 +96,8 @@ const ProfileCard: React.FC<ProfileCardProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
   const [showImageModal, setShowImageModal] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
+  const [showInviteComposer, setShowInviteComposer] = useState(false);
   
   // Connection status state
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('none');
@@ -119,60 +137,19 @@ const ProfileCard: React.FC<ProfileCardProps> = ({
       try {
         setCheckingConnection(true);
         
-        // Check for connection requests in both directions
-        const connectionRequestsRef = collection(db, 'connectionRequests');
+        const relationship = await getRelationship(user.uid, uid);
         
-        // Check for sent request
-        const sentQuery = query(
-          connectionRequestsRef,
-          where('senderId', '==', user.uid),
-          where('receiverId', '==', uid)
-        );
-        
-        // Check for received request
-        const receivedQuery = query(
-          connectionRequestsRef,
-          where('senderId', '==', uid),
-          where('receiverId', '==', user.uid)
-        );
-        
-        const [sentSnapshot, receivedSnapshot] = await Promise.all([
-          getDocs(sentQuery),
-          getDocs(receivedQuery)
-        ]);
-        
-        if (!sentSnapshot.empty) {
-          // We sent an invitation
-          const request = sentSnapshot.docs[0];
-          const requestData = request.data();
-          
-          if (requestData.status === 'accepted') {
-            // Connection established
-            setConnectionStatus('connected');
-            setConnectionId(request.id);
-            setChatRoomId(requestData.chatRoomId || null);
-          } else {
-            // Pending invitation we sent
-            setConnectionStatus('pending_sent');
-            setConnectionId(request.id);
-          }
-        } else if (!receivedSnapshot.empty) {
-          // We received an invitation
-          const request = receivedSnapshot.docs[0];
-          const requestData = request.data();
-          
-          if (requestData.status === 'accepted') {
-            // Connection established
-            setConnectionStatus('connected');
-            setConnectionId(request.id);
-            setChatRoomId(requestData.chatRoomId || null);
-          } else {
-            // Pending invitation we received
-            setConnectionStatus('pending_received');
-            setConnectionId(request.id);
-          }
+        if (relationship.status === 'accepted') {
+          // Connection established
+          setConnectionStatus('connected');
+          setConnectionId(relationship.id);
+          setChatRoomId(relationship.chatRoomId);
+        } else if (relationship.status === 'pending') {
+          // Pending invitation, sent by us or to us
+          setConnectionStatus(relationship.senderId === user.uid ? 'pending_sent' : 'pending_received');
+          setConnectionId(relationship.id);
         } else {
-          // No connection or invitation
+          // Declined or blocked requests leave nothing to act on here
           setConnectionStatus('none');
         }
       } catch (error) {
@@ -285,11 +262,12 @@ const ProfileCard: React.FC<ProfileCardProps> = ({
     setShowImageModal(true);
   };
 
-  // Handle sending an invitation
-  const handleSendInvite = () => {
+  // Handle sending an invitation, once the note is written
+  const handleSendInvite = (options: InviteOptions) => {
+    setShowInviteComposer(false);
     if (onInvite) {
       setIsLoading(true);
-      onInvite(uid);
+      onInvite(uid, options);
     }
   };
   
@@ -330,6 +308,11 @@ const ProfileCard: React.FC<ProfileCardProps> = ({
 
   const tierInfo = getTierInfo();
   
+  const breakdown = useMemo(
+    () => compatibility ? explainCompatibility(compatibility, { distance, online, lastActive }) : null,
+    [compatibility, distance, online, lastActive]
+  );
+  
   // Render action buttons based on connection status
   const renderActionButtons = () => {
     if (checkingConnection || isLoading) {
@@ -350,7 +333,7 @@ const ProfileCard: React.FC<ProfileCardProps> = ({
             {onInvite && (
               <TouchableOpacity 
                 style={[styles.button, { backgroundColor: '#4B7BEC' }]}
-                onPress={handleSendInvite}
+                onPress={() => setShowInviteComposer(true)}
               >
                 <FontAwesome name="user-plus" size={18} color="#fff" />
                 <Text style={styles.buttonText}>Connect</Text>
@@ -488,6 +471,14 @@ const ProfileCard: React.FC<ProfileCardProps> = ({
                       <Text style={styles.tierText}>{tierInfo.name}</Text>
                     </View>
                     
+                    {compatibilityScore !== undefined && (
+                      <View style={[styles.scoreBadge, { borderColor: tierInfo.color }]}>
+                        <Text style={[styles.scoreText, { color: tierInfo.color }]}>
+                          {compatibilityScore}% match
+                        </Text>
+                      </View>
+                    )}
+                    
                     {online && (
                       <View style={styles.onlineBadge}>
                         <Text style={styles.onlineText}>Online</Text>
@@ -495,7 +486,7 @@ const ProfileCard: React.FC<ProfileCardProps> = ({
                     )}
                   </View>
                   {distance !== undefined && (
-                    <Text style={styles.distanceText}>{distance}m away</Text>
+                    <Text style={styles.distanceText}>{formatDistanceBucket(distance)} away</Text>
                   )}
                 </View>
               </View>
@@ -546,7 +537,7 @@ const ProfileCard: React.FC<ProfileCardProps> = ({
                         ]}
                       >
                         <Text style={[styles.interestText, { color: tierInfo.color }]}>
-                          {interest}
+                          {getInterestLabel(interest)}
                         </Text>
                       </View>
                     ))}
@@ -564,9 +555,36 @@ const ProfileCard: React.FC<ProfileCardProps> = ({
                 </View>
               )}
 
+              {/* Compatibility Breakdown */}
+              {breakdown && (
+                <View style={styles.section}>
+                  <MatchBreakdown breakdown={breakdown} color={tierInfo.color} />
+                </View>
+              )}
+
               {/* Action Buttons included as part of scrollable content */}
               <View style={styles.buttonSection}>
                 {renderActionButtons()}
+                
+                <View style={styles.secondaryActions}>
+                  <TouchableOpacity 
+                    style={styles.secondaryButton}
+                    onPress={() => setShowReportModal(true)}
+                  >
+                    <FontAwesome name="flag" size={14} color="#999" />
+                    <Text style={styles.secondaryButtonText}>Report</Text>
+                  </TouchableOpacity>
+                  
+                  {onBlock && (
+                    <TouchableOpacity 
+                      style={styles.secondaryButton}
+                      onPress={() => onBlock(uid, name)}
+                    >
+                      <FontAwesome name="ban" size={14} color="#999" />
+                      <Text style={styles.secondaryButtonText}>Block {name}</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
               </View>
               
               {/* Bottom Spacing - limited to avoid excessive padding */}
@@ -601,6 +619,21 @@ const ProfileCard: React.FC<ProfileCardProps> = ({
           )}
         </View>
       </Modal>
+
+      <InviteComposer
+        visible={showInviteComposer}
+        name={name}
+        sharedInterests={safeSharedInterests}
+        onCancel={() => setShowInviteComposer(false)}
+        onSend={handleSendInvite}
+      />
+
+      <ReportModal
+        visible={showReportModal}
+        title={`Report ${name}`}
+        report={{ reportedId: uid, target: 'profile', snapshot: snapshotProfile({ name, bio, photoURL }) }}
+        onClose={() => setShowReportModal(false)}
+      />
     </Animated.View>
   );
 };
@@ -729,6 +762,18 @@ const styles = StyleSheet.create({
     alignSelf: 'flex-start',
     marginRight: 8,
   },
+  scoreBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignSelf: 'flex-start',
+    marginRight: 8,
+  },
+  scoreText: {
+    fontWeight: 'bold',
+    fontSize: 12,
+  },
   onlineBadge: {
     paddingHorizontal: 10,
     paddingVertical: 4,
@@ -831,6 +876,21 @@ const styles = StyleSheet.create({
     fontSize: 15,
     marginLeft: 8,
   },
+  secondaryActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  secondaryButtonText: {
+    color: '#999',
+    fontSize: 13,
+    marginLeft: 6,
+  },
   modalContainer: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.9)',
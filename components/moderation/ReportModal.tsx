@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Alert
+} from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  REPORT_REASONS,
+  MAX_REPORT_DETAILS_LENGTH,
+  ReportInput,
+  ReportReason,
+  submitReport
+} from '@/utils/reports';
+
+interface ReportModalProps {
+  visible: boolean;
+  // Who and what is being reported; reason and details come from the form
+  report: Omit<ReportInput, 'reason' | 'details'> | null;
+  title?: string;
+  onClose: () => void;
+  onSubmitted?: () => void;
+}
+
+/**
+ * Form for reporting a profile or a message
+ */
+const ReportModal: React.FC<ReportModalProps> = ({
+  visible,
+  report,
+  title = 'Report',
+  onClose,
+  onSubmitted
+}) => {
+  const { user } = useAuth();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Start from a blank form each time
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setDetails('');
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (!user?.uid || !report || !reason) return;
+
+    try {
+      setSubmitting(true);
+      await submitReport(user.uid, { ...report, reason, details });
+      onClose();
+      onSubmitted?.();
+      Alert.alert('Report Sent', 'Thanks for letting us know. Our moderators will review it.');
+    } catch (error) {
+      console.error('Error submitting report:', error);
+      Alert.alert('Error', 'Failed to send report. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{title}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <MaterialIcons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>What's wrong?</Text>
+          {REPORT_REASONS.map(option => (
+            <TouchableOpacity
+              key={option.key}
+              style={styles.reasonRow}
+              onPress={() => setReason(option.key)}
+            >
+              <MaterialIcons
+                name={reason === option.key ? 'radio-button-checked' : 'radio-button-unchecked'}
+                size={20}
+                color={reason === option.key ? '#6C5CE7' : '#999'}
+              />
+              <Text style={styles.reasonText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <Text style={styles.label}>Anything else we should know? (optional)</Text>
+          <TextInput
+            style={styles.input}
+            value={details}
+            onChangeText={setDetails}
+            placeholder="Add details"
+            placeholderTextColor="#999"
+            multiline
+            maxLength={MAX_REPORT_DETAILS_LENGTH}
+          />
+
+          <TouchableOpacity
+            style={[styles.submitButton, (!reason || submitting) && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={!reason || submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.submitButtonText}>Send Report</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  reasonText: {
+    fontSize: 15,
+    color: '#333',
+    marginLeft: 10,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  submitButton: {
+    backgroundColor: '#ff4757',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ReportModal;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity
+} from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import {
+  CompatibilityBreakdown,
+  CompatibilityFactorKey,
+  TIER_LABELS
+} from '@/utils/compatibility';
+
+const FACTOR_ICONS: Record<CompatibilityFactorKey, keyof typeof MaterialIcons.glyphMap> = {
+  sharedInterests: 'favorite',
+  relatedInterests: 'category',
+  lookingFor: 'search',
+  age: 'cake',
+  activity: 'access-time',
+  distance: 'place'
+};
+
+interface MatchBreakdownProps {
+  breakdown: CompatibilityBreakdown;
+  color?: string;
+  initiallyExpanded?: boolean;
+}
+
+/**
+ * Expandable explanation of how a compatibility score was reached
+ */
+const MatchBreakdown: React.FC<MatchBreakdownProps> = ({
+  breakdown,
+  color = '#6C5CE7',
+  initiallyExpanded = false
+}) => {
+  const [expanded, setExpanded] = useState(initiallyExpanded);
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded(!expanded)}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.headerText}>
+          Why {TIER_LABELS[breakdown.tier]}? ({breakdown.score}% match)
+        </Text>
+        <MaterialIcons
+          name={expanded ? 'expand-less' : 'expand-more'}
+          size={22}
+          color="#666"
+        />
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={styles.factors}>
+          {breakdown.factors.map(factor => (
+            <View key={factor.key} style={styles.factorRow}>
+              <MaterialIcons name={FACTOR_ICONS[factor.key]} size={18} color={color} />
+              <View style={styles.factorBody}>
+                <View style={styles.factorHeader}>
+                  <Text style={styles.factorLabel}>{factor.label}</Text>
+                  <Text style={[styles.factorPoints, factor.points === null && styles.factorPointsMuted]}>
+                    {factor.points === null ? '—' : `+${Math.round(factor.points)}`}
+                  </Text>
+                </View>
+                <Text style={styles.factorDetail}>{factor.detail}</Text>
+              </View>
+            </View>
+          ))}
+
+          <Text style={styles.footerText}>
+            {breakdown.nextTier
+              ? `${breakdown.nextTier.pointsNeeded} more points would make this a ${TIER_LABELS[breakdown.nextTier.tier]} match`
+              : 'This is the highest tier'}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  factors: {
+    marginTop: 8,
+  },
+  factorRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e0e0e0',
+  },
+  factorBody: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  factorHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  factorLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  factorPoints: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  factorPointsMuted: {
+    color: '#bbb',
+  },
+  factorDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  footerText: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+});
+
+export default MatchBreakdown;
@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Switch
+} from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import {
+  VisibilitySchedule,
+  VisibilityWindow,
+  VisibilityStatus,
+  DAY_LABELS,
+  WEEKDAYS,
+  WINDOW_PRESETS,
+  formatMinutes,
+  formatWindow,
+  describeVisibilityStatus
+} from '@/utils/visibilitySchedule';
+
+// Step for the custom window start/end (minutes)
+const TIME_STEP = 30;
+const MINUTES_PER_DAY = 24 * 60;
+
+interface VisibilityScheduleEditorProps {
+  schedule: VisibilitySchedule;
+  status: VisibilityStatus;
+  onChange: (schedule: VisibilitySchedule) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Editor for the windows a user is visible in, plus the current ghost mode
+ */
+const VisibilityScheduleEditor: React.FC<VisibilityScheduleEditorProps> = ({
+  schedule,
+  status,
+  onChange,
+  disabled = false
+}) => {
+  const [showCustom, setShowCustom] = useState(false);
+  const [customWindow, setCustomWindow] = useState<VisibilityWindow>({
+    days: WEEKDAYS,
+    start: 9 * 60,
+    end: 17 * 60
+  });
+
+  const addWindow = (window: VisibilityWindow) => {
+    onChange({ ...schedule, enabled: true, windows: [...schedule.windows, window] });
+  };
+
+  const removeWindow = (index: number) => {
+    onChange({ ...schedule, windows: schedule.windows.filter((_, i) => i !== index) });
+  };
+
+  const toggleCustomDay = (day: number) => {
+    setCustomWindow(prev => ({
+      ...prev,
+      days: prev.days.includes(day)
+        ? prev.days.filter(d => d !== day)
+        : [...prev.days, day].sort()
+    }));
+  };
+
+  // Step a time, wrapping around midnight
+  const stepTime = (field: 'start' | 'end', delta: number) => {
+    setCustomWindow(prev => ({
+      ...prev,
+      [field]: (prev[field] + delta + MINUTES_PER_DAY) % MINUTES_PER_DAY
+    }));
+  };
+
+  const handleAddCustom = () => {
+    if (customWindow.days.length === 0) return;
+    addWindow(customWindow);
+    setShowCustom(false);
+  };
+
+  const renderTimeStepper = (field: 'start' | 'end', label: string) => (
+    <View style={styles.stepper}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+      <View style={styles.stepperControls}>
+        <TouchableOpacity onPress={() => stepTime(field, -TIME_STEP)} style={styles.stepperButton}>
+          <MaterialIcons name="remove" size={16} color="#6C5CE7" />
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{formatMinutes(customWindow[field])}</Text>
+        <TouchableOpacity onPress={() => stepTime(field, TIME_STEP)} style={styles.stepperButton}>
+          <MaterialIcons name="add" size={16} color="#6C5CE7" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View>
+      <View style={styles.headerRow}>
+        <View style={styles.labelContainer}>
+          <MaterialIcons name="schedule" size={20} color="#6C5CE7" />
+          <Text style={styles.label}>Visibility Schedule</Text>
+        </View>
+        <Switch
+          value={schedule.enabled}
+          onValueChange={(value) => onChange({ ...schedule, enabled: value })}
+          trackColor={{ false: '#e0e0e0', true: '#a29bfe' }}
+          thumbColor={schedule.enabled ? '#6C5CE7' : '#f4f3f4'}
+          ios_backgroundColor="#e0e0e0"
+          disabled={disabled}
+        />
+      </View>
+      <Text style={styles.description}>
+        {schedule.enabled
+          ? 'You are only visible during these times'
+          : 'You are visible whenever Location Visibility is on'}
+      </Text>
+
+      {/* Current mode, including ghost mode started from the map */}
+      <View style={styles.statusRow}>
+        <Text style={styles.statusText}>{describeVisibilityStatus(status)}</Text>
+        {status.mode === 'ghost' && (
+          <TouchableOpacity
+            onPress={() => onChange({ ...schedule, ghostUntil: null })}
+            disabled={disabled}
+          >
+            <Text style={styles.linkText}>End ghost mode</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {schedule.enabled && (
+        <>
+          {schedule.windows.length === 0 && (
+            <Text style={styles.emptyText}>
+              No windows yet. You'll stay hidden until you add one.
+            </Text>
+          )}
+
+          {schedule.windows.map((window, index) => (
+            <View key={`${index}-${formatWindow(window)}`} style={styles.windowRow}>
+              <Text style={styles.windowText}>{formatWindow(window)}</Text>
+              <TouchableOpacity onPress={() => removeWindow(index)} disabled={disabled}>
+                <MaterialIcons name="close" size={18} color="#999" />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <View style={styles.chipRow}>
+            {WINDOW_PRESETS.map(preset => (
+              <TouchableOpacity
+                key={preset.label}
+                style={styles.chip}
+                onPress={() => addWindow(preset.window)}
+                disabled={disabled}
+              >
+                <Text style={styles.chipText}>{preset.label}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              style={styles.chip}
+              onPress={() => setShowCustom(!showCustom)}
+              disabled={disabled}
+            >
+              <Text style={styles.chipText}>Custom...</Text>
+            </TouchableOpacity>
+          </View>
+
+          {showCustom && (
+            <View style={styles.customContainer}>
+              <View style={styles.chipRow}>
+                {DAY_LABELS.map((dayLabel, day) => (
+                  <TouchableOpacity
+                    key={dayLabel}
+                    style={[
+                      styles.dayChip,
+                      customWindow.days.includes(day) && styles.dayChipSelected
+                    ]}
+                    onPress={() => toggleCustomDay(day)}
+                  >
+                    <Text
+                      style={[
+                        styles.dayChipText,
+                        customWindow.days.includes(day) && styles.dayChipTextSelected
+                      ]}
+                    >
+                      {dayLabel}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {renderTimeStepper('start', 'From')}
+              {renderTimeStepper('end', 'Until')}
+
+              <TouchableOpacity
+                style={[
+                  styles.addButton,
+                  customWindow.days.length === 0 && styles.addButtonDisabled
+                ]}
+                onPress={handleAddCustom}
+                disabled={disabled || customWindow.days.length === 0}
+              >
+                <Text style={styles.addButtonText}>Add Window</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  labelContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 8,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  statusText: {
+    fontSize: 13,
+    color: '#6C5CE7',
+    fontWeight: '600',
+  },
+  linkText: {
+    fontSize: 13,
+    color: '#6C5CE7',
+    textDecorationLine: 'underline',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#999',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  windowRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e0e0e0',
+  },
+  windowText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 10,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#a29bfe',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#6C5CE7',
+  },
+  customContainer: {
+    backgroundColor: '#f8f7ff',
+    borderRadius: 10,
+    padding: 10,
+    marginTop: 4,
+  },
+  dayChip: {
+    width: 40,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#eee',
+    alignItems: 'center',
+    marginRight: 4,
+    marginBottom: 6,
+  },
+  dayChipSelected: {
+    backgroundColor: '#6C5CE7',
+  },
+  dayChipText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  dayChipTextSelected: {
+    color: '#fff',
+  },
+  stepper: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  stepperLabel: {
+    fontSize: 14,
+    color: '#333',
+  },
+  stepperControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    padding: 6,
+  },
+  stepperValue: {
+    width: 80,
+    textAlign: 'center',
+    fontSize: 14,
+    color: '#333',
+  },
+  addButton: {
+    backgroundColor: '#6C5CE7',
+    borderRadius: 8,
+    paddingVertical: 8,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
+
+export default VisibilityScheduleEditor;
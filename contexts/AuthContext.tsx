@@ -1,10 +1,26 @@
 import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import { onAuthStateChanged } from '@firebase/auth';
-import { doc, getDoc } from '@firebase/firestore';
+import { doc, getDoc, onSnapshot, updateDoc } from '@firebase/firestore';
 import { auth, db } from '../config/firebase';
 import { useProtectedRoute } from './useProtectedRoute';
 import { useRouter, useSegments, usePathname } from 'expo-router';
-import { Platform } from 'react-native';
+import { Alert, Platform } from 'react-native';
+import {
+  INTEREST_TAXONOMY_VERSION,
+  canonicalizeInterests,
+  isCanonicalInterestList
+} from '../utils/interestTaxonomy';
+import {
+  CONNECTION_PAIRS_VERSION,
+  migrateLegacyConnectionRequests
+} from '../utils/connectionRequests';
+import {
+  SUSPENDED_MESSAGE,
+  WARNING_MESSAGE,
+  getModerationStatus,
+  acknowledgeWarnings
+} from '../utils/reports';
+import { updateLocationVisibility } from '../utils/locations';
 
 // Define types
 type User = {
@@ -41,6 +57,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const segments = useSegments();
   const authCheckComplete = useRef(false);
   const isNavigating = useRef(false);
+  // Warnings already on screen, so each one is only shown once
+  const warningsShown = useRef(0);
 
   // Debug logging
   useEffect(() => {
@@ -69,7 +87,31 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const userDocRef = doc(db, 'users', uid);
       const userDoc = await getDoc(userDocRef);
       if (userDoc.exists()) {
-        setUserData(userDoc.data());
+        const data = userDoc.data();
+        
+        // Move interests saved as free text over to canonical IDs
+        if ((data.interestsVersion || 0) < INTEREST_TAXONOMY_VERSION || !isCanonicalInterestList(data.interests)) {
+          data.interests = canonicalizeInterests(data.interests);
+          data.interestsVersion = INTEREST_TAXONOMY_VERSION;
+          updateDoc(userDocRef, {
+            interests: data.interests,
+            interestsVersion: INTEREST_TAXONOMY_VERSION
+          }).catch(error => {
+            console.error('Error migrating interests:', error);
+          });
+        }
+        
+        // Fold connection requests from before pair IDs onto one doc per pair
+        if ((data.connectionPairsVersion || 0) < CONNECTION_PAIRS_VERSION) {
+          data.connectionPairsVersion = CONNECTION_PAIRS_VERSION;
+          migrateLegacyConnectionRequests(uid)
+            .then(() => updateDoc(userDocRef, { connectionPairsVersion: CONNECTION_PAIRS_VERSION }))
+            .catch(error => {
+              console.error('Error migrating connection requests:', error);
+            });
+        }
+        
+        setUserData(data);
       } else {
         console.log('No user data found in Firestore');
       }
@@ -208,6 +250,49 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [loading, pathname, segments, user]);
 
+  // Apply moderation as it happens: a suspension takes the user off the map
+  // and signs them out, and a new warning is shown to them once
+  useEffect(() => {
+    if (!user?.uid) return;
+    const uid = user.uid;
+    warningsShown.current = 0;
+    
+    const unsubscribe = onSnapshot(doc(db, 'users', uid), async (snapshot) => {
+      const moderation = snapshot.data()?.moderation;
+      setUserData((current: any) => (current ? { ...current, moderation } : current));
+      
+      const status = getModerationStatus({ moderation });
+      if (status.suspended) {
+        try {
+          await updateLocationVisibility(uid, false);
+        } catch (error) {
+          console.error('Error hiding suspended user:', error);
+        }
+        Alert.alert('Account suspended', SUSPENDED_MESSAGE);
+        await signOut();
+        return;
+      }
+      
+      if (status.warnings > status.warningsSeen && status.warnings > warningsShown.current) {
+        warningsShown.current = status.warnings;
+        Alert.alert('Warning from a moderator', WARNING_MESSAGE, [
+          {
+            text: 'OK',
+            onPress: () => {
+              acknowledgeWarnings(uid, status.warnings).catch(error => {
+                console.error('Error acknowledging warning:', error);
+              });
+            }
+          }
+        ]);
+      }
+    }, (error) => {
+      console.error('Error listening to moderation status:', error);
+    });
+    
+    return () => unsubscribe();
+  }, [user?.uid]);
+
   // Use the protected route hook
   useProtectedRoute(user);
 
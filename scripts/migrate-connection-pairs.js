@@ -0,0 +1,182 @@
+/**
+ * Move connection requests onto one doc per pair of users
+ *
+ * Runs against the Firestore emulator:
+ *
+ *   firebase emulators:start --only firestore
+ *   npm run migrate-connection-pairs -- --dry-run
+ *
+ * The emulator host comes from FIRESTORE_EMULATOR_HOST (default 127.0.0.1:8080).
+ * Requests used to get auto IDs, so a pair could have several. Each pair keeps
+ * the one that matters most (accepted, then live pending, then declined, then
+ * expired) under the sorted-uid ID and the rest are deleted. Existing blocks
+ * get a blocked relationship. The rules must match utils/connectionRequests.ts
+ * and utils/blocks.ts, where migrateLegacyConnectionRequests does the same for
+ * each user at sign-in, so a project this script can't reach still migrates.
+ */
+
+const { initializeApp } = require('@firebase/app');
+const {
+  getFirestore,
+  connectFirestoreEmulator,
+  collection,
+  doc,
+  getDocs,
+  writeBatch,
+  terminate
+} = require('@firebase/firestore');
+
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 500;
+
+// Must match DEFAULT_REQUEST_EXPIRY_DAYS in utils/connectionRequests.ts
+const DEFAULT_REQUEST_EXPIRY_DAYS = 7;
+const DAY = 24 * 60 * 60 * 1000;
+
+const PROJECT_ID = process.env.GCLOUD_PROJECT || 'hivesocial-75456';
+const EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+const DRY_RUN = process.argv.includes('--dry-run');
+
+const getPairId = (uid, otherUid) => [uid, otherUid].sort().join('_');
+
+const toMillis = (value) => (value && typeof value.toMillis === 'function' ? value.toMillis() : null);
+
+const isExpired = (data, now) => {
+  const expiresAt = toMillis(data.expiresAt);
+  if (expiresAt !== null) return expiresAt <= now;
+  const sentAt = toMillis(data.timestamp);
+  return sentAt !== null && sentAt + DEFAULT_REQUEST_EXPIRY_DAYS * DAY <= now;
+};
+
+/**
+ * Lower is kept first; ties go to the doc already under the pair ID, then the
+ * earliest accepted or most recently sent
+ */
+const rank = (data, now) => {
+  if (data.status === 'accepted') return 0;
+  if (data.status === 'blocked') return 1;
+  if (data.status === 'pending' && !isExpired(data, now)) return 2;
+  if (data.status === 'declined') return 3;
+  return 4;
+};
+
+const pickKeeper = (requests, pairId, now) => {
+  return [...requests].sort((a, b) => {
+    const byRank = rank(a.data, now) - rank(b.data, now);
+    if (byRank !== 0) return byRank;
+    if ((a.id === pairId) !== (b.id === pairId)) return a.id === pairId ? -1 : 1;
+    if (a.data.status === 'accepted') {
+      return (toMillis(a.data.acceptedAt) || 0) - (toMillis(b.data.acceptedAt) || 0);
+    }
+    return (toMillis(b.data.timestamp) || 0) - (toMillis(a.data.timestamp) || 0);
+  })[0];
+};
+
+const migrateConnectionPairs = async () => {
+  const [host, port] = EMULATOR_HOST.split(':');
+
+  const app = initializeApp({ projectId: PROJECT_ID });
+  const db = getFirestore(app);
+  connectFirestoreEmulator(db, host, Number(port));
+
+  console.log(`Migrating connection requests in ${PROJECT_ID} on ${EMULATOR_HOST}${DRY_RUN ? ' (dry run)' : ''}`);
+
+  const now = Date.now();
+  const [requestsSnapshot, blocksSnapshot] = await Promise.all([
+    getDocs(collection(db, 'connectionRequests')),
+    getDocs(collection(db, 'blocks'))
+  ]);
+
+  // Requests grouped by the pair they belong to
+  const pairs = new Map();
+  requestsSnapshot.forEach(requestDoc => {
+    const data = requestDoc.data();
+    const [uid, otherUid] = data.participants || [data.senderId, data.receiverId];
+    if (!uid || !otherUid) {
+      console.log(`  Skipping ${requestDoc.id}: no users on it`);
+      return;
+    }
+    const pairId = getPairId(uid, otherUid);
+    if (!pairs.has(pairId)) pairs.set(pairId, []);
+    pairs.get(pairId).push({ id: requestDoc.id, data });
+  });
+
+  // Each write is { type: 'set' | 'update' | 'delete', path, data }
+  const writes = [];
+  const kept = new Map();
+  let duplicates = 0;
+
+  pairs.forEach((requests, pairId) => {
+    const keeper = pickKeeper(requests, pairId, now);
+    kept.set(pairId, keeper.data);
+    if (requests.length === 1 && keeper.id === pairId) return;
+
+    duplicates += requests.length - 1;
+    if (keeper.id !== pairId) {
+      const [senderId, receiverId] = [keeper.data.senderId, keeper.data.receiverId];
+      writes.push({
+        type: 'set',
+        path: ['connectionRequests', pairId],
+        data: { ...keeper.data, participants: keeper.data.participants || [senderId, receiverId] }
+      });
+    }
+    requests
+      .filter(request => request.id !== pairId)
+      .forEach(request => writes.push({ type: 'delete', path: ['connectionRequests', request.id] }));
+
+    // The chat room keeps its ID but should point at the new relationship doc
+    if (keeper.data.status === 'accepted' && keeper.data.chatRoomId) {
+      writes.push({ type: 'update', path: ['chatRooms', keeper.data.chatRoomId], data: { connectionId: pairId } });
+    }
+  });
+
+  let blocked = 0;
+  blocksSnapshot.forEach(blockDoc => {
+    const { blockerId, blockedId, createdAt } = blockDoc.data();
+    const pairId = getPairId(blockerId, blockedId);
+    const current = kept.get(pairId);
+    // Accepted connections stay put while blocked, as in utils/blocks.ts
+    if (current && (current.status === 'accepted' || current.status === 'blocked')) return;
+
+    const relationship = {
+      participants: [blockerId, blockedId],
+      status: 'blocked',
+      blockedBy: blockerId,
+      blockedAt: createdAt || null,
+      ...(current && current.chatRoomId ? { chatRoomId: current.chatRoomId } : {})
+    };
+    kept.set(pairId, relationship);
+    writes.push({ type: 'set', path: ['connectionRequests', pairId], data: relationship });
+    blocked++;
+  });
+
+  console.log(`${requestsSnapshot.size} requests across ${pairs.size} pairs, ${duplicates} to fold away`);
+  console.log(`${blocked} blocks need a blocked relationship, ${writes.length} writes in total`);
+
+  if (DRY_RUN) {
+    writes.slice(0, 20).forEach(({ type, path, data }) => {
+      console.log(`  ${type} ${path.join('/')}${data ? ` ${data.status || JSON.stringify(data)}` : ''}`);
+    });
+  } else {
+    for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      writes.slice(i, i + BATCH_SIZE).forEach(({ type, path, data }) => {
+        const ref = doc(db, ...path);
+        if (type === 'set') batch.set(ref, data);
+        else if (type === 'update') batch.update(ref, data);
+        else batch.delete(ref);
+      });
+      await batch.commit();
+      console.log(`Wrote ${Math.min(i + BATCH_SIZE, writes.length)} of ${writes.length}`);
+    }
+  }
+
+  await terminate(db);
+};
+
+migrateConnectionPairs()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Error migrating connection requests:', error);
+    process.exit(1);
+  });
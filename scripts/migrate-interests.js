@@ -0,0 +1,126 @@
+/**
+ * Rewrite profile interests as canonical taxonomy IDs
+ *
+ * Runs against the Firestore emulator:
+ *
+ *   firebase emulators:start --only firestore
+ *   npm run migrate-interests -- --dry-run
+ *
+ * The emulator host comes from FIRESTORE_EMULATOR_HOST (default 127.0.0.1:8080).
+ * Profiles are also migrated one at a time when their owner signs in; this
+ * catches everyone else. The canonicalization rules must match
+ * utils/interestTaxonomy.ts.
+ */
+
+const { initializeApp } = require('@firebase/app');
+const {
+  getFirestore,
+  connectFirestoreEmulator,
+  collection,
+  getDocs,
+  writeBatch,
+  terminate
+} = require('@firebase/firestore');
+const taxonomy = require('../constants/interestTaxonomy.json');
+
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 500;
+
+const PROJECT_ID = process.env.GCLOUD_PROJECT || 'hivesocial-75456';
+const EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+const DRY_RUN = process.argv.includes('--dry-run');
+
+/**
+ * Lowercase, strip accents and punctuation and collapse whitespace
+ */
+const normalizeInterestText = (text) => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+// Every known spelling (normalized) mapped to its canonical ID
+const LOOKUP = {};
+Object.keys(taxonomy.interests).forEach(id => {
+  const { label, synonyms } = taxonomy.interests[id];
+  [id, label, ...synonyms].forEach(spelling => {
+    LOOKUP[normalizeInterestText(spelling)] = id;
+  });
+});
+
+const singularForms = (text) => {
+  const forms = [];
+  if (text.endsWith('ies')) forms.push(`${text.slice(0, -3)}y`);
+  if (text.endsWith('es')) forms.push(text.slice(0, -2));
+  if (text.endsWith('s')) forms.push(text.slice(0, -1));
+  return forms;
+};
+
+const canonicalizeInterest = (text) => {
+  if (typeof text !== 'string') return null;
+
+  const normalized = normalizeInterestText(text);
+  if (!normalized) return null;
+
+  const known = LOOKUP[normalized] || singularForms(normalized).map(form => LOOKUP[form]).find(Boolean);
+  return known || normalized.replace(/ /g, '-');
+};
+
+const canonicalizeInterests = (interests) => {
+  if (!Array.isArray(interests)) return [];
+  return [...new Set(interests.map(canonicalizeInterest).filter(Boolean))];
+};
+
+const migrateInterests = async () => {
+  const [host, port] = EMULATOR_HOST.split(':');
+
+  const app = initializeApp({ projectId: PROJECT_ID });
+  const db = getFirestore(app);
+  connectFirestoreEmulator(db, host, Number(port));
+
+  console.log(`Migrating interests in ${PROJECT_ID} on ${EMULATOR_HOST}${DRY_RUN ? ' (dry run)' : ''}`);
+
+  const snapshot = await getDocs(collection(db, 'users'));
+  const updates = [];
+
+  snapshot.forEach(userDoc => {
+    const data = userDoc.data();
+    const interests = canonicalizeInterests(data.interests);
+    const unchanged = Array.isArray(data.interests) &&
+      interests.length === data.interests.length &&
+      interests.every((id, i) => id === data.interests[i]);
+
+    if (!unchanged || (data.interestsVersion || 0) < taxonomy.version) {
+      updates.push({ ref: userDoc.ref, interests, before: data.interests || [] });
+    }
+  });
+
+  console.log(`${updates.length} of ${snapshot.size} profiles need migrating`);
+  if (DRY_RUN) {
+    updates.slice(0, 20).forEach(({ ref, before, interests }) => {
+      console.log(`  ${ref.id}: ${JSON.stringify(before)} -> ${JSON.stringify(interests)}`);
+    });
+  } else {
+    for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      updates.slice(i, i + BATCH_SIZE).forEach(({ ref, interests }) => {
+        batch.update(ref, { interests, interestsVersion: taxonomy.version });
+      });
+      await batch.commit();
+      console.log(`Migrated ${Math.min(i + BATCH_SIZE, updates.length)} of ${updates.length}`);
+    }
+  }
+
+  await terminate(db);
+};
+
+migrateInterests()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Error migrating interests:', error);
+    process.exit(1);
+  });
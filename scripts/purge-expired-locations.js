@@ -0,0 +1,107 @@
+/**
+ * Delete expired `locations` docs
+ *
+ * Runs against the Firestore emulator:
+ *
+ *   firebase emulators:start --only firestore
+ *   npm run purge-locations -- --dry-run
+ *
+ * The emulator host comes from FIRESTORE_EMULATOR_HOST (default 127.0.0.1:8080).
+ * A doc is expired once its `expiresAt` has passed; docs written before
+ * expiry existed are expired LOCATION_TTL after their `timestamp`. Keep these
+ * rules in sync with utils/locationFreshness.ts.
+ */
+
+const { initializeApp } = require('@firebase/app');
+const {
+  getFirestore,
+  connectFirestoreEmulator,
+  collection,
+  query,
+  where,
+  getDocs,
+  writeBatch,
+  Timestamp,
+  terminate
+} = require('@firebase/firestore');
+
+// Must match LOCATION_TTL in utils/locationFreshness.ts
+const LOCATION_TTL = 30 * 60 * 1000;
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 500;
+
+const PROJECT_ID = process.env.GCLOUD_PROJECT || 'hivesocial-75456';
+const EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+const DRY_RUN = process.argv.includes('--dry-run');
+
+/**
+ * Read a Firestore Timestamp or Date as epoch millis
+ */
+const toMillis = (value) => {
+  if (!value) return null;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return null;
+};
+
+/**
+ * Check whether a location doc is past its expiry
+ */
+const isExpired = (data, now) => {
+  const expiresAt = toMillis(data.expiresAt);
+  if (expiresAt !== null) return expiresAt <= now;
+
+  const updatedAt = toMillis(data.timestamp);
+  // Without any timestamp there's no telling how old it is
+  return updatedAt === null || updatedAt + LOCATION_TTL <= now;
+};
+
+const purgeExpiredLocations = async () => {
+  const [host, port] = EMULATOR_HOST.split(':');
+
+  const app = initializeApp({ projectId: PROJECT_ID });
+  const db = getFirestore(app);
+  connectFirestoreEmulator(db, host, Number(port));
+
+  console.log(`Purging expired locations in ${PROJECT_ID} on ${EMULATOR_HOST}${DRY_RUN ? ' (dry run)' : ''}`);
+
+  const now = Date.now();
+  const locationsRef = collection(db, 'locations');
+
+  // Docs with an expiry only need the ones that have passed; older docs
+  // without one have to be scanned and checked by their write time
+  const [expiredSnapshot, allSnapshot] = await Promise.all([
+    getDocs(query(locationsRef, where('expiresAt', '<=', Timestamp.fromMillis(now)))),
+    getDocs(locationsRef)
+  ]);
+
+  const expiredRefs = new Map();
+  expiredSnapshot.forEach(locationDoc => expiredRefs.set(locationDoc.id, locationDoc.ref));
+  allSnapshot.forEach(locationDoc => {
+    const data = locationDoc.data();
+    if (!data.expiresAt && isExpired(data, now)) {
+      expiredRefs.set(locationDoc.id, locationDoc.ref);
+    }
+  });
+
+  console.log(`Found ${expiredRefs.size} expired of ${allSnapshot.size} location docs`);
+
+  if (!DRY_RUN) {
+    const refs = Array.from(expiredRefs.values());
+    for (let i = 0; i < refs.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      refs.slice(i, i + BATCH_SIZE).forEach(ref => batch.delete(ref));
+      await batch.commit();
+      console.log(`Deleted ${Math.min(i + BATCH_SIZE, refs.length)} of ${refs.length}`);
+    }
+  }
+
+  await terminate(db);
+};
+
+purgeExpiredLocations()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Error purging expired locations:', error);
+    process.exit(1);
+  });
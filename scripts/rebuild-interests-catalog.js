@@ -0,0 +1,109 @@
+/**
+ * Recount the `interests` catalog from user profiles
+ *
+ * Runs against the Firestore emulator:
+ *
+ *   firebase emulators:start --only firestore
+ *   npm run rebuild-interests -- --dry-run
+ *
+ * The emulator host comes from FIRESTORE_EMULATOR_HOST (default 127.0.0.1:8080).
+ * Counts are normally kept up to date by the profile writes themselves; use
+ * this to seed the catalog or fix drift. Run `npm run migrate-interests`
+ * first so every profile holds canonical IDs.
+ */
+
+const { initializeApp } = require('@firebase/app');
+const {
+  getFirestore,
+  connectFirestoreEmulator,
+  collection,
+  doc,
+  getDocs,
+  writeBatch,
+  Timestamp,
+  terminate
+} = require('@firebase/firestore');
+const taxonomy = require('../constants/interestTaxonomy.json');
+
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 500;
+
+const PROJECT_ID = process.env.GCLOUD_PROJECT || 'hivesocial-75456';
+const EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// Same fallback as getInterestLabel in utils/interestTaxonomy.ts
+const getInterestLabel = (id) => {
+  if (taxonomy.interests[id]) return taxonomy.interests[id].label;
+  return id
+    .split('-')
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+const rebuildCatalog = async () => {
+  const [host, port] = EMULATOR_HOST.split(':');
+
+  const app = initializeApp({ projectId: PROJECT_ID });
+  const db = getFirestore(app);
+  connectFirestoreEmulator(db, host, Number(port));
+
+  console.log(`Rebuilding interests catalog in ${PROJECT_ID} on ${EMULATOR_HOST}${DRY_RUN ? ' (dry run)' : ''}`);
+
+  const [usersSnapshot, catalogSnapshot] = await Promise.all([
+    getDocs(collection(db, 'users')),
+    getDocs(collection(db, 'interests'))
+  ]);
+
+  const counts = {};
+  usersSnapshot.forEach(userDoc => {
+    const interests = userDoc.data().interests;
+    if (!Array.isArray(interests)) return;
+    new Set(interests).forEach(id => {
+      counts[id] = (counts[id] || 0) + 1;
+    });
+  });
+
+  // Entries nobody has any more are zeroed so cached clients drop them
+  catalogSnapshot.forEach(interestDoc => {
+    if (!(interestDoc.id in counts) && (interestDoc.data().count || 0) !== 0) {
+      counts[interestDoc.id] = 0;
+    }
+  });
+
+  const ids = Object.keys(counts);
+  console.log(`${usersSnapshot.size} profiles, ${ids.filter(id => counts[id] > 0).length} interests in use`);
+
+  if (DRY_RUN) {
+    ids
+      .sort((a, b) => counts[b] - counts[a])
+      .slice(0, 20)
+      .forEach(id => console.log(`  ${id}: ${counts[id]}`));
+  } else {
+    const updatedAt = Timestamp.now();
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      ids.slice(i, i + BATCH_SIZE).forEach(id => {
+        batch.set(doc(db, 'interests', id), {
+          id,
+          label: getInterestLabel(id),
+          category: taxonomy.interests[id] ? taxonomy.interests[id].category : null,
+          count: counts[id],
+          updatedAt
+        });
+      });
+      await batch.commit();
+      console.log(`Wrote ${Math.min(i + BATCH_SIZE, ids.length)} of ${ids.length}`);
+    }
+  }
+
+  await terminate(db);
+};
+
+rebuildCatalog()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Error rebuilding interests catalog:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,116 @@
+/**
+ * Give a user the moderator role claim, or take it away
+ *
+ * Runs against the Auth emulator by default:
+ *
+ *   firebase emulators:start --only auth,firestore
+ *   npm run set-moderator -- <uid>
+ *   npm run set-moderator -- <uid> --revoke
+ *
+ * The emulator host comes from FIREBASE_AUTH_EMULATOR_HOST (default
+ * 127.0.0.1:9099). To change a real project, point
+ * GOOGLE_APPLICATION_CREDENTIALS at a service account key for it; the claim is
+ * then set with firebase-admin:
+ *
+ *   GOOGLE_APPLICATION_CREDENTIALS=./service-account.json npm run set-moderator -- <uid>
+ *
+ * The claim is `role: 'moderator'`. It is read by utils/reports.ts, and the
+ * Firestore rules for `reports` have to check the same thing, e.g.
+ *
+ *   allow read, update: if request.auth.token.role == 'moderator';
+ *
+ * The user picks it up the next time their token refreshes, e.g. when
+ * opening Settings.
+ */
+
+// Must match MODERATOR_ROLE in utils/reports.ts
+const MODERATOR_ROLE = 'moderator';
+
+const PROJECT_ID = process.env.GCLOUD_PROJECT || 'hivesocial-75456';
+const AUTH_EMULATOR_HOST = process.env.FIREBASE_AUTH_EMULATOR_HOST || '127.0.0.1:9099';
+const CREDENTIALS = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+const REVOKE = process.argv.includes('--revoke');
+const UID = process.argv.slice(2).find(arg => !arg.startsWith('--'));
+
+/**
+ * The user's claims with the moderator role added or removed
+ */
+const withModeratorRole = (claims) => {
+  const next = { ...claims };
+  if (REVOKE) {
+    delete next.role;
+  } else {
+    next.role = MODERATOR_ROLE;
+  }
+  return next;
+};
+
+/**
+ * Set the claim on a real project with the service account's credentials
+ */
+const setModeratorInProject = async () => {
+  const { initializeApp, applicationDefault } = require('firebase-admin/app');
+  const { getAuth } = require('firebase-admin/auth');
+
+  const app = initializeApp({ credential: applicationDefault() });
+  const auth = getAuth(app);
+
+  // Keep any other claims the user already has
+  const user = await auth.getUser(UID);
+  await auth.setCustomUserClaims(UID, withModeratorRole(user.customClaims || {}));
+
+  console.log(`${REVOKE ? 'Removed' : 'Granted'} moderator role for ${UID} with ${CREDENTIALS}`);
+};
+
+/**
+ * Set the claim on the Auth emulator through its REST API
+ */
+const setModeratorInEmulator = async () => {
+  const baseUrl = `http://${AUTH_EMULATOR_HOST}/identitytoolkit.googleapis.com/v1/projects/${PROJECT_ID}`;
+  // The emulator accepts "owner" in place of an admin access token
+  const headers = { 'Content-Type': 'application/json', Authorization: 'Bearer owner' };
+
+  // Keep any other claims the user already has
+  const lookup = await fetch(`${baseUrl}/accounts:lookup`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ localId: [UID] })
+  });
+  const { users } = await lookup.json();
+  if (!users || users.length === 0) {
+    throw new Error(`No user with uid ${UID} in ${PROJECT_ID}`);
+  }
+
+  const claims = withModeratorRole(users[0].customAttributes ? JSON.parse(users[0].customAttributes) : {});
+
+  const update = await fetch(`${baseUrl}/accounts:update`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ localId: UID, customAttributes: JSON.stringify(claims) })
+  });
+  if (!update.ok) {
+    throw new Error(`Updating claims failed: ${update.status} ${await update.text()}`);
+  }
+
+  console.log(`${REVOKE ? 'Removed' : 'Granted'} moderator role for ${UID} on ${AUTH_EMULATOR_HOST}`);
+};
+
+const setModerator = async () => {
+  if (!UID) {
+    console.error('Usage: npm run set-moderator -- <uid> [--revoke]');
+    process.exit(1);
+  }
+
+  if (CREDENTIALS) {
+    await setModeratorInProject();
+  } else {
+    await setModeratorInEmulator();
+  }
+};
+
+setModerator()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Error setting moderator role:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,84 @@
+// A small in-memory Firestore, enough for the transactions in these modules
+jest.mock('@firebase/firestore', () => {
+  const store = new Map();
+  const toRef = (path) => ({ path, id: path.split('/').pop() });
+  const snapshot = (ref) => ({
+    id: ref.id,
+    exists: () => store.has(ref.path),
+    data: () => (store.has(ref.path) ? { ...store.get(ref.path) } : undefined)
+  });
+
+  return {
+    __store: store,
+    collection: (parent, ...segments) => toRef([parent.path, ...segments].filter(Boolean).join('/')),
+    doc: (parent, ...segments) => toRef([parent.path, ...segments].filter(Boolean).join('/')),
+    serverTimestamp: () => ({ toMillis: () => Date.now() }),
+    Timestamp: { fromMillis: (millis) => ({ toMillis: () => millis }) },
+    runTransaction: async (db, update) => update({
+      get: async (ref) => snapshot(ref),
+      set: (ref, data) => store.set(ref.path, { ...data }),
+      update: (ref, data) => store.set(ref.path, { ...store.get(ref.path), ...data }),
+      delete: (ref) => store.delete(ref.path)
+    })
+  };
+});
+jest.mock('@/config/firebase', () => ({ db: {} }));
+
+import { __store as store } from '@firebase/firestore';
+import { blockUser, unblockUser } from '../blocks';
+import { acceptConnectionRequest, removeConnection, sendConnectionRequest } from '../connectionRequests';
+
+const request = { senderName: 'Bob', tier: 'friend', sharedInterests: [], sharedInterestsCount: 0 };
+
+beforeEach(() => {
+  store.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  console.log.mockRestore();
+});
+
+it(`reopens the same chat after remove, block, unblock and a new request`, async () => {
+  // Connected before pair IDs, so the room isn't named after the pair
+  store.set('connectionRequests/alice_bob', {
+    senderId: 'alice',
+    receiverId: 'bob',
+    participants: ['alice', 'bob'],
+    status: 'accepted',
+    chatRoomId: 'legacy-room'
+  });
+  store.set('chatRooms/legacy-room', { participants: ['alice', 'bob'], lastMessageText: 'See you there' });
+
+  await removeConnection('alice', 'alice_bob');
+  await blockUser('alice', 'bob', 'Bob');
+  expect(store.get('connectionRequests/alice_bob')).toMatchObject({ status: 'blocked', chatRoomId: 'legacy-room' });
+
+  await unblockUser('alice', 'bob');
+  expect(store.get('connectionRequests/alice_bob')).toEqual({
+    participants: ['alice', 'bob'],
+    status: 'removed',
+    chatRoomId: 'legacy-room'
+  });
+
+  expect(await sendConnectionRequest('bob', 'alice', request)).toBe('sent');
+  expect(await acceptConnectionRequest('alice', 'alice_bob')).toEqual({ status: 'accepted', chatRoomId: 'legacy-room' });
+  expect(store.get('chatRooms/legacy-room')).toMatchObject({ archived: false, lastMessageText: 'See you there' });
+  expect(store.has('chatRooms/alice_bob')).toBe(false);
+});
+
+it(`clears a block between people who never had a chat`, async () => {
+  await blockUser('alice', 'bob', 'Bob');
+  await unblockUser('alice', 'bob');
+
+  expect(store.has('connectionRequests/alice_bob')).toBe(false);
+  expect(store.has('blocks/alice_bob')).toBe(false);
+});
+
+it(`keeps the pair blocked while the other person's block lasts`, async () => {
+  await blockUser('alice', 'bob', 'Bob');
+  await blockUser('bob', 'alice', 'Alice');
+  await unblockUser('bob', 'alice');
+
+  expect(store.get('connectionRequests/alice_bob')).toMatchObject({ status: 'blocked', blockedBy: 'alice' });
+});
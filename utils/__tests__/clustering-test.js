@@ -0,0 +1,75 @@
+jest.mock('@/components/maps/EnhancedUserMapMarker', () => ({
+  TIER_RANKING: { soulmate: 5, bestFriend: 4, friend: 3, buddy: 2, casual: 1 }
+}));
+
+import { MAX_CLUSTER_ZOOM, regionToZoom, createClusterIndex } from '../clustering';
+
+const MAP_WIDTH = 400;
+
+const region = (latitudeDelta, longitudeDelta = latitudeDelta) => ({
+  latitude: 51.5,
+  longitude: -0.12,
+  latitudeDelta,
+  longitudeDelta
+});
+
+// A few people within a couple of hundred meters of each other
+const POINTS = [
+  { uid: 'a', latitude: 51.5001, longitude: -0.1201, tier: 'casual' },
+  { uid: 'b', latitude: 51.5003, longitude: -0.1198, tier: 'bestFriend' },
+  { uid: 'c', latitude: 51.4999, longitude: -0.1204 },
+  { uid: 'd', latitude: 51.5005, longitude: -0.1195, tier: 'friend' }
+];
+
+const countAll = ({ clusters, points }) =>
+  clusters.reduce((sum, cluster) => sum + cluster.count, 0) + points.length;
+
+it(`merges nearby markers into one bubble when zoomed out`, () => {
+  const { clusters, points, zoom } = createClusterIndex(POINTS).getClusters(region(2), MAP_WIDTH);
+
+  expect(zoom).toBe(Math.floor(regionToZoom(region(2), MAP_WIDTH)));
+  expect(points).toEqual([]);
+  expect(clusters).toHaveLength(1);
+  expect(clusters[0].count).toBe(4);
+  expect(clusters[0].tier).toBe('bestFriend');
+  expect(clusters[0].members.map(point => point.uid).sort()).toEqual(['a', 'b', 'c', 'd']);
+});
+
+it(`shows every marker on its own past the last cluster level`, () => {
+  const result = createClusterIndex(POINTS).getClusters(region(0.002), MAP_WIDTH);
+
+  expect(result.zoom).toBe(MAX_CLUSTER_ZOOM + 1);
+  expect(result.clusters).toEqual([]);
+  expect(result.points.map(point => point.uid).sort()).toEqual(['a', 'b', 'c', 'd']);
+});
+
+it(`never loses or duplicates a marker at any zoom`, () => {
+  const index = createClusterIndex(POINTS);
+
+  [20, 2, 0.5, 0.1, 0.02, 0.005, 0.002].forEach(delta => {
+    expect(countAll(index.getClusters(region(delta), MAP_WIDTH))).toBe(POINTS.length);
+  });
+});
+
+it(`includes markers up to half a screen off the edge, but no further`, () => {
+  const index = createClusterIndex([
+    // The screen reaches 0.001 north of the center
+    { uid: 'justOff', latitude: 51.5015, longitude: -0.12 },
+    { uid: 'farOff', latitude: 51.5025, longitude: -0.12 }
+  ]);
+
+  const { points } = index.getClusters(region(0.002), MAP_WIDTH);
+
+  expect(points.map(point => point.uid)).toEqual(['justOff']);
+});
+
+it(`expands a cluster to a region around its members`, () => {
+  const index = createClusterIndex(POINTS);
+  const [cluster] = index.getClusters(region(2), MAP_WIDTH).clusters;
+  const expanded = index.getExpansionRegion(cluster);
+
+  POINTS.forEach(point => {
+    expect(Math.abs(point.latitude - expanded.latitude)).toBeLessThanOrEqual(expanded.latitudeDelta / 2);
+    expect(Math.abs(point.longitude - expanded.longitude)).toBeLessThanOrEqual(expanded.longitudeDelta / 2);
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  buildInterestWeights,
+  scoreCompatibility,
+  scorePopulation,
+  getTierForScore
+} from '../compatibility';
+
+const NOW = Date.UTC(2026, 5, 1, 12);
+
+it(`weights rare interests above common ones`, () => {
+  const weights = buildInterestWeights([
+    ['music', 'hiking'],
+    ['music'],
+    ['music', 'Guitarist'],
+    ['music']
+  ]);
+
+  expect(weights.hiking).toBeGreaterThan(weights.music);
+  // Synonyms count towards the canonical interest
+  expect(weights.guitar).toBeCloseTo(weights.hiking);
+  expect(weights.music).toBeCloseTo(Math.log(5 / 5) + 1);
+});
+
+it(`scores a shared niche interest above a shared common one`, () => {
+  const weights = buildInterestWeights([['music', 'hiking'], ['music'], ['music'], ['music', 'climbing']]);
+  const viewer = { interests: ['music', 'hiking'] };
+
+  const niche = scoreCompatibility(viewer, { interests: ['hiking', 'cooking'] }, weights, {}, NOW);
+  const common = scoreCompatibility(viewer, { interests: ['music', 'cooking'] }, weights, {}, NOW);
+
+  expect(niche.matches.sharedInterests).toEqual(['hiking']);
+  expect(niche.components.interests).toBeGreaterThan(common.components.interests);
+});
+
+it(`gives partial credit to interests in the same category`, () => {
+  const weights = buildInterestWeights([['hiking'], ['camping'], ['cooking']]);
+
+  const related = scoreCompatibility({ interests: ['hiking'] }, { interests: ['camping'] }, weights, {}, NOW);
+  const unrelated = scoreCompatibility({ interests: ['hiking'] }, { interests: ['cooking'] }, weights, {}, NOW);
+
+  expect(related.matches.relatedInterests).toEqual([['hiking', 'camping']]);
+  expect(related.matches.relatedShare).toBe(1);
+  expect(related.components.interests).toBeGreaterThan(0);
+  expect(unrelated.components.interests).toBe(0);
+});
+
+it(`leaves out signals nobody filled in`, () => {
+  const result = scoreCompatibility({ interests: ['hiking'] }, { interests: ['hiking'] }, {}, {}, NOW);
+
+  expect(result.components.lookingFor).toBeNull();
+  expect(result.components.age).toBeNull();
+  expect(result.components.activity).toBeNull();
+  expect(result.score).toBe(100);
+  expect(result.tier).toBe('soulmate');
+});
+
+it(`cuts tiers at their thresholds`, () => {
+  expect(getTierForScore(80)).toBe('soulmate');
+  expect(getTierForScore(79)).toBe('bestFriend');
+  expect(getTierForScore(50)).toBe('friend');
+  expect(getTierForScore(35)).toBe('buddy');
+  expect(getTierForScore(0)).toBe('casual');
+});
+
+it(`measures rarity across the viewer and everyone in range`, () => {
+  const viewer = { interests: ['music', 'surfing'] };
+  const [surfer, musician] = scorePopulation(viewer, [
+    { uid: 'a', interests: ['surfing'] },
+    { uid: 'b', interests: ['music'] },
+    { uid: 'c', interests: ['music'] }
+  ], {}, NOW);
+
+  expect(surfer.uid).toBe('a');
+  expect(surfer.compatibility.score).toBeGreaterThan(musician.compatibility.score);
+});
@@ -0,0 +1,70 @@
+jest.mock('@/components/maps/EnhancedUserMapMarker', () => ({
+  TIER_RANKING: { soulmate: 5, bestFriend: 4, friend: 3, buddy: 2, casual: 1 }
+}));
+
+import { matchesConnectionSearch, sortConnections, groupConnectionsByTier } from '../connectionList';
+
+const connection = (otherUserName, overrides = {}) => ({
+  otherUserName,
+  tier: 'casual',
+  sharedInterests: [],
+  otherUserInterests: [],
+  acceptedAt: null,
+  lastMessageAt: null,
+  ...overrides
+});
+
+const names = (connections) => connections.map(item => item.otherUserName);
+
+it(`searches names and interests by the start of each word`, () => {
+  const sam = connection('Sam Rivera', { sharedInterests: ['climbing'], otherUserInterests: ['board-games'] });
+
+  expect(matchesConnectionSearch(sam, '')).toBe(true);
+  expect(matchesConnectionSearch(sam, 'riv')).toBe(true);
+  expect(matchesConnectionSearch(sam, 'sam climb')).toBe(true);
+  expect(matchesConnectionSearch(sam, '  BOARD  ')).toBe(true);
+  // Inside a word doesn't count, and every word has to match
+  expect(matchesConnectionSearch(sam, 'vera')).toBe(false);
+  expect(matchesConnectionSearch(sam, 'sam yoga')).toBe(false);
+});
+
+it(`sorts by tier, then by name`, () => {
+  const sorted = sortConnections([
+    connection('Cleo', { tier: 'friend' }),
+    connection('Ana'),
+    connection('Bea', { tier: 'friend' }),
+    connection('Dev', { tier: 'soulmate' })
+  ], 'tier');
+
+  expect(names(sorted)).toEqual(['Dev', 'Bea', 'Cleo', 'Ana']);
+});
+
+it(`sorts by date with undated connections last, by name`, () => {
+  const connections = [
+    connection('Cleo'),
+    connection('Ana'),
+    connection('Bea', { lastMessageAt: 100, acceptedAt: 300 }),
+    connection('Dev', { lastMessageAt: 200, acceptedAt: 100 })
+  ];
+
+  expect(names(sortConnections(connections, 'recentMessage'))).toEqual(['Dev', 'Bea', 'Ana', 'Cleo']);
+  expect(names(sortConnections(connections, 'recentConnection'))).toEqual(['Bea', 'Dev', 'Ana', 'Cleo']);
+  expect(names(sortConnections(connections, 'name'))).toEqual(['Ana', 'Bea', 'Cleo', 'Dev']);
+  // The list passed in is left alone
+  expect(names(connections)).toEqual(['Cleo', 'Ana', 'Bea', 'Dev']);
+});
+
+it(`groups by tier, highest first, keeping the order inside each group`, () => {
+  const groups = groupConnectionsByTier([
+    connection('Cleo', { tier: 'friend' }),
+    connection('Ana', { tier: 'unknown' }),
+    connection('Bea', { tier: 'friend' }),
+    connection('Dev', { tier: 'soulmate' })
+  ]);
+
+  expect(groups.map(group => [group.tier, names(group.connections)])).toEqual([
+    ['soulmate', ['Dev']],
+    ['friend', ['Cleo', 'Bea']],
+    ['casual', ['Ana']]
+  ]);
+});
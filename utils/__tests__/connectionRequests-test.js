@@ -0,0 +1,74 @@
+// Only the pure helpers are tested; keep Firebase out of it
+jest.mock('@firebase/firestore', () => ({}));
+jest.mock('@/config/firebase', () => ({ db: {} }));
+
+import {
+  DEFAULT_REQUEST_EXPIRY_DAYS,
+  getPairId,
+  isRequestExpired,
+  toRelationship
+} from '../connectionRequests';
+
+const NOW = Date.UTC(2026, 5, 1, 12);
+const DAY = 24 * 60 * 60 * 1000;
+
+// Stands in for a Firestore Timestamp
+const timestamp = (millis) => ({ toMillis: () => millis });
+
+it(`gives a pair the same ID either way round`, () => {
+  expect(getPairId('bob', 'alice')).toBe('alice_bob');
+  expect(getPairId('alice', 'bob')).toBe('alice_bob');
+});
+
+it(`expires a request at its expiresAt`, () => {
+  const request = { expiresAt: timestamp(NOW), timestamp: timestamp(NOW - 30 * DAY) };
+
+  expect(isRequestExpired(request, NOW - 1)).toBe(false);
+  expect(isRequestExpired(request, NOW)).toBe(true);
+});
+
+it(`expires requests from before expiry existed a default time after they were sent`, () => {
+  const request = { timestamp: timestamp(NOW - DEFAULT_REQUEST_EXPIRY_DAYS * DAY + 1) };
+
+  expect(isRequestExpired(request, NOW)).toBe(false);
+  expect(isRequestExpired(request, NOW + 1)).toBe(true);
+  // A request still waiting on its server timestamp can't be told yet
+  expect(isRequestExpired({ timestamp: null }, NOW)).toBe(false);
+});
+
+it(`reads a missing doc as none`, () => {
+  expect(toRelationship('alice_bob', null, NOW)).toEqual({
+    id: 'alice_bob',
+    status: 'none',
+    senderId: null,
+    receiverId: null,
+    chatRoomId: null,
+    blockedBy: null
+  });
+});
+
+it(`reads an expired pending request as none, but keeps other statuses`, () => {
+  const pending = { status: 'pending', senderId: 'alice', receiverId: 'bob', expiresAt: timestamp(NOW - 1) };
+  const declined = { ...pending, status: 'declined' };
+
+  expect(toRelationship('alice_bob', pending, NOW).status).toBe('none');
+  expect(toRelationship('alice_bob', { ...pending, expiresAt: timestamp(NOW + DAY) }, NOW).status).toBe('pending');
+  expect(toRelationship('alice_bob', declined, NOW).status).toBe('declined');
+});
+
+it(`carries over who sent it, the chat room and who blocked`, () => {
+  expect(toRelationship('alice_bob', {
+    status: 'accepted',
+    senderId: 'alice',
+    receiverId: 'bob',
+    chatRoomId: 'room1'
+  }, NOW)).toEqual({
+    id: 'alice_bob',
+    status: 'accepted',
+    senderId: 'alice',
+    receiverId: 'bob',
+    chatRoomId: 'room1',
+    blockedBy: null
+  });
+  expect(toRelationship('alice_bob', { status: 'blocked', blockedBy: 'bob' }, NOW).blockedBy).toBe('bob');
+});
@@ -0,0 +1,74 @@
+import {
+  DEFAULT_DISCOVERY_FILTERS,
+  RECENTLY_ACTIVE_WINDOW,
+  resolveDiscoveryFilters,
+  getActiveCriteria,
+  evaluateFilters,
+  applyDiscoveryFilters,
+  describeExclusions
+} from '../discoveryFilters';
+
+const NOW = Date.UTC(2026, 5, 1, 12);
+const HOUR = 60 * 60 * 1000;
+
+const filtersWith = (overrides) => ({ ...DEFAULT_DISCOVERY_FILTERS, ...overrides });
+
+it(`fills in defaults and clamps stored filters`, () => {
+  const filters = resolveDiscoveryFilters({
+    selectedInterests: ['Hiker', 'hiking', 'Guitarist'],
+    minSharedInterests: 40,
+    ageRange: [60, 12],
+    selectedGender: 'Unknown',
+    lookingFor: 'Dating'
+  });
+
+  expect(filters.selectedInterests).toEqual(['hiking', 'guitar']);
+  expect(filters.minSharedInterests).toBe(15);
+  expect(filters.ageRange).toEqual([18, 60]);
+  expect(filters.selectedGender).toBe('Any');
+  expect(filters.lookingFor).toBe('Dating');
+  expect(resolveDiscoveryFilters(null)).toEqual(DEFAULT_DISCOVERY_FILTERS);
+});
+
+it(`only applies criteria narrowed from their defaults`, () => {
+  expect(getActiveCriteria(DEFAULT_DISCOVERY_FILTERS)).toEqual([]);
+  expect(getActiveCriteria(filtersWith({ ageRange: [18, 40], onlineOnly: true }))).toEqual(['online', 'age']);
+});
+
+it(`excludes people missing a field only when that field is filtered`, () => {
+  const noAge = { interests: ['hiking'] };
+
+  expect(evaluateFilters(noAge, DEFAULT_DISCOVERY_FILTERS, NOW)).toEqual([]);
+  expect(evaluateFilters(noAge, filtersWith({ ageRange: [18, 40] }), NOW)).toEqual(['age']);
+});
+
+it(`matches any one of the selected interests, whatever the spelling`, () => {
+  const filters = filtersWith({ selectedInterests: ['hiking', 'guitar'] });
+
+  expect(evaluateFilters({ interests: ['Guitarist'] }, filters, NOW)).toEqual([]);
+  expect(evaluateFilters({ interests: ['cooking'] }, filters, NOW)).toEqual(['interests']);
+});
+
+it(`counts online people as recently active`, () => {
+  const filters = filtersWith({ activityStatus: 'Recently active' });
+
+  expect(evaluateFilters({ online: true }, filters, NOW)).toEqual([]);
+  expect(evaluateFilters({ lastActive: NOW - HOUR }, filters, NOW)).toEqual([]);
+  expect(evaluateFilters({ lastActive: NOW - RECENTLY_ACTIVE_WINDOW - HOUR }, filters, NOW)).toEqual(['activity']);
+});
+
+it(`counts what each criterion ruled out`, () => {
+  const filters = filtersWith({ selectedGender: 'Female', ageRange: [25, 35] });
+  const summary = applyDiscoveryFilters([
+    { uid: 'a', gender: 'Female', age: 30 },
+    { uid: 'b', gender: 'Male', age: 30 },
+    { uid: 'c', gender: 'Male', age: 50 },
+    { uid: 'd', gender: 'Female' }
+  ], filters, NOW);
+
+  expect(summary.matches.map(user => user.uid)).toEqual(['a']);
+  expect(summary.total).toBe(4);
+  expect(summary.excludedBy.gender).toBe(2);
+  expect(summary.excludedBy.age).toBe(2);
+  expect(describeExclusions(summary.excludedBy)).toBe('Age (2), Gender (2)');
+});
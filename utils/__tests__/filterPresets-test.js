@@ -0,0 +1,52 @@
+// Only the pure merge is tested; keep Firebase and storage out of it
+jest.mock('@firebase/firestore', () => ({}));
+jest.mock('@/config/firebase', () => ({ db: {} }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import { mergePresets } from '../filterPresets';
+
+const preset = (id, updatedAt, overrides = {}) => ({
+  id,
+  name: `Preset ${id}`,
+  filters: {},
+  position: 0,
+  updatedAt,
+  ...overrides
+});
+
+const byId = (presets) => Object.fromEntries(presets.map(item => [item.id, item]));
+
+it(`keeps the newest copy of each preset`, () => {
+  const merged = byId(mergePresets(
+    [preset('a', 200, { name: 'Local' }), preset('b', 100, { name: 'Local' })],
+    [preset('a', 100, { name: 'Remote' }), preset('b', 300, { name: 'Remote' })]
+  ));
+
+  expect(merged.a.name).toBe('Local');
+  expect(merged.b.name).toBe('Remote');
+});
+
+it(`keeps presets that only one side has`, () => {
+  const merged = mergePresets([preset('a', 100)], [preset('b', 100)]);
+
+  expect(merged.map(item => item.id).sort()).toEqual(['a', 'b']);
+});
+
+it(`lets a newer delete win over an older edit, and a newer edit over an older delete`, () => {
+  const merged = byId(mergePresets(
+    [preset('a', 300, { deleted: true }), preset('b', 100, { deleted: true })],
+    [preset('a', 200, { name: 'Edited' }), preset('b', 200, { name: 'Edited' })]
+  ));
+
+  expect(merged.a.deleted).toBe(true);
+  expect(merged.b.deleted).toBeUndefined();
+  expect(merged.b.name).toBe('Edited');
+});
+
+it(`keeps the local copy when both changed at the same time`, () => {
+  const [merged] = mergePresets([preset('a', 100, { name: 'Local' })], [preset('a', 100, { name: 'Remote' })]);
+
+  expect(merged.name).toBe('Local');
+});
@@ -0,0 +1,38 @@
+import {
+  encodeGeohash,
+  decodeGeohash,
+  geohashNeighbors,
+  geohashesCoveringRadius,
+  geohashQueryBounds
+} from '../geohash';
+
+it(`encodes a known coordinate`, () => {
+  expect(encodeGeohash(57.64911, 10.40744, 11)).toBe('u4pruydqqvj');
+});
+
+it(`decodes back to within the cell error`, () => {
+  const decoded = decodeGeohash('u4pruydqqvj');
+
+  expect(Math.abs(decoded.latitude - 57.64911)).toBeLessThanOrEqual(decoded.latitudeError);
+  expect(Math.abs(decoded.longitude - 10.40744)).toBeLessThanOrEqual(decoded.longitudeError);
+});
+
+it(`finds neighbors across cell boundaries`, () => {
+  const neighbors = geohashNeighbors('gbsuv');
+
+  expect(neighbors.n).toBe('gbsvj');
+  expect(neighbors.e).toBe('gbsuy');
+  expect(neighbors.s).toBe('gbsut');
+  expect(neighbors.w).toBe('gbsuu');
+});
+
+it(`covers a radius with a handful of prefix ranges`, () => {
+  const cells = geohashesCoveringRadius(40.7128, -74.006, 400);
+  const bounds = geohashQueryBounds(40.7128, -74.006, 400);
+
+  expect(cells.length).toBeGreaterThan(0);
+  expect(cells.length).toBeLessThanOrEqual(9);
+  expect(cells).toContain(encodeGeohash(40.7128, -74.006, cells[0].length));
+  expect(bounds).toHaveLength(cells.length);
+  bounds.forEach(([start, end]) => expect(end).toBe(`${start}~`));
+});
@@ -0,0 +1,39 @@
+// Only the search is tested; keep Firebase and storage out of it
+jest.mock('@firebase/firestore', () => ({}));
+jest.mock('@/config/firebase', () => ({ db: {} }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import { searchInterests } from '../interestCatalog';
+
+const entry = (id, label, count, category = null) => ({ id, label, category, count });
+
+const ids = (entries) => entries.map(item => item.id);
+
+it(`suggests nothing until something is typed`, () => {
+  expect(searchInterests([], '')).toEqual([]);
+  expect(searchInterests([], ' !! ')).toEqual([]);
+});
+
+it(`offers taxonomy interests nobody has yet, found by label or synonym`, () => {
+  expect(ids(searchInterests([], 'hik'))).toEqual(['hiking']);
+  expect(ids(searchInterests([], 'Bouldering'))).toEqual(['climbing']);
+  expect(searchInterests([], 'hik')[0]).toEqual(entry('hiking', 'Hiking', 0, expect.any(String)));
+});
+
+it(`puts better matches first, then more popular ones`, () => {
+  const catalog = [entry('competitive-knitting', 'Competitive Knitting', 50)];
+
+  // A synonym starting with the text beats a later word in a custom interest
+  expect(ids(searchInterests(catalog, 'knit'))).toEqual(['crafting', 'competitive-knitting']);
+
+  const popular = searchInterests([entry('basketball', 'Basketball', 12), entry('cycling', 'Cycling', 30)], 'b');
+  expect(ids(popular).slice(0, 3)).toEqual(['cycling', 'basketball', 'baking']);
+});
+
+it(`leaves out excluded interests and stops at the limit`, () => {
+  expect(ids(searchInterests([], 'b', { exclude: ['baking', 'baseball'], limit: 2 })))
+    .toEqual(['basketball', 'board-games']);
+  expect(searchInterests([], 'b')).toHaveLength(8);
+});
@@ -0,0 +1,53 @@
+import {
+  normalizeInterestText,
+  canonicalizeInterest,
+  canonicalizeInterests,
+  isCanonicalInterestList,
+  getInterestLabel,
+  matchInterests
+} from '../interestTaxonomy';
+
+it(`normalizes case, accents, punctuation and spacing`, () => {
+  expect(normalizeInterestText('  Café   Culture!! ')).toBe('cafe culture');
+  expect(normalizeInterestText('Arts & Crafts')).toBe('arts and crafts');
+});
+
+it(`maps labels and synonyms to canonical IDs`, () => {
+  expect(canonicalizeInterest('Rock Climbing')).toBe('climbing');
+  expect(canonicalizeInterest('BOULDERING')).toBe('climbing');
+  expect(canonicalizeInterest('Board Games')).toBe('board-games');
+  expect(canonicalizeInterest('futbol')).toBe('soccer');
+});
+
+it(`strips simple plurals the taxonomy doesn't list`, () => {
+  expect(canonicalizeInterest('Runners')).toBe('running');
+  expect(canonicalizeInterest('espressos')).toBe('coffee');
+});
+
+it(`keeps unknown interests as custom IDs`, () => {
+  expect(canonicalizeInterest('Competitive Knitting')).toBe('competitive-knitting');
+  expect(getInterestLabel('competitive-knitting')).toBe('Competitive Knitting');
+  expect(canonicalizeInterest('  !! ')).toBeNull();
+});
+
+it(`canonicalizes lists, dropping blanks and duplicates`, () => {
+  expect(canonicalizeInterests(['Hiking', 'hiker', '', 'Yoga'])).toEqual(['hiking', 'yoga']);
+  expect(canonicalizeInterests(null)).toEqual([]);
+  expect(isCanonicalInterestList(['hiking', 'yoga'])).toBe(true);
+  expect(isCanonicalInterestList(['Hiking', 'yoga'])).toBe(false);
+});
+
+it(`labels free text from profiles that haven't been migrated`, () => {
+  expect(getInterestLabel('hiker')).toBe('Hiking');
+  expect(getInterestLabel('board-games')).toBe('Board Games');
+});
+
+it(`matches exact interests first, then one per category`, () => {
+  const { shared, related } = matchInterests(
+    ['Hiking', 'Running', 'guitar'],
+    ['hiking', 'camping', 'yoga', 'concerts', 'singing']
+  );
+
+  expect(shared).toEqual(['hiking']);
+  expect(related).toEqual([['running', 'yoga'], ['guitar', 'concerts']]);
+});
@@ -0,0 +1,66 @@
+jest.mock('@firebase/firestore', () => ({}));
+
+import { getDistanceFromLatLonInMeters } from '../geospatial';
+import { PRECISION_LEVELS, snapToGrid, obfuscateLocation, formatDistanceBucket } from '../locationPrivacy';
+
+// Real positions spread over a few cities and latitudes
+const POSITIONS = [
+  [51.50735, -0.12776],
+  [40.71278, -74.00597],
+  [-33.86882, 151.20929],
+  [64.14660, -21.94260],
+  [0.00012, 0.00034]
+];
+
+it(`never publishes the real position, and stays within its precision radius`, () => {
+  Object.keys(PRECISION_LEVELS).forEach(precision => {
+    POSITIONS.forEach(([latitude, longitude], index) => {
+      const fuzzed = obfuscateLocation(`user${index}`, latitude, longitude, { precision });
+      const error = getDistanceFromLatLonInMeters(latitude, longitude, fuzzed.latitude, fuzzed.longitude);
+
+      expect(fuzzed.latitude === latitude && fuzzed.longitude === longitude).toBe(false);
+      expect(error).toBeGreaterThan(0);
+      expect(error).toBeLessThanOrEqual(fuzzed.precisionRadius);
+    });
+  });
+});
+
+it(`keeps the same point for a user moving inside one cell`, () => {
+  const cell = snapToGrid(51.50735, -0.12776, PRECISION_LEVELS.approximate.gridSize);
+  const first = obfuscateLocation('alice', cell.latitude, cell.longitude);
+  // About 20 m from the middle of the 100 m cell
+  const second = obfuscateLocation('alice', cell.latitude + 0.00015, cell.longitude - 0.0002);
+
+  expect(second).toEqual(first);
+  expect(obfuscateLocation('alice', cell.latitude + 0.001, cell.longitude)).not.toEqual(first);
+});
+
+it(`gives different users in the same cell different points`, () => {
+  const alice = obfuscateLocation('alice', 51.50735, -0.12776);
+  const bob = obfuscateLocation('bob', 51.50735, -0.12776);
+
+  expect(bob).not.toEqual(alice);
+  expect(bob.precisionRadius).toBe(alice.precisionRadius);
+});
+
+it(`falls back to approximate precision for unknown settings`, () => {
+  expect(obfuscateLocation('alice', 51.50735, -0.12776, { precision: 'exact' }))
+    .toEqual(obfuscateLocation('alice', 51.50735, -0.12776));
+});
+
+it(`only shows distances as coarse buckets`, () => {
+  expect(formatDistanceBucket(0)).toBe('< 100 m');
+  expect(formatDistanceBucket(99)).toBe('< 100 m');
+  expect(formatDistanceBucket(437)).toBe('~400 m');
+  expect(formatDistanceBucket(949)).toBe('~900 m');
+  expect(formatDistanceBucket(1234)).toBe('~1.0 km');
+  expect(formatDistanceBucket(2760)).toBe('~3.0 km');
+  expect(formatDistanceBucket(15400)).toBe('~15 km');
+
+  // Never the exact figure, in meters or kilometers
+  [137, 481, 1234, 7777, 12345].forEach(meters => {
+    const bucket = formatDistanceBucket(meters);
+    expect(bucket).not.toContain(String(meters));
+    expect(bucket).not.toContain((meters / 1000).toFixed(2));
+  });
+});
@@ -0,0 +1,69 @@
+// Only the matching is tested; keep Firebase, storage and notifications out of it
+jest.mock('@firebase/firestore', () => ({ collection: () => ({}) }));
+jest.mock('@/config/firebase', () => ({ db: {} }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-notifications', () => ({ setNotificationHandler: () => {} }));
+
+import { DEFAULT_DISCOVERY_FILTERS } from '../discoveryFilters';
+import { findWatchMatches } from '../matchAlerts';
+
+const NOW = Date.UTC(2026, 5, 1, 12);
+
+const watch = (id, filters = {}) => ({
+  id,
+  name: `Watch ${id}`,
+  filters: { ...DEFAULT_DISCOVERY_FILTERS, discoveryRadius: 1000, ...filters },
+  position: 0,
+  updatedAt: NOW,
+  watch: true
+});
+
+const candidate = (uid, overrides = {}) => ({
+  uid,
+  name: uid,
+  distance: 500,
+  interests: ['hiking'],
+  sharedInterestsCount: 1,
+  age: 30,
+  ...overrides
+});
+
+it(`matches people who pass a watch's filters`, () => {
+  const climbers = watch('climbers', { selectedInterests: ['climbing'] });
+  const matches = findWatchMatches(
+    [candidate('sam', { interests: ['climbing'] }), candidate('alex')],
+    [climbers],
+    NOW
+  );
+
+  expect(matches).toEqual([{ preset: climbers, candidate: expect.objectContaining({ uid: 'sam' }) }]);
+});
+
+it(`only matches people inside the watch's own radius`, () => {
+  const close = watch('close', { discoveryRadius: 400 });
+
+  expect(findWatchMatches([candidate('sam', { distance: 400 })], [close], NOW)).toHaveLength(1);
+  expect(findWatchMatches([candidate('sam', { distance: 401 })], [close], NOW)).toEqual([]);
+});
+
+it(`matches each person once, against the first watch they pass`, () => {
+  const first = watch('first');
+  const second = watch('second');
+  const matches = findWatchMatches([candidate('sam'), candidate('alex')], [first, second], NOW);
+
+  expect(matches.map(match => [match.candidate.uid, match.preset.id])).toEqual([
+    ['sam', 'first'],
+    ['alex', 'first']
+  ]);
+});
+
+it(`falls through to a later watch when an earlier one rules a person out`, () => {
+  const young = watch('young', { ageRange: [18, 25] });
+  const anyone = watch('anyone');
+  const [match] = findWatchMatches([candidate('sam', { age: 40 })], [young, anyone], NOW);
+
+  expect(match.preset).toBe(anyone);
+  expect(findWatchMatches([candidate('sam')], [], NOW)).toEqual([]);
+});
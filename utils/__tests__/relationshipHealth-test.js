@@ -0,0 +1,90 @@
+// Only the pure reminder logic is tested; keep Firebase and storage out of it
+jest.mock('@firebase/firestore', () => ({}));
+jest.mock('@/config/firebase', () => ({ db: {} }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import { getNextMilestone, findReminders } from '../relationshipHealth';
+
+// Local times, so the tests don't depend on the machine's time zone
+const at = (year, month, day, hour = 10) => new Date(year, month - 1, day, hour).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK = 7 * DAY;
+
+const connection = (overrides = {}) => ({
+  id: 'c1',
+  otherUserId: 'sam',
+  otherUserName: 'Sam',
+  otherUserPhotoURL: null,
+  chatRoomId: 'room1',
+  acceptedAt: null,
+  lastMessageAt: null,
+  lastMessageUserId: null,
+  ...overrides
+});
+
+it(`puts the first month on the last day of a shorter month`, () => {
+  expect(getNextMilestone(at(2026, 1, 31), at(2026, 2, 10))).toEqual({ months: 1, at: at(2026, 2, 28) });
+  expect(getNextMilestone(at(2028, 1, 31), at(2028, 2, 10))).toEqual({ months: 1, at: at(2028, 2, 29) });
+  expect(getNextMilestone(at(2026, 3, 31), at(2026, 4, 10))).toEqual({ months: 1, at: at(2026, 4, 30) });
+});
+
+it(`moves on to six months, then every year`, () => {
+  const acceptedAt = at(2026, 1, 31);
+
+  expect(getNextMilestone(acceptedAt, at(2026, 3, 1))).toEqual({ months: 6, at: at(2026, 7, 31) });
+  expect(getNextMilestone(acceptedAt, at(2026, 8, 1))).toEqual({ months: 12, at: at(2027, 1, 31) });
+  expect(getNextMilestone(acceptedAt, at(2027, 2, 1))).toEqual({ months: 24, at: at(2028, 1, 31) });
+});
+
+it(`keeps a milestone until the end of its day`, () => {
+  expect(getNextMilestone(at(2026, 1, 15), at(2026, 2, 15, 23)).months).toBe(1);
+  expect(getNextMilestone(at(2026, 1, 15), at(2026, 2, 16, 0)).months).toBe(6);
+});
+
+it(`keeps a leap day anniversary in February`, () => {
+  expect(getNextMilestone(at(2028, 2, 29), at(2028, 9, 1))).toEqual({ months: 12, at: at(2029, 2, 28) });
+});
+
+it(`reminds about a message waiting a day for a reply, instead of a quiet chat`, () => {
+  const now = at(2026, 6, 1);
+  const lastMessageAt = now - 6 * WEEK;
+  const reminders = findReminders('me', [connection({ lastMessageAt, lastMessageUserId: 'sam' })], 4, now);
+
+  expect(reminders).toHaveLength(1);
+  expect(reminders[0]).toMatchObject({
+    key: `reply_c1_${lastMessageAt}`,
+    type: 'reply',
+    title: 'Sam is waiting for a reply',
+    dueAt: lastMessageAt + DAY
+  });
+  expect(findReminders('me', [connection({ lastMessageAt: now - DAY / 2, lastMessageUserId: 'sam' })], 4, now))
+    .toEqual([]);
+});
+
+it(`reminds about a chat quiet for the chosen number of weeks`, () => {
+  const now = at(2026, 6, 1);
+  const quiet = connection({ lastMessageAt: now - 5 * WEEK, lastMessageUserId: 'me' });
+
+  expect(findReminders('me', [quiet], 4, now)).toMatchObject([
+    { type: 'quiet', title: `You haven't talked to Sam in 5 weeks`, dueAt: now - WEEK }
+  ]);
+  expect(findReminders('me', [quiet], 8, now)).toEqual([]);
+});
+
+it(`shows anniversaries a week ahead, and orders reminders by type`, () => {
+  const now = at(2026, 2, 23);
+  const reminders = findReminders('me', [
+    connection({ id: 'quiet', acceptedAt: at(2025, 6, 1), lastMessageAt: now - 5 * WEEK, lastMessageUserId: 'me' }),
+    connection({ id: 'new', acceptedAt: at(2026, 1, 31) }),
+    connection({ id: 'reply', lastMessageAt: now - 2 * DAY, lastMessageUserId: 'sam' })
+  ], 4, now);
+
+  expect(reminders.map(reminder => reminder.type)).toEqual(['reply', 'anniversary', 'quiet']);
+  expect(reminders[1]).toMatchObject({
+    key: 'anniversary_new_1',
+    title: '1 month connected with Sam',
+    dueAt: at(2026, 2, 28)
+  });
+});
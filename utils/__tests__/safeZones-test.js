@@ -0,0 +1,54 @@
+jest.mock('@firebase/firestore', () => ({}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import { getDistanceFromLatLonInMeters } from '../geospatial';
+import { findSafeZone, getBlurredZoneLocation } from '../safeZones';
+
+// About 111 m of latitude
+const STEP = 0.001;
+
+const zone = (id, overrides = {}) => ({
+  id,
+  name: id,
+  latitude: 51.5,
+  longitude: -0.12,
+  radius: 200,
+  mode: 'hide',
+  ...overrides
+});
+
+it(`finds the zone a position is in, up to its edge`, () => {
+  const home = zone('home');
+
+  expect(findSafeZone([home], 51.5, -0.12)).toBe(home);
+  expect(findSafeZone([home], 51.5 + STEP, -0.12)).toBe(home);
+  expect(findSafeZone([home], 51.5 + 2 * STEP, -0.12)).toBeNull();
+  expect(findSafeZone([], 51.5, -0.12)).toBeNull();
+});
+
+it(`lets hiding win over blurring where zones overlap`, () => {
+  const neighborhood = zone('neighborhood', { radius: 100, mode: 'blur' });
+  const home = zone('home', { radius: 400 });
+
+  expect(findSafeZone([neighborhood, home], 51.5, -0.12)).toBe(home);
+});
+
+it(`picks the smaller of two overlapping zones with the same mode`, () => {
+  const campus = zone('campus', { radius: 800, mode: 'blur' });
+  const office = zone('office', { radius: 100, mode: 'blur', latitude: 51.5 + STEP / 2 });
+
+  expect(findSafeZone([campus, office], 51.5 + STEP / 2, -0.12)).toBe(office);
+  // Outside the office, only the campus is left
+  expect(findSafeZone([campus, office], 51.5 - STEP, -0.12)).toBe(campus);
+});
+
+it(`publishes one fixed area for a blur zone, near its center`, () => {
+  const office = zone('office', { mode: 'blur' });
+  const blurred = getBlurredZoneLocation('alice', office);
+
+  expect(getBlurredZoneLocation('alice', office)).toEqual(blurred);
+  expect(getDistanceFromLatLonInMeters(office.latitude, office.longitude, blurred.latitude, blurred.longitude))
+    .toBeLessThanOrEqual(blurred.precisionRadius);
+});
@@ -0,0 +1,91 @@
+import {
+  EVERY_DAY,
+  WEEKDAYS,
+  getVisibilityStatus,
+  getNextMorning,
+  formatMinutes
+} from '../visibilitySchedule';
+
+// Local times, so the tests don't depend on the machine's time zone
+const at = (day, hour, minute = 0) => new Date(2026, 5, day, hour, minute).getTime();
+// 3 June 2026 is a Wednesday
+const WEDNESDAY = 3;
+const SATURDAY = 6;
+
+const lunch = { days: WEEKDAYS, start: 12 * 60, end: 14 * 60 };
+// 10 PM to 2 AM, starting every day
+const lateNight = { days: EVERY_DAY, start: 22 * 60, end: 2 * 60 };
+
+it(`is visible inside a window and hidden outside it`, () => {
+  const schedule = { enabled: true, windows: [lunch] };
+
+  expect(getVisibilityStatus(true, schedule, at(WEDNESDAY, 12, 30))).toEqual({
+    visible: true,
+    mode: 'scheduledVisible',
+    nextChange: at(WEDNESDAY, 14)
+  });
+  expect(getVisibilityStatus(true, schedule, at(WEDNESDAY, 9))).toEqual({
+    visible: false,
+    mode: 'scheduledHidden',
+    nextChange: at(WEDNESDAY, 12)
+  });
+});
+
+it(`skips days the window isn't on`, () => {
+  const status = getVisibilityStatus(true, { enabled: true, windows: [lunch] }, at(SATURDAY, 12, 30));
+
+  expect(status.visible).toBe(false);
+  // Next window is Monday's lunch
+  expect(status.nextChange).toBe(at(SATURDAY + 2, 12));
+});
+
+it(`runs a window past midnight when its end is before its start`, () => {
+  const schedule = { enabled: true, windows: [lateNight] };
+
+  expect(getVisibilityStatus(true, schedule, at(WEDNESDAY, 23)).nextChange).toBe(at(WEDNESDAY + 1, 2));
+  // Still inside the window that began the evening before
+  expect(getVisibilityStatus(true, schedule, at(WEDNESDAY, 1)).visible).toBe(true);
+  expect(getVisibilityStatus(true, schedule, at(WEDNESDAY, 3)).visible).toBe(false);
+});
+
+it(`treats back-to-back windows as one`, () => {
+  const schedule = {
+    enabled: true,
+    windows: [lunch, { days: WEEKDAYS, start: 14 * 60, end: 16 * 60 }]
+  };
+
+  expect(getVisibilityStatus(true, schedule, at(WEDNESDAY, 13)).nextChange).toBe(at(WEDNESDAY, 16));
+});
+
+it(`lets the master switch and ghost mode override the schedule`, () => {
+  const schedule = { enabled: true, windows: [lunch], ghostUntil: at(WEDNESDAY, 13) };
+
+  expect(getVisibilityStatus(false, schedule, at(WEDNESDAY, 12, 30)).mode).toBe('hidden');
+  expect(getVisibilityStatus(true, schedule, at(WEDNESDAY, 12, 30))).toEqual({
+    visible: false,
+    mode: 'ghost',
+    nextChange: at(WEDNESDAY, 13)
+  });
+});
+
+it(`ends ghost mode at the next window if the schedule hides the user then`, () => {
+  const schedule = { enabled: true, windows: [lunch], ghostUntil: at(WEDNESDAY, 9) };
+
+  expect(getVisibilityStatus(true, schedule, at(WEDNESDAY, 8)).nextChange).toBe(at(WEDNESDAY, 12));
+});
+
+it(`ignores a disabled schedule`, () => {
+  expect(getVisibilityStatus(true, { enabled: false, windows: [lunch] }, at(WEDNESDAY, 9))).toEqual({
+    visible: true,
+    mode: 'visible',
+    nextChange: null
+  });
+});
+
+it(`finds the next morning and formats clock times`, () => {
+  expect(getNextMorning(at(WEDNESDAY, 7))).toBe(at(WEDNESDAY, 8));
+  expect(getNextMorning(at(WEDNESDAY, 8))).toBe(at(WEDNESDAY + 1, 8));
+  expect(formatMinutes(0)).toBe('12:00 AM');
+  expect(formatMinutes(18 * 60 + 5)).toBe('6:05 PM');
+  expect(formatMinutes(24 * 60)).toBe('12:00 AM');
+});
@@ -0,0 +1,285 @@
+/**
+ * Opt-in background location updates for the `locations` collection
+ *
+ * The task is defined at module scope so the OS can wake it without any
+ * screen mounted; `app/_layout.tsx` imports this module for that reason.
+ * Everything the task needs (uid, visibility, privacy settings) is mirrored
+ * to AsyncStorage because the task may run before auth or React state exist.
+ */
+
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import * as Battery from 'expo-battery';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { auth } from '@/config/firebase';
+import { getDistanceFromLatLonInMeters } from './geospatial';
+import { saveUserLocation } from './locations';
+import { LOCATION_HEARTBEAT_INTERVAL } from './locationFreshness';
+import { getVisibilityStatus, VisibilitySchedule } from './visibilitySchedule';
+import { LocationPrivacySettings } from './locationPrivacy';
+import { checkWatchesNearby } from './matchAlerts';
+
+export const LOCATION_TASK_NAME = 'background-location-task';
+
+const ENABLED_STORAGE_KEY = 'hive_background_location_enabled';
+const CONFIG_STORAGE_KEY = 'hive_background_location_config';
+const LAST_WRITE_STORAGE_KEY = 'hive_background_location_last_write';
+
+// Only write when the user has moved at least this far (m)...
+const MIN_UPDATE_DISTANCE = 75;
+// ...and never more often than this (ms)
+const MIN_UPDATE_INTERVAL = 2 * 60 * 1000;
+
+export type BatteryProfile = 'normal' | 'saver' | 'critical';
+
+interface BackgroundLocationConfig {
+  uid: string;
+  visible: boolean;
+  privacy?: Partial<LocationPrivacySettings> | null;
+  schedule?: Partial<VisibilitySchedule> | null;
+  batteryProfile?: BatteryProfile;
+}
+
+interface LastWrite {
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+  // Effective visibility at the time, so schedule changes get written promptly
+  visible?: boolean;
+}
+
+// OS-level update options for each battery profile; coarser options let the
+// OS batch fixes and keep GPS off. Positions are fuzzed to 100m+ anyway, so
+// even the normal profile doesn't need GPS-grade accuracy.
+const BATTERY_PROFILES: Record<BatteryProfile, {
+  accuracy: Location.Accuracy;
+  distanceInterval: number;
+  timeInterval: number;
+}> = {
+  normal: { accuracy: Location.Accuracy.Balanced, distanceInterval: 50, timeInterval: 60 * 1000 },
+  saver: { accuracy: Location.Accuracy.Low, distanceInterval: 150, timeInterval: 5 * 60 * 1000 },
+  critical: { accuracy: Location.Accuracy.Lowest, distanceInterval: 500, timeInterval: 15 * 60 * 1000 }
+};
+
+/**
+ * Pick a battery profile from the current power state
+ */
+export const getBatteryProfile = async (): Promise<BatteryProfile> => {
+  try {
+    const { batteryLevel, batteryState, lowPowerMode } = await Battery.getPowerStateAsync();
+    const charging = batteryState === Battery.BatteryState.CHARGING || batteryState === Battery.BatteryState.FULL;
+
+    if (charging) return 'normal';
+    // batteryLevel is -1 when unknown (e.g. simulators)
+    if (batteryLevel >= 0 && batteryLevel < 0.15) return 'critical';
+    if (lowPowerMode || (batteryLevel >= 0 && batteryLevel < 0.4)) return 'saver';
+    return 'normal';
+  } catch (error) {
+    console.error('Error reading battery state:', error);
+    return 'normal';
+  }
+};
+
+/**
+ * Read the config mirrored for the background task
+ */
+const loadConfig = async (): Promise<BackgroundLocationConfig | null> => {
+  const stored = await AsyncStorage.getItem(CONFIG_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : null;
+};
+
+/**
+ * Check whether the user opted in to background updates on this device
+ */
+export const isBackgroundLocationEnabled = async (): Promise<boolean> => {
+  try {
+    return (await AsyncStorage.getItem(ENABLED_STORAGE_KEY)) === 'true';
+  } catch (error) {
+    console.error('Error reading background location setting:', error);
+    return false;
+  }
+};
+
+/**
+ * Start (or restart with new options) the background location task
+ */
+const startUpdates = async (config: BackgroundLocationConfig): Promise<void> => {
+  const batteryProfile = await getBatteryProfile();
+  const options = BATTERY_PROFILES[batteryProfile];
+
+  await AsyncStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify({ ...config, batteryProfile }));
+
+  console.log(`Starting background location updates (${batteryProfile} profile)`);
+  await Location.startLocationUpdatesAsync(LOCATION_TASK_NAME, {
+    accuracy: options.accuracy,
+    distanceInterval: options.distanceInterval,
+    timeInterval: options.timeInterval,
+    deferredUpdatesDistance: options.distanceInterval,
+    deferredUpdatesInterval: options.timeInterval,
+    pausesUpdatesAutomatically: true,
+    activityType: Location.ActivityType.Other,
+    showsBackgroundLocationIndicator: false,
+    foregroundService: {
+      notificationTitle: 'HiveSocial',
+      notificationBody: 'Keeping your spot on the map up to date',
+      notificationColor: '#6C5CE7'
+    }
+  });
+};
+
+/**
+ * Stop the background location task if it is running
+ */
+export const stopBackgroundLocationUpdates = async (): Promise<void> => {
+  try {
+    if (await Location.hasStartedLocationUpdatesAsync(LOCATION_TASK_NAME)) {
+      console.log('Stopping background location updates');
+      await Location.stopLocationUpdatesAsync(LOCATION_TASK_NAME);
+    }
+  } catch (error) {
+    console.error('Error stopping background location updates:', error);
+  }
+};
+
+/**
+ * Bring the background task in line with the current user state
+ * Runs only when the user opted in AND is visible; otherwise it is stopped.
+ * Call whenever visibility or privacy settings change.
+ */
+export const syncBackgroundLocation = async (config: BackgroundLocationConfig): Promise<void> => {
+  try {
+    const enabled = await isBackgroundLocationEnabled();
+
+    if (!enabled || !config.visible) {
+      await AsyncStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+      await stopBackgroundLocationUpdates();
+      return;
+    }
+
+    const { status } = await Location.getBackgroundPermissionsAsync();
+    if (status !== 'granted') {
+      console.log('Background location permission not granted, skipping');
+      return;
+    }
+
+    await startUpdates(config);
+  } catch (error) {
+    console.error('Error syncing background location:', error);
+  }
+};
+
+/**
+ * Turn background updates on or off for this device
+ * Returns false if the user declined the background permission.
+ */
+export const setBackgroundLocationEnabled = async (
+  enabled: boolean,
+  config: BackgroundLocationConfig
+): Promise<boolean> => {
+  if (enabled) {
+    const foreground = await Location.requestForegroundPermissionsAsync();
+    if (foreground.status !== 'granted') return false;
+
+    const background = await Location.requestBackgroundPermissionsAsync();
+    if (background.status !== 'granted') return false;
+  }
+
+  await AsyncStorage.setItem(ENABLED_STORAGE_KEY, enabled ? 'true' : 'false');
+  await syncBackgroundLocation(config);
+  return true;
+};
+
+/**
+ * Decide whether a new fix is worth writing
+ * Stationary users still write once per heartbeat so their position doesn't
+ * expire, and a visibility flip from the schedule is always written.
+ */
+const shouldWrite = (
+  lastWrite: LastWrite | null,
+  latitude: number,
+  longitude: number,
+  visible: boolean,
+  now: number
+): boolean => {
+  if (!lastWrite) return true;
+  if (lastWrite.visible !== undefined && lastWrite.visible !== visible) return true;
+  if (now - lastWrite.timestamp < MIN_UPDATE_INTERVAL) return false;
+  if (now - lastWrite.timestamp >= LOCATION_HEARTBEAT_INTERVAL) return true;
+
+  const moved = getDistanceFromLatLonInMeters(lastWrite.latitude, lastWrite.longitude, latitude, longitude);
+  return moved >= MIN_UPDATE_DISTANCE;
+};
+
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(LOCATION_TASK_NAME, async ({ data, error }) => {
+  if (error) {
+    console.error('Background location task error:', error);
+    return;
+  }
+
+  const locations = data?.locations;
+  if (!locations || locations.length === 0) return;
+
+  try {
+    const config = await loadConfig();
+
+    // Visibility was switched off (possibly from another screen); shut down.
+    // Schedules and ghost mode only hide the user, so keep running for those.
+    if (!config?.uid || !config.visible) {
+      await stopBackgroundLocationUpdates();
+      return;
+    }
+
+    // The OS may batch fixes; only the newest one matters
+    const latest = locations[locations.length - 1];
+    const { latitude, longitude } = latest.coords;
+    const now = Date.now();
+
+    const storedLastWrite = await AsyncStorage.getItem(LAST_WRITE_STORAGE_KEY);
+    const lastWrite: LastWrite | null = storedLastWrite ? JSON.parse(storedLastWrite) : null;
+    const visibleNow = getVisibilityStatus(true, config.schedule, now).visible;
+
+    if (shouldWrite(lastWrite, latitude, longitude, visibleNow, now)) {
+      // The task can fire before auth has been restored from storage
+      await auth.authStateReady();
+      if (auth.currentUser?.uid !== config.uid) {
+        console.log('Background location: signed-in user changed, stopping');
+        await stopBackgroundLocationUpdates();
+        return;
+      }
+
+      await saveUserLocation(config.uid, latitude, longitude, true, config.privacy, config.schedule);
+      await AsyncStorage.setItem(
+        LAST_WRITE_STORAGE_KEY,
+        JSON.stringify({ latitude, longitude, timestamp: now, visible: visibleNow })
+      );
+      console.log('Background location written');
+    }
+
+    // Look for people matching watched presets (throttled inside)
+    try {
+      await auth.authStateReady();
+      if (auth.currentUser?.uid === config.uid) {
+        await checkWatchesNearby(config.uid, latitude, longitude, now);
+      }
+    } catch (alertError) {
+      console.error('Error checking match alerts:', alertError);
+    }
+
+    // Adjust accuracy if the battery situation changed since we started
+    const batteryProfile = await getBatteryProfile();
+    if (batteryProfile !== config.batteryProfile) {
+      await startUpdates(config);
+    }
+  } catch (taskError) {
+    console.error('Error handling background location update:', taskError);
+  }
+});
+
+export default {
+  LOCATION_TASK_NAME,
+  getBatteryProfile,
+  isBackgroundLocationEnabled,
+  setBackgroundLocationEnabled,
+  syncBackgroundLocation,
+  stopBackgroundLocationUpdates
+};
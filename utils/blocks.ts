@@ -0,0 +1,211 @@
+/**
+ * Blocking other users
+ *
+ * A block is a doc in `blocks` with the id `{blockerId}_{blockedId}`, so
+ * checking a pair is two doc reads rather than a query. Blocks apply in both
+ * directions: neither person sees the other on the map or in connections,
+ * requests between them are refused, and chats they share are closed to new
+ * messages. Only the blocker can see and lift a block.
+ *
+ * The pair's relationship doc in `connectionRequests` is moved to blocked
+ * too, which is what stops requests being sent or accepted.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  where,
+  runTransaction,
+  serverTimestamp
+} from '@firebase/firestore';
+import { db } from '@/config/firebase';
+import { getPairId } from './connectionRequests';
+
+export interface Block {
+  id: string;
+  blockerId: string;
+  blockedId: string;
+  // Name at the time of blocking, for the management screen
+  blockedName: string | null;
+  createdAt: Date | null;
+}
+
+const blocksRef = collection(db, 'blocks');
+
+export const getBlockId = (blockerId: string, blockedId: string): string => `${blockerId}_${blockedId}`;
+
+const toBlock = (blockDoc: any): Block => {
+  const data = blockDoc.data();
+  return {
+    id: blockDoc.id,
+    blockerId: data.blockerId,
+    blockedId: data.blockedId,
+    blockedName: data.blockedName || null,
+    createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : null
+  };
+};
+
+/**
+ * Block a user, replacing any request between the two of them
+ * An accepted connection is left as it is, hidden while the block lasts, so
+ * lifting the block brings it back.
+ */
+export const blockUser = async (uid: string, otherUid: string, otherName?: string | null): Promise<void> => {
+  if (uid === otherUid) {
+    throw new Error('Cannot block yourself');
+  }
+
+  const relationshipRef = doc(db, 'connectionRequests', getPairId(uid, otherUid));
+
+  await runTransaction(db, async (transaction) => {
+    const relationshipDoc = await transaction.get(relationshipRef);
+
+    transaction.set(doc(blocksRef, getBlockId(uid, otherUid)), {
+      blockerId: uid,
+      blockedId: otherUid,
+      blockedName: otherName || null,
+      createdAt: serverTimestamp()
+    });
+
+    const relationship = relationshipDoc.data();
+    if (relationship?.status !== 'accepted') {
+      transaction.set(relationshipRef, {
+        participants: [uid, otherUid],
+        status: 'blocked',
+        blockedBy: uid,
+        blockedAt: serverTimestamp(),
+        // A pair that was connected before keeps its chat for if they reconnect
+        ...(relationship?.chatRoomId ? { chatRoomId: relationship.chatRoomId } : {})
+      });
+    }
+  });
+
+  console.log(`Blocked user ${otherUid}`);
+};
+
+/**
+ * Lift a block; the relationship goes back to none (or removed, for a pair
+ * that was connected before) unless the other person has blocked this user too
+ */
+export const unblockUser = async (uid: string, otherUid: string): Promise<void> => {
+  const relationshipRef = doc(db, 'connectionRequests', getPairId(uid, otherUid));
+  const reverseBlockRef = doc(blocksRef, getBlockId(otherUid, uid));
+
+  await runTransaction(db, async (transaction) => {
+    const [relationshipDoc, reverseBlock] = await Promise.all([
+      transaction.get(relationshipRef),
+      transaction.get(reverseBlockRef)
+    ]);
+
+    transaction.delete(doc(blocksRef, getBlockId(uid, otherUid)));
+
+    const relationship = relationshipDoc.data();
+    if (relationship?.status === 'blocked') {
+      if (reverseBlock.exists()) {
+        transaction.update(relationshipRef, { blockedBy: otherUid });
+      } else if (relationship.chatRoomId) {
+        // Back to removed rather than none, so accepting a new request
+        // reopens the archived chat
+        transaction.set(relationshipRef, {
+          participants: relationship.participants || [uid, otherUid],
+          status: 'removed',
+          chatRoomId: relationship.chatRoomId
+        });
+      } else {
+        transaction.delete(relationshipRef);
+      }
+    }
+  });
+
+  console.log(`Unblocked user ${otherUid}`);
+};
+
+/**
+ * Whether either user has blocked the other
+ */
+export const isBlockedBetween = async (uid: string, otherUid: string): Promise<boolean> => {
+  const [byMe, byThem] = await Promise.all([
+    getDoc(doc(blocksRef, getBlockId(uid, otherUid))),
+    getDoc(doc(blocksRef, getBlockId(otherUid, uid)))
+  ]);
+  return byMe.exists() || byThem.exists();
+};
+
+/**
+ * Everyone the user has blocked or been blocked by; used outside components
+ */
+export const loadBlockedUids = async (uid: string): Promise<Set<string>> => {
+  const [byMe, byThem] = await Promise.all([
+    getDocs(query(blocksRef, where('blockerId', '==', uid))),
+    getDocs(query(blocksRef, where('blockedId', '==', uid)))
+  ]);
+  return new Set([
+    ...byMe.docs.map(blockDoc => blockDoc.data().blockedId as string),
+    ...byThem.docs.map(blockDoc => blockDoc.data().blockerId as string)
+  ]);
+};
+
+/**
+ * Live blocks for a user
+ * `blocks` are the user's own, newest first; `blockedUids` covers both
+ * directions and is what screens hide people by.
+ */
+export function useBlocks(uid?: string | null) {
+  const [blocks, setBlocks] = useState<Block[]>([]);
+  const [blockedBy, setBlockedBy] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!uid) {
+      setBlocks([]);
+      setBlockedBy([]);
+      setLoading(false);
+      return;
+    }
+
+    const unsubscribeBlocks = onSnapshot(
+      query(blocksRef, where('blockerId', '==', uid)),
+      snapshot => {
+        const own = snapshot.docs.map(toBlock);
+        own.sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+        setBlocks(own);
+        setLoading(false);
+      },
+      error => {
+        console.error('Error listening to blocks:', error);
+        setLoading(false);
+      }
+    );
+
+    const unsubscribeBlockedBy = onSnapshot(
+      query(blocksRef, where('blockedId', '==', uid)),
+      snapshot => setBlockedBy(snapshot.docs.map(blockDoc => blockDoc.data().blockerId)),
+      error => console.error('Error listening to blocks against user:', error)
+    );
+
+    return () => {
+      unsubscribeBlocks();
+      unsubscribeBlockedBy();
+    };
+  }, [uid]);
+
+  const blockedUids = useMemo(
+    () => new Set([...blocks.map(block => block.blockedId), ...blockedBy]),
+    [blocks, blockedBy]
+  );
+
+  return { blocks, blockedUids, loading };
+}
+
+export default {
+  blockUser,
+  unblockUser,
+  isBlockedBetween,
+  loadBlockedUids,
+  useBlocks
+};
@@ -0,0 +1,298 @@
+/**
+ * Zoom-aware marker clustering using a hierarchical grid
+ *
+ * Points are projected to Web Mercator and merged level by level: each zoom
+ * level groups the clusters of the level below it into grid cells sized to
+ * the on-screen cluster radius, so every level is built once and lookups for
+ * a region are a simple filter.
+ */
+
+import { MarkerTier, TIER_RANKING } from '@/components/maps/EnhancedUserMapMarker';
+
+// On-screen radius (px) inside which markers collapse into one bubble
+const CLUSTER_RADIUS_PX = 60;
+// Map tiles are 256px wide at zoom 0
+const TILE_SIZE = 256;
+// Lowest zoom we bother building
+const MIN_CLUSTER_ZOOM = 0;
+// Markers this far off screen (in screens, each way) are still returned, so
+// bubbles don't pop in and out at the edges
+const EDGE_PADDING_SCREENS = 0.5;
+// Past this zoom every marker is shown individually (the default
+// neighborhood view sits just above it)
+export const MAX_CLUSTER_ZOOM = 14;
+
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+export interface ClusterablePoint {
+  uid: string;
+  latitude: number;
+  longitude: number;
+  tier?: MarkerTier;
+}
+
+export interface MarkerCluster<T extends ClusterablePoint> {
+  id: string;
+  latitude: number;
+  longitude: number;
+  count: number;
+  // Highest tier among the members, used for the bubble color
+  tier: MarkerTier;
+  members: T[];
+  bounds: {
+    minLat: number;
+    maxLat: number;
+    minLng: number;
+    maxLng: number;
+  };
+}
+
+export interface ClusterResult<T extends ClusterablePoint> {
+  clusters: MarkerCluster<T>[];
+  points: T[];
+  zoom: number;
+}
+
+export interface ClusterIndex<T extends ClusterablePoint> {
+  getClusters: (region: MapRegion, mapWidth: number) => ClusterResult<T>;
+  getExpansionRegion: (cluster: MarkerCluster<T>) => MapRegion;
+}
+
+// Internal node, position kept in projected [0, 1] space
+interface ClusterNode<T extends ClusterablePoint> {
+  id: string;
+  x: number;
+  y: number;
+  count: number;
+  tier: MarkerTier;
+  members: T[];
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/**
+ * Project longitude to Web Mercator x in [0, 1]
+ */
+const lngToX = (longitude: number): number => {
+  return (longitude + 180) / 360;
+};
+
+/**
+ * Project latitude to Web Mercator y in [0, 1]
+ */
+const latToY = (latitude: number): number => {
+  const sin = Math.sin(latitude * (Math.PI / 180));
+  const y = 0.5 - (0.25 * Math.log((1 + sin) / (1 - sin))) / Math.PI;
+  return Math.min(Math.max(y, 0), 1);
+};
+
+/**
+ * Unproject Web Mercator x back to longitude
+ */
+const xToLng = (x: number): number => {
+  return x * 360 - 180;
+};
+
+/**
+ * Unproject Web Mercator y back to latitude
+ */
+const yToLat = (y: number): number => {
+  const y2 = ((180 - y * 360) * Math.PI) / 180;
+  return (360 * Math.atan(Math.exp(y2))) / Math.PI - 90;
+};
+
+/**
+ * Get the map zoom level that a region corresponds to
+ */
+export const regionToZoom = (region: MapRegion, mapWidth: number): number => {
+  const longitudeDelta = Math.max(region.longitudeDelta, 1e-9);
+  return Math.log2((360 * (mapWidth / TILE_SIZE)) / longitudeDelta);
+};
+
+/**
+ * Pick the higher of two tiers
+ */
+const higherTier = (a: MarkerTier, b: MarkerTier): MarkerTier => {
+  return (TIER_RANKING[a] || 0) >= (TIER_RANKING[b] || 0) ? a : b;
+};
+
+/**
+ * Merge the nodes of one level into grid cells for the next level up
+ */
+const clusterLevel = <T extends ClusterablePoint>(
+  nodes: ClusterNode<T>[],
+  zoom: number
+): ClusterNode<T>[] => {
+  const cellSize = CLUSTER_RADIUS_PX / (TILE_SIZE * Math.pow(2, zoom));
+  const cells = new Map<string, ClusterNode<T>[]>();
+
+  nodes.forEach(node => {
+    const key = `${Math.floor(node.x / cellSize)}_${Math.floor(node.y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(node);
+    } else {
+      cells.set(key, [node]);
+    }
+  });
+
+  const merged: ClusterNode<T>[] = [];
+
+  cells.forEach((cellNodes, key) => {
+    if (cellNodes.length === 1) {
+      merged.push(cellNodes[0]);
+      return;
+    }
+
+    let count = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let tier: MarkerTier = 'casual';
+    const members: T[] = [];
+    let minX = Infinity;
+    let maxX = -Infinity;
+    let minY = Infinity;
+    let maxY = -Infinity;
+
+    cellNodes.forEach(node => {
+      // Weight the centroid by how many markers each node holds
+      count += node.count;
+      sumX += node.x * node.count;
+      sumY += node.y * node.count;
+      tier = higherTier(tier, node.tier);
+      members.push(...node.members);
+      minX = Math.min(minX, node.minX);
+      maxX = Math.max(maxX, node.maxX);
+      minY = Math.min(minY, node.minY);
+      maxY = Math.max(maxY, node.maxY);
+    });
+
+    merged.push({
+      id: `cluster-${zoom}-${key}`,
+      x: sumX / count,
+      y: sumY / count,
+      count,
+      tier,
+      members,
+      minX,
+      maxX,
+      minY,
+      maxY
+    });
+  });
+
+  return merged;
+};
+
+/**
+ * Convert an internal node to the public cluster shape
+ */
+const toCluster = <T extends ClusterablePoint>(node: ClusterNode<T>): MarkerCluster<T> => {
+  return {
+    id: node.id,
+    latitude: yToLat(node.y),
+    longitude: xToLng(node.x),
+    count: node.count,
+    tier: node.tier,
+    members: node.members,
+    bounds: {
+      // y grows southwards in Mercator space
+      minLat: yToLat(node.maxY),
+      maxLat: yToLat(node.minY),
+      minLng: xToLng(node.minX),
+      maxLng: xToLng(node.maxX)
+    }
+  };
+};
+
+/**
+ * Build a cluster index for a set of markers
+ * Rebuild it whenever the markers change; query it whenever the region changes.
+ */
+export const createClusterIndex = <T extends ClusterablePoint>(points: T[]): ClusterIndex<T> => {
+  const levels: ClusterNode<T>[][] = [];
+
+  // Leaf level holds every point on its own
+  levels[MAX_CLUSTER_ZOOM + 1] = points.map(point => {
+    const x = lngToX(point.longitude);
+    const y = latToY(point.latitude);
+    return {
+      id: point.uid,
+      x,
+      y,
+      count: 1,
+      tier: point.tier || 'casual',
+      members: [point],
+      minX: x,
+      maxX: x,
+      minY: y,
+      maxY: y
+    };
+  });
+
+  for (let zoom = MAX_CLUSTER_ZOOM; zoom >= MIN_CLUSTER_ZOOM; zoom--) {
+    levels[zoom] = clusterLevel(levels[zoom + 1], zoom);
+  }
+
+  const getClusters = (region: MapRegion, mapWidth: number): ClusterResult<T> => {
+    const zoom = Math.min(
+      Math.max(Math.floor(regionToZoom(region, mapWidth)), MIN_CLUSTER_ZOOM),
+      MAX_CLUSTER_ZOOM + 1
+    );
+
+    // The screen reaches half a delta either side of the center, plus padding
+    const latitudeReach = region.latitudeDelta * (0.5 + EDGE_PADDING_SCREENS);
+    const longitudeReach = region.longitudeDelta * (0.5 + EDGE_PADDING_SCREENS);
+    const minLat = region.latitude - latitudeReach;
+    const maxLat = region.latitude + latitudeReach;
+    const minLng = region.longitude - longitudeReach;
+    const maxLng = region.longitude + longitudeReach;
+
+    const clusters: MarkerCluster<T>[] = [];
+    const visiblePoints: T[] = [];
+
+    levels[zoom].forEach(node => {
+      const latitude = yToLat(node.y);
+      const longitude = xToLng(node.x);
+      if (latitude < minLat || latitude > maxLat || longitude < minLng || longitude > maxLng) {
+        return;
+      }
+
+      if (node.count === 1) {
+        visiblePoints.push(node.members[0]);
+      } else {
+        clusters.push(toCluster(node));
+      }
+    });
+
+    return { clusters, points: visiblePoints, zoom };
+  };
+
+  const getExpansionRegion = (cluster: MarkerCluster<T>): MapRegion => {
+    const { minLat, maxLat, minLng, maxLng } = cluster.bounds;
+    // Markers sharing a coordinate have no span; zoom in to street level instead
+    const MIN_DELTA = 0.002;
+
+    return {
+      latitude: (minLat + maxLat) / 2,
+      longitude: (minLng + maxLng) / 2,
+      latitudeDelta: Math.max((maxLat - minLat) * 1.6, MIN_DELTA),
+      longitudeDelta: Math.max((maxLng - minLng) * 1.6, MIN_DELTA)
+    };
+  };
+
+  return { getClusters, getExpansionRegion };
+};
+
+export default {
+  MAX_CLUSTER_ZOOM,
+  regionToZoom,
+  createClusterIndex
+};
@@ -0,0 +1,410 @@
+/**
+ * Compatibility scoring between the current user and the people around them
+ *
+ * Shared interests are weighted by how rare they are among the people in
+ * range (IDF), so sharing a niche hobby counts for more than sharing
+ * "music", and interests in the same taxonomy category earn partial credit.
+ * That is combined with "looking for" overlap, age preference and
+ * recent activity into a 0-100 score, and tiers are cut from the score.
+ * Signals either side hasn't filled in are left out rather than counted
+ * against anyone.
+ */
+
+import {
+  RELATED_INTEREST_CREDIT,
+  canonicalizeInterests,
+  getCategoryLabel,
+  getInterestCategory,
+  getInterestLabel,
+  matchInterests
+} from './interestTaxonomy';
+import { formatDistanceBucket } from './locationPrivacy';
+import { formatLastSeen } from './locationFreshness';
+
+export type CompatibilityTier = 'soulmate' | 'bestFriend' | 'friend' | 'buddy' | 'casual';
+
+export interface CompatibilityProfile {
+  interests?: string[] | null;
+  lookingFor?: string[] | null;
+  age?: number | null;
+  online?: boolean;
+  lastActive?: Date | number | null;
+}
+
+export interface CompatibilityPreferences {
+  // Preferred age range for others; without one, closeness in age is used
+  ageRange?: [number, number] | null;
+}
+
+export interface CompatibilityComponents {
+  // Each 0-1, or null when there wasn't enough data to judge
+  interests: number;
+  lookingFor: number | null;
+  age: number | null;
+  activity: number | null;
+}
+
+export interface CompatibilityMatches {
+  sharedInterests: string[];
+  // [mine, theirs] pairs from the same category
+  relatedInterests: Array<[string, string]>;
+  // Fraction (0-1) of the interest signal that came from related pairs
+  relatedShare: number;
+  sharedLookingFor: string[];
+}
+
+export interface CompatibilityResult {
+  // 0-100
+  score: number;
+  tier: CompatibilityTier;
+  components: CompatibilityComponents;
+  matches: CompatibilityMatches;
+}
+
+export type CompatibilityFactorKey = 'sharedInterests' | 'relatedInterests' | 'lookingFor' | 'age' | 'activity' | 'distance';
+
+export interface CompatibilityFactor {
+  key: CompatibilityFactorKey;
+  label: string;
+  detail: string;
+  // Points of the 0-100 score; null when the factor didn't count
+  points: number | null;
+}
+
+export interface CompatibilityBreakdown {
+  score: number;
+  tier: CompatibilityTier;
+  factors: CompatibilityFactor[];
+  // The tier above and how many points short of it the score is
+  nextTier: { tier: CompatibilityTier; pointsNeeded: number } | null;
+}
+
+// How much each signal contributes before renormalizing over the ones present
+export const COMPATIBILITY_WEIGHTS: Record<keyof CompatibilityComponents, number> = {
+  interests: 0.55,
+  lookingFor: 0.2,
+  age: 0.15,
+  activity: 0.1
+};
+
+// Minimum score for each tier, best first
+export const TIER_SCORE_THRESHOLDS: Array<{ tier: CompatibilityTier; minScore: number }> = [
+  { tier: 'soulmate', minScore: 80 },
+  { tier: 'bestFriend', minScore: 65 },
+  { tier: 'friend', minScore: 50 },
+  { tier: 'buddy', minScore: 35 },
+  { tier: 'casual', minScore: 0 }
+];
+
+export const TIER_LABELS: Record<CompatibilityTier, string> = {
+  soulmate: 'Soulmate',
+  bestFriend: 'Best Friend',
+  friend: 'Friend',
+  buddy: 'Buddy',
+  casual: 'Casual'
+};
+
+// Age gap (years) at which the age signal falls to half
+const AGE_HALF_GAP = 8;
+// Hours of inactivity at which the activity signal falls to about a third
+const ACTIVITY_DECAY_HOURS = 12;
+
+/**
+ * Weight every interest by its rarity across a population
+ * Smoothed so an interest nobody else has still gets a finite weight.
+ */
+export const buildInterestWeights = (population: Array<string[] | null | undefined>): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  population.forEach(interests => {
+    canonicalizeInterests(interests).forEach(interest => {
+      counts[interest] = (counts[interest] || 0) + 1;
+    });
+  });
+
+  const weights: Record<string, number> = {};
+  Object.keys(counts).forEach(interest => {
+    weights[interest] = Math.log((population.length + 1) / (counts[interest] + 1)) + 1;
+  });
+  return weights;
+};
+
+/**
+ * Look up an interest's weight, treating unseen interests as the rarest
+ */
+const getWeight = (weights: Record<string, number>, interest: string, fallback: number): number => {
+  return weights[interest] ?? fallback;
+};
+
+/**
+ * Rarity-weighted cosine similarity of two interest sets
+ * Same-category pairs count as a fraction of an exact match.
+ */
+const scoreInterests = (
+  mine: string[],
+  theirs: string[],
+  weights: Record<string, number>
+): { score: number; shared: string[]; related: Array<[string, string]>; relatedShare: number } => {
+  const mineIds = canonicalizeInterests(mine);
+  const theirIds = canonicalizeInterests(theirs);
+  if (mineIds.length === 0 || theirIds.length === 0) {
+    return { score: 0, shared: [], related: [], relatedShare: 0 };
+  }
+
+  const fallback = Math.max(1, ...Object.values(weights));
+  const weight = (interest: string) => getWeight(weights, interest, fallback);
+  const norm = (interests: string[]) =>
+    Math.sqrt(interests.reduce((sum, interest) => sum + weight(interest) ** 2, 0));
+
+  const { shared, related } = matchInterests(mineIds, theirIds);
+  const sharedDot = shared.reduce((sum, interest) => sum + weight(interest) ** 2, 0);
+  const relatedDot = related.reduce((sum, [a, b]) => sum + RELATED_INTEREST_CREDIT * weight(a) * weight(b), 0);
+  const dot = sharedDot + relatedDot;
+
+  return {
+    score: Math.min(dot / (norm(mineIds) * norm(theirIds)), 1),
+    shared,
+    related,
+    relatedShare: dot > 0 ? relatedDot / dot : 0
+  };
+};
+
+/**
+ * Goals two people are both looking for
+ */
+const sharedLookingFor = (mine?: string[] | null, theirs?: string[] | null): string[] => {
+  const theirSet = new Set(theirs || []);
+  return [...new Set(mine || [])].filter(value => theirSet.has(value));
+};
+
+/**
+ * Overlap of what two people are looking for (Jaccard)
+ */
+const scoreLookingFor = (mine?: string[] | null, theirs?: string[] | null): number | null => {
+  if (!mine?.length || !theirs?.length) return null;
+
+  const shared = sharedLookingFor(mine, theirs).length;
+  return shared / new Set([...mine, ...theirs]).size;
+};
+
+/**
+ * How well someone's age fits the viewer's preference
+ */
+const scoreAge = (
+  viewerAge: number | null | undefined,
+  candidateAge: number | null | undefined,
+  ageRange?: [number, number] | null
+): number | null => {
+  if (!candidateAge) return null;
+
+  if (ageRange) {
+    const [min, max] = ageRange;
+    if (candidateAge >= min && candidateAge <= max) return 1;
+    const gap = candidateAge < min ? min - candidateAge : candidateAge - max;
+    return 1 / (1 + gap / AGE_HALF_GAP);
+  }
+
+  if (!viewerAge) return null;
+  return 1 / (1 + Math.abs(viewerAge - candidateAge) / AGE_HALF_GAP);
+};
+
+/**
+ * How recently someone was around
+ */
+const scoreActivity = (candidate: CompatibilityProfile, now: number): number | null => {
+  if (candidate.online) return 1;
+  if (!candidate.lastActive) return null;
+
+  const lastActive = candidate.lastActive instanceof Date ? candidate.lastActive.getTime() : candidate.lastActive;
+  const hours = Math.max(now - lastActive, 0) / (60 * 60 * 1000);
+  return Math.exp(-hours / ACTIVITY_DECAY_HOURS);
+};
+
+/**
+ * Get the tier a score falls into
+ */
+export const getTierForScore = (score: number): CompatibilityTier => {
+  return (TIER_SCORE_THRESHOLDS.find(({ minScore }) => score >= minScore) || TIER_SCORE_THRESHOLDS[TIER_SCORE_THRESHOLDS.length - 1]).tier;
+};
+
+/**
+ * Score one candidate against the viewer
+ * `weights` should come from `buildInterestWeights` over the local population.
+ */
+export const scoreCompatibility = (
+  viewer: CompatibilityProfile,
+  candidate: CompatibilityProfile,
+  weights: Record<string, number>,
+  preferences: CompatibilityPreferences = {},
+  now: number = Date.now()
+): CompatibilityResult => {
+  const interestMatch = scoreInterests(viewer.interests || [], candidate.interests || [], weights);
+  const components: CompatibilityComponents = {
+    interests: interestMatch.score,
+    lookingFor: scoreLookingFor(viewer.lookingFor, candidate.lookingFor),
+    age: scoreAge(viewer.age, candidate.age, preferences.ageRange),
+    activity: scoreActivity(candidate, now)
+  };
+
+  let weighted = 0;
+  let totalWeight = 0;
+  (Object.keys(COMPATIBILITY_WEIGHTS) as Array<keyof CompatibilityComponents>).forEach(key => {
+    const value = components[key];
+    if (value === null) return;
+    weighted += value * COMPATIBILITY_WEIGHTS[key];
+    totalWeight += COMPATIBILITY_WEIGHTS[key];
+  });
+
+  const score = totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : 0;
+  return {
+    score,
+    tier: getTierForScore(score),
+    components,
+    matches: {
+      sharedInterests: interestMatch.shared,
+      relatedInterests: interestMatch.related,
+      relatedShare: interestMatch.relatedShare,
+      sharedLookingFor: sharedLookingFor(viewer.lookingFor, candidate.lookingFor)
+    }
+  };
+};
+
+/**
+ * Score everyone in range against the viewer
+ * Interest rarity is measured across the viewer and all candidates.
+ */
+export const scorePopulation = <T extends CompatibilityProfile>(
+  viewer: CompatibilityProfile,
+  candidates: T[],
+  preferences: CompatibilityPreferences = {},
+  now: number = Date.now()
+): Array<T & { compatibility: CompatibilityResult }> => {
+  const weights = buildInterestWeights([
+    viewer.interests,
+    ...candidates.map(candidate => candidate.interests)
+  ]);
+
+  return candidates.map(candidate => ({
+    ...candidate,
+    compatibility: scoreCompatibility(viewer, candidate, weights, preferences, now)
+  }));
+};
+
+/**
+ * How many points each signal added to a score
+ * Uses the same renormalization as `scoreCompatibility`, so they sum to the
+ * score before rounding. Signals that were left out get null.
+ */
+const getPoints = (components: CompatibilityComponents): Record<keyof CompatibilityComponents, number | null> => {
+  const keys = Object.keys(COMPATIBILITY_WEIGHTS) as Array<keyof CompatibilityComponents>;
+  const totalWeight = keys.reduce((sum, key) => sum + (components[key] === null ? 0 : COMPATIBILITY_WEIGHTS[key]), 0);
+
+  const points = {} as Record<keyof CompatibilityComponents, number | null>;
+  keys.forEach(key => {
+    const value = components[key];
+    points[key] = value === null || totalWeight === 0
+      ? null
+      : (value * COMPATIBILITY_WEIGHTS[key] / totalWeight) * 100;
+  });
+  return points;
+};
+
+const describeList = (items: string[]): string => {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+};
+
+/**
+ * Explain a compatibility result factor by factor
+ * `candidate` supplies the context that isn't part of the result itself.
+ */
+export const explainCompatibility = (
+  result: CompatibilityResult,
+  candidate: { distance?: number | null; online?: boolean; lastActive?: Date | number | null } = {},
+  now: number = Date.now()
+): CompatibilityBreakdown => {
+  const { components, matches } = result;
+  const points = getPoints(components);
+  const interestPoints = points.interests ?? 0;
+  const factors: CompatibilityFactor[] = [];
+
+  factors.push({
+    key: 'sharedInterests',
+    label: 'Shared interests',
+    detail: matches.sharedInterests.length > 0
+      ? describeList(matches.sharedInterests.map(getInterestLabel))
+      : 'No interests in common',
+    points: interestPoints * (1 - matches.relatedShare)
+  });
+
+  if (matches.relatedInterests.length > 0) {
+    factors.push({
+      key: 'relatedInterests',
+      label: 'Similar interests',
+      detail: describeList(matches.relatedInterests.map(([mine, theirs]) => {
+        const category = getInterestCategory(mine);
+        const categoryLabel = category ? ` (${getCategoryLabel(category)})` : '';
+        return `${getInterestLabel(mine)} & ${getInterestLabel(theirs)}${categoryLabel}`;
+      })),
+      points: interestPoints * matches.relatedShare
+    });
+  }
+
+  factors.push({
+    key: 'lookingFor',
+    label: 'Looking for',
+    detail: components.lookingFor === null
+      ? 'Not filled in, so not counted'
+      : matches.sharedLookingFor.length > 0
+        ? `Both looking for ${describeList(matches.sharedLookingFor)}`
+        : 'Looking for different things',
+    points: points.lookingFor
+  });
+
+  let ageDetail = 'No age given, so not counted';
+  if (components.age !== null) {
+    if (components.age >= 0.99) ageDetail = 'A good fit for the age you prefer';
+    else if (components.age >= 0.6) ageDetail = 'A few years from the age you prefer';
+    else ageDetail = 'Well outside the age you prefer';
+  }
+  factors.push({ key: 'age', label: 'Age', detail: ageDetail, points: points.age });
+
+  let activityDetail = 'Activity unknown, so not counted';
+  if (candidate.online) {
+    activityDetail = 'Online now';
+  } else if (candidate.lastActive) {
+    const lastActive = candidate.lastActive instanceof Date ? candidate.lastActive.getTime() : candidate.lastActive;
+    activityDetail = `Active ${formatLastSeen(lastActive, now)}`;
+  }
+  factors.push({ key: 'activity', label: 'Recent activity', detail: activityDetail, points: points.activity });
+
+  // Distance only orders people with the same score
+  if (typeof candidate.distance === 'number') {
+    factors.push({
+      key: 'distance',
+      label: 'Distance',
+      detail: `${formatDistanceBucket(candidate.distance)} away; breaks ties between equal matches`,
+      points: null
+    });
+  }
+
+  const tierIndex = TIER_SCORE_THRESHOLDS.findIndex(({ tier }) => tier === result.tier);
+  const above = tierIndex > 0 ? TIER_SCORE_THRESHOLDS[tierIndex - 1] : null;
+
+  return {
+    score: result.score,
+    tier: result.tier,
+    factors,
+    nextTier: above ? { tier: above.tier, pointsNeeded: above.minScore - result.score } : null
+  };
+};
+
+export default {
+  COMPATIBILITY_WEIGHTS,
+  TIER_SCORE_THRESHOLDS,
+  TIER_LABELS,
+  buildInterestWeights,
+  getTierForScore,
+  scoreCompatibility,
+  scorePopulation,
+  explainCompatibility
+};
@@ -0,0 +1,98 @@
+/**
+ * Searching, sorting and grouping the connections list
+ *
+ * Everything runs on the connections already loaded, so typing in the search
+ * box or switching the sort never goes back to Firestore.
+ */
+
+import { MarkerTier, TIER_RANKING } from '@/components/maps/EnhancedUserMapMarker';
+import { getInterestLabel, normalizeInterestText } from './interestTaxonomy';
+
+export type ConnectionSort = 'recentMessage' | 'recentConnection' | 'tier' | 'name';
+
+export const CONNECTION_SORTS: { id: ConnectionSort; label: string }[] = [
+  { id: 'recentMessage', label: 'Recently messaged' },
+  { id: 'recentConnection', label: 'Recently connected' },
+  { id: 'tier', label: 'Tier' },
+  { id: 'name', label: 'Name' }
+];
+
+export const DEFAULT_CONNECTION_SORT: ConnectionSort = 'tier';
+
+// The fields of a connection row these helpers look at
+export interface ConnectionListItem {
+  otherUserName: string;
+  tier?: string;
+  sharedInterests?: string[];
+  otherUserInterests?: string[];
+  // Epoch ms, or null if unknown
+  acceptedAt?: number | null;
+  lastMessageAt?: number | null;
+}
+
+export interface TierGroup<T> {
+  tier: MarkerTier;
+  connections: T[];
+}
+
+const tierRank = (tier?: string): number => TIER_RANKING[tier as MarkerTier] || TIER_RANKING.casual;
+
+const byName = (a: ConnectionListItem, b: ConnectionListItem): number =>
+  (a.otherUserName || '').localeCompare(b.otherUserName || '');
+
+/**
+ * Whether a connection matches a search over names and interests
+ * Every word typed has to start a word in the name or an interest.
+ */
+export const matchesConnectionSearch = (connection: ConnectionListItem, text: string): boolean => {
+  const terms = normalizeInterestText(text).split(' ').filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const interests = [...(connection.sharedInterests || []), ...(connection.otherUserInterests || [])];
+  const words = normalizeInterestText([
+    connection.otherUserName || '',
+    ...interests.map(getInterestLabel)
+  ].join(' ')).split(' ');
+
+  return terms.every(term => words.some(word => word.startsWith(term)));
+};
+
+/**
+ * Sort connections; ties, and anything without a date, fall back to name
+ */
+export const sortConnections = <T extends ConnectionListItem>(connections: T[], sort: ConnectionSort): T[] => {
+  const byDate = (field: 'acceptedAt' | 'lastMessageAt') => (a: T, b: T) =>
+    (b[field] || 0) - (a[field] || 0) || byName(a, b);
+
+  const comparators: Record<ConnectionSort, (a: T, b: T) => number> = {
+    recentMessage: byDate('lastMessageAt'),
+    recentConnection: byDate('acceptedAt'),
+    tier: (a, b) => tierRank(b.tier) - tierRank(a.tier) || byName(a, b),
+    name: byName
+  };
+
+  return [...connections].sort(comparators[sort]);
+};
+
+/**
+ * Split connections by tier, highest first, keeping their order within each
+ */
+export const groupConnectionsByTier = <T extends ConnectionListItem>(connections: T[]): TierGroup<T>[] => {
+  const groups = new Map<MarkerTier, T[]>();
+  connections.forEach(connection => {
+    const tier = (connection.tier && connection.tier in TIER_RANKING ? connection.tier : 'casual') as MarkerTier;
+    groups.set(tier, [...(groups.get(tier) || []), connection]);
+  });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => TIER_RANKING[b] - TIER_RANKING[a])
+    .map(([tier, tierConnections]) => ({ tier, connections: tierConnections }));
+};
+
+export default {
+  CONNECTION_SORTS,
+  DEFAULT_CONNECTION_SORT,
+  matchesConnectionSearch,
+  sortConnections,
+  groupConnectionsByTier
+};
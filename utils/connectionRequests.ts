@@ -0,0 +1,662 @@
+/**
+ * Connection requests: the relationship between two users
+ *
+ * Each pair of users has at most one doc in `connectionRequests`, keyed by
+ * their sorted uids (see getPairId), so finding out where two people stand is
+ * a single read and two people tapping "connect" at once can't create two
+ * requests. The doc moves through a small state machine:
+ *
+ *   none -> pending (by the sender) -> accepted | declined | blocked
+ *   accepted -> removed
+ *
+ * "none" means there is no doc. Withdrawing a request deletes it, or puts a
+ * pair that was connected before back to removed, and an expired pending
+ * request counts as none. Removing a connection archives its
+ * chat read-only for both people; either of them can send a new request,
+ * and accepting it reopens the same chat. A declined request keeps the
+ * receiver's answer: the sender can't ask again for DECLINE_COOLDOWN_DAYS,
+ * though the person who declined can send a request of their own at any time.
+ * Blocking (utils/blocks.ts) moves any relationship short of accepted to
+ * blocked, and lifting the last block clears it, or sets it back to removed
+ * for a pair that had a chat, so the chat still reopens.
+ *
+ * A request can carry a short intro note from the sender and expires after
+ * the number of days the sender picked. Expired requests stay in Firestore
+ * until someone clears them, but are hidden from the receiver and can't be
+ * accepted; the sender sees them marked as expired and can remove them.
+ * Requests sent before expiry existed expire DEFAULT_REQUEST_EXPIRY_DAYS
+ * after their `timestamp`.
+ *
+ * Accepting runs in one transaction. The chat room takes the request's ID
+ * (or keeps the pair's earlier room, carried over on the doc as chatRoomId)
+ * and the welcome message a fixed ID, so a double tap or a retry after a crash
+ * finds the work already done instead of creating a second room.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  collection,
+  doc,
+  DocumentData,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  where,
+  runTransaction,
+  serverTimestamp,
+  Timestamp
+} from '@firebase/firestore';
+import { db } from '@/config/firebase';
+import { getInterestLabel } from './interestTaxonomy';
+
+export const MAX_INTRO_NOTE_LENGTH = 200;
+
+// How long a request can stay pending, as offered to the sender (days)
+export const REQUEST_EXPIRY_OPTIONS = [3, 7, 14, 30];
+export const DEFAULT_REQUEST_EXPIRY_DAYS = 7;
+
+// How long after a decline before the sender can ask again
+export const DECLINE_COOLDOWN_DAYS = 30;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Bump to move requests from before pair IDs again; kept on the user doc
+export const CONNECTION_PAIRS_VERSION = 1;
+
+export interface InviteOptions {
+  note: string;
+  expiryDays: number;
+}
+
+export type RelationshipStatus = 'none' | 'pending' | 'accepted' | 'declined' | 'blocked' | 'removed';
+
+export interface Relationship {
+  // The pair ID, also used for the chat room once accepted
+  id: string;
+  status: RelationshipStatus;
+  // Who sent the current or last request
+  senderId: string | null;
+  receiverId: string | null;
+  chatRoomId: string | null;
+  blockedBy: string | null;
+}
+
+// What the map and profile card know about the person being asked
+export interface NewConnectionRequest {
+  senderName: string;
+  tier: string | null;
+  sharedInterests: string[];
+  sharedInterestsCount: number;
+  options?: Partial<InviteOptions>;
+}
+
+export type SendStatus = 'sent' | 'alreadySent' | 'incoming' | 'connected' | 'declined' | 'blocked';
+
+// What to tell the user when a request isn't sent
+export const SEND_FAILURE_MESSAGES: Record<Exclude<SendStatus, 'sent'>, string> = {
+  alreadySent: 'You have already sent a connection request to this user.',
+  incoming: 'This user has already sent you a connection request. Check your connections tab!',
+  connected: 'You are already connected with this user.',
+  declined: 'This user isn\'t taking requests from you right now. Try again later.',
+  blocked: 'You can\'t connect with this user.'
+};
+
+export type AcceptStatus = 'accepted' | 'alreadyAccepted' | 'notFound' | 'notReceiver' | 'expired' | 'blocked';
+
+export interface AcceptResult {
+  status: AcceptStatus;
+  // Set when the request ended up accepted
+  chatRoomId: string | null;
+}
+
+// What to tell the user when an accept doesn't go through
+export const ACCEPT_FAILURE_MESSAGES: Record<Exclude<AcceptStatus, 'accepted' | 'alreadyAccepted'>, string> = {
+  notFound: 'This connection request was withdrawn or no longer exists.',
+  notReceiver: 'Only the person this request was sent to can accept it.',
+  expired: 'This connection request has expired.',
+  blocked: 'This connection request is no longer available.'
+};
+
+export type DeclineStatus = 'declined' | 'notFound' | 'notPending' | 'notReceiver';
+export type WithdrawStatus = 'withdrawn' | 'notFound' | 'notPending' | 'notSender';
+
+// What to tell the user when a decline or withdrawal doesn't go through
+export const DECLINE_FAILURE_MESSAGES: Record<Exclude<DeclineStatus, 'declined'>, string> = {
+  notFound: 'This connection request was withdrawn or no longer exists.',
+  notPending: 'This connection request has already been answered.',
+  notReceiver: 'Only the person this request was sent to can decline it.'
+};
+
+export const WITHDRAW_FAILURE_MESSAGES: Record<Exclude<WithdrawStatus, 'withdrawn'>, string> = {
+  notFound: 'This connection request no longer exists.',
+  notPending: 'This connection request has already been answered.',
+  notSender: 'Only the person who sent this request can withdraw it.'
+};
+
+const WELCOME_MESSAGE_ID = 'welcome';
+const WELCOME_MESSAGE_TEXT = 'You are now connected! Say hello to your new connection.';
+
+const toMillis = (value: any): number | null => {
+  if (!value) return null;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  return typeof value === 'number' ? value : null;
+};
+
+/**
+ * The ID of the relationship doc between two users, the same either way round
+ */
+export const getPairId = (uid: string, otherUid: string): string => [uid, otherUid].sort().join('_');
+
+/**
+ * Clamp an expiry to one of the offered options
+ */
+export const resolveExpiryDays = (days?: number | null): number => {
+  return typeof days === 'number' && REQUEST_EXPIRY_OPTIONS.includes(days) ? days : DEFAULT_REQUEST_EXPIRY_DAYS;
+};
+
+/**
+ * Fields to add to a new request for its note and expiry
+ */
+export const buildInviteFields = (options?: Partial<InviteOptions>, now: number = Date.now()) => {
+  const note = (options?.note || '').trim().slice(0, MAX_INTRO_NOTE_LENGTH);
+  return {
+    note: note || null,
+    expiresAt: Timestamp.fromMillis(now + resolveExpiryDays(options?.expiryDays) * DAY)
+  };
+};
+
+/**
+ * When a request expires (epoch ms), or null if it can't be told
+ */
+export const getRequestExpiry = (request: { expiresAt?: any; timestamp?: any }): number | null => {
+  const expiresAt = toMillis(request.expiresAt);
+  if (expiresAt !== null) return expiresAt;
+
+  const sentAt = toMillis(request.timestamp);
+  return sentAt !== null ? sentAt + DEFAULT_REQUEST_EXPIRY_DAYS * DAY : null;
+};
+
+export const isRequestExpired = (
+  request: { expiresAt?: any; timestamp?: any },
+  now: number = Date.now()
+): boolean => {
+  const expiry = getRequestExpiry(request);
+  return expiry !== null && expiry <= now;
+};
+
+/**
+ * Describe how long a request has left, e.g. "Expires in 3 days"
+ */
+export const describeRequestExpiry = (
+  request: { expiresAt?: any; timestamp?: any },
+  now: number = Date.now()
+): string => {
+  const expiry = getRequestExpiry(request);
+  if (expiry === null) return '';
+
+  const remaining = expiry - now;
+  if (remaining <= 0) return 'Expired';
+  if (remaining < DAY) {
+    const hours = Math.max(1, Math.round(remaining / (60 * 60 * 1000)));
+    return `Expires in ${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  const days = Math.round(remaining / DAY);
+  return `Expires in ${days} day${days === 1 ? '' : 's'}`;
+};
+
+/**
+ * Ready-made intro notes built around the interests two people share
+ */
+export const suggestIntroNotes = (name: string, sharedInterests: string[] = []): string[] => {
+  const firstName = (name || '').trim().split(' ')[0] || 'there';
+  const labels = sharedInterests.slice(0, 2).map(interest => getInterestLabel(interest).toLowerCase());
+
+  if (labels.length === 0) {
+    return [`Hi ${firstName}! Looks like we're nearby, want to connect?`];
+  }
+
+  const interests = labels.join(' and ');
+  return [
+    `Hi ${firstName}! I see we're both into ${interests}, want to connect?`,
+    `Hey ${firstName}, always looking for people who like ${interests}. Up for meeting sometime?`
+  ];
+};
+
+/**
+ * Read a relationship doc's state; an expired pending request counts as none
+ */
+export const toRelationship = (id: string, data: any, now: number = Date.now()): Relationship => {
+  const expired = data?.status === 'pending' && isRequestExpired(data, now);
+  if (!data || expired) {
+    return { id, status: 'none', senderId: null, receiverId: null, chatRoomId: null, blockedBy: null };
+  }
+
+  return {
+    id,
+    status: data.status,
+    senderId: data.senderId || null,
+    receiverId: data.receiverId || null,
+    chatRoomId: data.chatRoomId || null,
+    blockedBy: data.blockedBy || null
+  };
+};
+
+/**
+ * Where two users stand with each other
+ */
+export const getRelationship = async (uid: string, otherUid: string): Promise<Relationship> => {
+  const id = getPairId(uid, otherUid);
+  const relationshipDoc = await getDoc(doc(db, 'connectionRequests', id));
+  return toRelationship(id, relationshipDoc.exists() ? relationshipDoc.data() : null);
+};
+
+// A request doc from before pair IDs; other fields are copied across as they are
+interface LegacyConnectionRequest extends DocumentData {
+  senderId: string;
+  receiverId: string;
+  participants?: string[];
+  status?: RelationshipStatus;
+  chatRoomId?: string;
+  timestamp?: Timestamp;
+  acceptedAt?: Timestamp;
+  expiresAt?: Timestamp;
+}
+
+const isLegacyConnectionRequest = (data?: DocumentData): data is LegacyConnectionRequest =>
+  typeof data?.senderId === 'string' && typeof data?.receiverId === 'string';
+
+// Lower is kept first when a pair has several requests from before pair IDs
+const legacyKeepRank = (data: DocumentData, now: number): number => {
+  if (data.status === 'accepted') return 0;
+  if (data.status === 'blocked') return 1;
+  if (data.status === 'pending' && !isRequestExpired(data, now)) return 2;
+  if (data.status === 'declined') return 3;
+  return 4;
+};
+
+/**
+ * Move a user's requests from before pair IDs onto their pairs' docs
+ * Requests used to get auto IDs, so a pair could have several. The one that
+ * matters most is kept under the pair ID, the rest are deleted, and the user's
+ * older blocks get a blocked relationship, all as in
+ * scripts/migrate-connection-pairs.js. AuthContext runs it once per user
+ * (CONNECTION_PAIRS_VERSION), so pairs the script never reached still show up. Returns how many pairs changed.
+ */
+export const migrateLegacyConnectionRequests = async (uid: string): Promise<number> => {
+  const [sentSnapshot, receivedSnapshot, blocksSnapshot] = await Promise.all([
+    getDocs(query(collection(db, 'connectionRequests'), where('senderId', '==', uid))),
+    getDocs(query(collection(db, 'connectionRequests'), where('receiverId', '==', uid))),
+    getDocs(query(collection(db, 'blocks'), where('blockerId', '==', uid)))
+  ]);
+
+  // Legacy request IDs by the pair they belong to
+  const legacyByPair = new Map<string, string[]>();
+  [...sentSnapshot.docs, ...receivedSnapshot.docs].forEach(requestDoc => {
+    const request = requestDoc.data();
+    if (!isLegacyConnectionRequest(request)) return;
+    const pairId = getPairId(request.senderId, request.receiverId);
+    if (requestDoc.id === pairId) return;
+    legacyByPair.set(pairId, [...(legacyByPair.get(pairId) || []), requestDoc.id]);
+  });
+
+  const blocksByPair = new Map<string, DocumentData>();
+  blocksSnapshot.docs.forEach(blockDoc => {
+    blocksByPair.set(getPairId(uid, blockDoc.data().blockedId), blockDoc.data());
+  });
+
+  let migrated = 0;
+  for (const pairId of new Set([...legacyByPair.keys(), ...blocksByPair.keys()])) {
+    const pairRef = doc(db, 'connectionRequests', pairId);
+    const legacyRefs = (legacyByPair.get(pairId) || []).map(id => doc(db, 'connectionRequests', id));
+
+    const changed = await runTransaction(db, async (transaction): Promise<boolean> => {
+      const requestDocs = await Promise.all([pairRef, ...legacyRefs].map(ref => transaction.get(ref)));
+      const now = Date.now();
+
+      // The pair's own doc may be a block with no sender; the others need both
+      const keeper = requestDocs
+        .map(requestDoc => ({ id: requestDoc.id, data: requestDoc.data() }))
+        .filter((candidate): candidate is { id: string; data: DocumentData } => candidate.id === pairId
+          ? candidate.data !== undefined
+          : isLegacyConnectionRequest(candidate.data))
+        .sort((a, b) => {
+          const byRank = legacyKeepRank(a.data, now) - legacyKeepRank(b.data, now);
+          if (byRank !== 0) return byRank;
+          if ((a.id === pairId) !== (b.id === pairId)) return a.id === pairId ? -1 : 1;
+          if (a.data.status === 'accepted') {
+            return (toMillis(a.data.acceptedAt) || 0) - (toMillis(b.data.acceptedAt) || 0);
+          }
+          return (toMillis(b.data.timestamp) || 0) - (toMillis(a.data.timestamp) || 0);
+        })[0];
+
+      let kept: DocumentData | null = keeper && keeper.id !== pairId
+        ? { ...keeper.data, participants: keeper.data.participants || [keeper.data.senderId, keeper.data.receiverId] }
+        : null;
+
+      // Accepted connections stay put while blocked, as in utils/blocks.ts
+      const block = blocksByPair.get(pairId);
+      const keptStatus = keeper?.data.status;
+      if (block && keptStatus !== 'accepted' && keptStatus !== 'blocked') {
+        const chatRoomId = kept?.chatRoomId || keeper?.data.chatRoomId;
+        kept = {
+          participants: [uid, block.blockedId],
+          status: 'blocked',
+          blockedBy: uid,
+          blockedAt: block.createdAt || serverTimestamp(),
+          ...(chatRoomId ? { chatRoomId } : {})
+        };
+      }
+
+      // The chat room keeps its ID but should point at the pair's doc
+      const chatRoomRef = kept?.status === 'accepted' && kept.chatRoomId
+        ? doc(db, 'chatRooms', kept.chatRoomId)
+        : null;
+      const chatRoomDoc = chatRoomRef ? await transaction.get(chatRoomRef) : null;
+
+      const legacyDocs = requestDocs.slice(1).filter(requestDoc => requestDoc.exists());
+      if (!kept && legacyDocs.length === 0) return false;
+
+      if (kept) transaction.set(pairRef, kept);
+      legacyDocs.forEach(requestDoc => transaction.delete(requestDoc.ref));
+      if (chatRoomRef && chatRoomDoc?.exists()) {
+        transaction.update(chatRoomRef, { connectionId: pairId });
+      }
+      return true;
+    });
+
+    if (changed) migrated++;
+  }
+
+  console.log(`Migrated ${migrated} connection pairs for user ${uid}`);
+  return migrated;
+};
+
+/**
+ * Send a connection request, unless the relationship already rules it out
+ * An expired request, or one the user declined themselves, is replaced.
+ */
+export const sendConnectionRequest = async (
+  uid: string,
+  otherUid: string,
+  request: NewConnectionRequest
+): Promise<SendStatus> => {
+  if (uid === otherUid) {
+    throw new Error('Cannot send a connection request to yourself');
+  }
+
+  const relationshipRef = doc(db, 'connectionRequests', getPairId(uid, otherUid));
+
+  const status = await runTransaction(db, async (transaction): Promise<SendStatus> => {
+    const relationshipDoc = await transaction.get(relationshipRef);
+    const data = relationshipDoc.exists() ? relationshipDoc.data() : null;
+    const relationship = toRelationship(relationshipRef.id, data);
+
+    switch (relationship.status) {
+      case 'accepted':
+        return 'connected';
+      case 'blocked':
+        return 'blocked';
+      case 'pending':
+        return relationship.senderId === uid ? 'alreadySent' : 'incoming';
+      case 'declined': {
+        const declinedAt = toMillis(data?.declinedAt);
+        const coolingDown = declinedAt === null || Date.now() - declinedAt < DECLINE_COOLDOWN_DAYS * DAY;
+        // The receiver who declined is free to change their mind
+        if (relationship.senderId === uid && coolingDown) return 'declined';
+        break;
+      }
+    }
+
+    // Replace rather than merge so nothing from an earlier request lingers,
+    // except the chat room, which accepting this one should reopen
+    transaction.set(relationshipRef, {
+      senderId: uid,
+      receiverId: otherUid,
+      participants: [uid, otherUid],
+      senderName: request.senderName,
+      status: 'pending',
+      timestamp: serverTimestamp(),
+      tier: request.tier,
+      sharedInterests: request.sharedInterests,
+      sharedInterestsCount: request.sharedInterestsCount,
+      ...(data?.chatRoomId ? { chatRoomId: data.chatRoomId } : {}),
+      ...buildInviteFields(request.options)
+    });
+    return 'sent';
+  });
+
+  console.log(`Send connection request to ${otherUid}: ${status}`);
+  return status;
+};
+
+/**
+ * Decline a pending request the user received
+ */
+export const declineConnectionRequest = async (uid: string, requestId: string): Promise<DeclineStatus> => {
+  const requestRef = doc(db, 'connectionRequests', requestId);
+
+  const status = await runTransaction(db, async (transaction): Promise<DeclineStatus> => {
+    const requestDoc = await transaction.get(requestRef);
+    if (!requestDoc.exists()) return 'notFound';
+
+    const request = requestDoc.data();
+    if (request.status !== 'pending') return 'notPending';
+    if (request.receiverId !== uid) return 'notReceiver';
+
+    transaction.update(requestRef, {
+      status: 'declined',
+      declinedAt: serverTimestamp()
+    });
+    return 'declined';
+  });
+
+  console.log(`Decline connection request ${requestId}: ${status}`);
+  return status;
+};
+
+/**
+ * Withdraw a pending request the user sent, or clear an expired one
+ * Anything already answered is left alone, so a stale tap can't undo it.
+ */
+export const withdrawConnectionRequest = async (uid: string, requestId: string): Promise<WithdrawStatus> => {
+  const requestRef = doc(db, 'connectionRequests', requestId);
+
+  const status = await runTransaction(db, async (transaction): Promise<WithdrawStatus> => {
+    const requestDoc = await transaction.get(requestRef);
+    if (!requestDoc.exists()) return 'notFound';
+
+    const request = requestDoc.data();
+    if (request.status !== 'pending') return 'notPending';
+    if (request.senderId !== uid) return 'notSender';
+
+    // A pair that was connected before goes back to removed, keeping its chat
+    if (request.chatRoomId) {
+      transaction.set(requestRef, {
+        participants: request.participants || [request.senderId, request.receiverId],
+        status: 'removed',
+        chatRoomId: request.chatRoomId
+      });
+    } else {
+      transaction.delete(requestRef);
+    }
+    return 'withdrawn';
+  });
+
+  console.log(`Withdraw connection request ${requestId}: ${status}`);
+  return status;
+};
+
+/**
+ * Accept a request the user received, creating the chat room with it
+ * Safe to call more than once: an accepted request just returns its room.
+ */
+export const acceptConnectionRequest = async (uid: string, requestId: string): Promise<AcceptResult> => {
+  const requestRef = doc(db, 'connectionRequests', requestId);
+
+  const result = await runTransaction(db, async (transaction) => {
+    const requestDoc = await transaction.get(requestRef);
+    if (!requestDoc.exists()) {
+      return { status: 'notFound', chatRoomId: null } as AcceptResult;
+    }
+
+    const request = requestDoc.data();
+    // One room per pair, so retries land on the same doc; a pair that was
+    // connected before, or migrated with an older room, keeps the room it had
+    const chatRoomRef = doc(db, 'chatRooms', request.chatRoomId || requestId);
+    // Reads have to come before any writes
+    const chatRoomDoc = await transaction.get(chatRoomRef);
+    if (request.status === 'accepted') {
+      return { status: 'alreadyAccepted', chatRoomId: chatRoomRef.id } as AcceptResult;
+    }
+    // Blocking moves the relationship on, so this also covers blocks
+    if (request.status === 'blocked') {
+      return { status: 'blocked', chatRoomId: null } as AcceptResult;
+    }
+    if (request.status !== 'pending') {
+      return { status: 'notFound', chatRoomId: null } as AcceptResult;
+    }
+    if (request.receiverId !== uid) {
+      return { status: 'notReceiver', chatRoomId: null } as AcceptResult;
+    }
+    if (isRequestExpired(request)) {
+      return { status: 'expired', chatRoomId: null } as AcceptResult;
+    }
+
+    const participants = [request.senderId, request.receiverId];
+
+    transaction.update(requestRef, {
+      status: 'accepted',
+      // Participants array for easier querying
+      participants,
+      acceptedAt: serverTimestamp(),
+      chatRoomId: chatRoomRef.id
+    });
+
+    if (chatRoomDoc.exists()) {
+      // Reconnecting after a removal picks the archived chat back up
+      transaction.update(chatRoomRef, {
+        participants,
+        connectionId: requestId,
+        archived: false,
+        archivedAt: null,
+        archivedBy: null
+      });
+    } else {
+      transaction.set(chatRoomRef, {
+        participants,
+        connectionId: requestId,
+        createdAt: serverTimestamp(),
+        lastMessage: null,
+        lastMessageText: '',
+        lastMessageTimestamp: null
+      });
+    }
+
+    transaction.set(doc(chatRoomRef, 'messages', WELCOME_MESSAGE_ID), {
+      text: WELCOME_MESSAGE_TEXT,
+      createdAt: serverTimestamp(),
+      system: true
+    });
+
+    return { status: 'accepted', chatRoomId: chatRoomRef.id } as AcceptResult;
+  });
+
+  console.log(`Accept connection request ${requestId}: ${result.status}`);
+  return result;
+};
+
+/**
+ * Remove an accepted connection and archive its chat for both people
+ * Removing one that's already removed does nothing.
+ */
+export const removeConnection = async (uid: string, relationshipId: string): Promise<void> => {
+  const relationshipRef = doc(db, 'connectionRequests', relationshipId);
+
+  await runTransaction(db, async (transaction) => {
+    const relationshipDoc = await transaction.get(relationshipRef);
+    const relationship = relationshipDoc.data();
+    if (relationship?.status === 'removed') return;
+    if (relationship?.status !== 'accepted') {
+      throw new Error('Only an accepted connection can be removed');
+    }
+
+    const chatRoomRef = relationship.chatRoomId ? doc(db, 'chatRooms', relationship.chatRoomId) : null;
+    const chatRoomDoc = chatRoomRef ? await transaction.get(chatRoomRef) : null;
+
+    transaction.update(relationshipRef, {
+      status: 'removed',
+      removedBy: uid,
+      removedAt: serverTimestamp()
+    });
+
+    if (chatRoomRef && chatRoomDoc?.exists()) {
+      transaction.update(chatRoomRef, {
+        archived: true,
+        archivedAt: serverTimestamp(),
+        archivedBy: uid
+      });
+    }
+  });
+
+  console.log(`Connection ${relationshipId} removed`);
+};
+
+/**
+ * Live set of everyone the user is connected with
+ */
+export function useConnectedUids(uid?: string | null) {
+  const [connectedUids, setConnectedUids] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!uid) {
+      setConnectedUids(new Set());
+      return;
+    }
+
+    const connectionsQuery = query(
+      collection(db, 'connectionRequests'),
+      where('status', '==', 'accepted'),
+      where('participants', 'array-contains', uid)
+    );
+
+    return onSnapshot(
+      connectionsQuery,
+      snapshot => {
+        const others = snapshot.docs.map(connectionDoc => {
+          const participants: string[] = connectionDoc.data().participants || [];
+          return participants.find(participant => participant !== uid);
+        });
+        setConnectedUids(new Set(others.filter((other): other is string => !!other)));
+      },
+      error => console.error('Error listening to connections:', error)
+    );
+  }, [uid]);
+
+  return connectedUids;
+}
+
+export default {
+  MAX_INTRO_NOTE_LENGTH,
+  REQUEST_EXPIRY_OPTIONS,
+  DEFAULT_REQUEST_EXPIRY_DAYS,
+  DECLINE_COOLDOWN_DAYS,
+  CONNECTION_PAIRS_VERSION,
+  getPairId,
+  resolveExpiryDays,
+  buildInviteFields,
+  getRequestExpiry,
+  isRequestExpired,
+  describeRequestExpiry,
+  suggestIntroNotes,
+  toRelationship,
+  getRelationship,
+  migrateLegacyConnectionRequests,
+  sendConnectionRequest,
+  declineConnectionRequest,
+  withdrawConnectionRequest,
+  acceptConnectionRequest,
+  removeConnection,
+  useConnectedUids
+};
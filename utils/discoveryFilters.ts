@@ -0,0 +1,297 @@
+/**
+ * Filters for the people shown on the map
+ *
+ * Every criterion in the filter drawer is evaluated here so the map, the
+ * drawer's match count and anything else that filters people agree.
+ * Missing profile fields: a person who hasn't filled in a field is excluded
+ * by any filter on that field that is narrowed from its default (an unknown
+ * age can't be shown to be in range), and unaffected otherwise.
+ */
+
+import { DEFAULT_DISCOVERY_RADIUS, resolveDiscoveryRadius, formatRadius } from './discoveryRadius';
+import { canonicalizeInterests, getInterestLabel } from './interestTaxonomy';
+
+export const MIN_FILTER_AGE = 18;
+export const MAX_FILTER_AGE = 99;
+// Upper limit the age inputs accept
+export const AGE_INPUT_LIMIT = 100;
+
+// Highest "minimum shared interests" the drawer offers
+export const MAX_MIN_SHARED_INTERESTS = 15;
+
+// "Any" disables a single-choice filter
+export const ANY_OPTION = 'Any';
+
+export const GENDER_OPTIONS = ['Male', 'Female', 'Non-binary', ANY_OPTION];
+export const ACTIVITY_OPTIONS = ['Recently active', 'New users', ANY_OPTION];
+export const LOOKING_FOR_OPTIONS = ['Friendship', 'Dating', 'Activity partners', 'Networking', ANY_OPTION];
+
+// Active within this long counts as "Recently active" (ms)
+export const RECENTLY_ACTIVE_WINDOW = 24 * 60 * 60 * 1000;
+// Joined within this long counts as a "New user" (ms)
+export const NEW_USER_WINDOW = 7 * 24 * 60 * 60 * 1000;
+
+export interface DiscoveryFilters {
+  // How far out to look for people (m)
+  discoveryRadius: number;
+  // Interest filters
+  selectedInterests: string[];
+  minSharedInterests: number;
+  // Visibility filters
+  onlineOnly: boolean;
+  // Demographic filters
+  ageRange: [number, number];
+  selectedGender: string;
+  // Activity filters
+  activityStatus: string;
+  // Looking for
+  lookingFor: string;
+}
+
+export const DEFAULT_DISCOVERY_FILTERS: DiscoveryFilters = {
+  discoveryRadius: DEFAULT_DISCOVERY_RADIUS,
+  selectedInterests: [],
+  minSharedInterests: 1,
+  onlineOnly: false,
+  ageRange: [MIN_FILTER_AGE, MAX_FILTER_AGE],
+  selectedGender: ANY_OPTION,
+  activityStatus: ANY_OPTION,
+  lookingFor: ANY_OPTION
+};
+
+export type FilterCriterion =
+  | 'interests'
+  | 'sharedInterests'
+  | 'online'
+  | 'age'
+  | 'gender'
+  | 'activity'
+  | 'lookingFor';
+
+export const FILTER_CRITERION_LABELS: Record<FilterCriterion, string> = {
+  interests: 'Interests',
+  sharedInterests: 'Shared interests',
+  online: 'Online only',
+  age: 'Age',
+  gender: 'Gender',
+  activity: 'Activity',
+  lookingFor: 'Looking for'
+};
+
+// The profile fields filters look at
+export interface FilterableUser {
+  interests?: string[] | null;
+  sharedInterestsCount?: number;
+  online?: boolean;
+  age?: number | null;
+  gender?: string | null;
+  lookingFor?: string[] | null;
+  lastActive?: Date | number | null;
+  createdAt?: Date | number | null;
+}
+
+export interface FilterSummary<T> {
+  matches: T[];
+  total: number;
+  // How many people each criterion ruled out (a person can count towards several)
+  excludedBy: Record<FilterCriterion, number>;
+}
+
+/**
+ * Fill in anything missing or invalid in stored filters
+ * Used for older presets and for presets shared by link.
+ */
+export const resolveDiscoveryFilters = (stored?: Partial<DiscoveryFilters> | null): DiscoveryFilters => {
+  const value: Partial<DiscoveryFilters> = stored && typeof stored === 'object' ? stored : {};
+  const pickOption = (option: unknown, options: string[]): string =>
+    typeof option === 'string' && options.includes(option) ? option : ANY_OPTION;
+
+  let ageRange = DEFAULT_DISCOVERY_FILTERS.ageRange;
+  if (Array.isArray(value.ageRange) && value.ageRange.every(age => typeof age === 'number' && !isNaN(age))) {
+    const [minAge, maxAge] = value.ageRange.map(age => Math.min(Math.max(Math.round(age), MIN_FILTER_AGE), AGE_INPUT_LIMIT));
+    ageRange = [Math.min(minAge, maxAge), Math.max(minAge, maxAge)];
+  }
+
+  return {
+    discoveryRadius: resolveDiscoveryRadius(value.discoveryRadius),
+    // Older presets hold interests as typed rather than canonical IDs
+    selectedInterests: canonicalizeInterests(value.selectedInterests),
+    minSharedInterests: typeof value.minSharedInterests === 'number'
+      ? Math.min(Math.max(Math.round(value.minSharedInterests), 1), MAX_MIN_SHARED_INTERESTS)
+      : 1,
+    onlineOnly: value.onlineOnly === true,
+    ageRange,
+    selectedGender: pickOption(value.selectedGender, GENDER_OPTIONS),
+    activityStatus: pickOption(value.activityStatus, ACTIVITY_OPTIONS),
+    lookingFor: pickOption(value.lookingFor, LOOKING_FOR_OPTIONS)
+  };
+};
+
+const toMillis = (value: Date | number | null | undefined): number | null => {
+  if (value === null || value === undefined) return null;
+  return value instanceof Date ? value.getTime() : value;
+};
+
+/**
+ * Whether the age range is narrowed from the default
+ */
+export const isAgeRangeNarrowed = (filters: DiscoveryFilters): boolean => {
+  return filters.ageRange[0] > MIN_FILTER_AGE || filters.ageRange[1] < MAX_FILTER_AGE;
+};
+
+/**
+ * The criteria that currently restrict anything
+ */
+export const getActiveCriteria = (filters: DiscoveryFilters): FilterCriterion[] => {
+  const active: FilterCriterion[] = [];
+  if (filters.selectedInterests.length > 0) active.push('interests');
+  if (filters.minSharedInterests > 1) active.push('sharedInterests');
+  if (filters.onlineOnly) active.push('online');
+  if (isAgeRangeNarrowed(filters)) active.push('age');
+  if (filters.selectedGender !== ANY_OPTION) active.push('gender');
+  if (filters.activityStatus !== ANY_OPTION) active.push('activity');
+  if (filters.lookingFor !== ANY_OPTION) active.push('lookingFor');
+  return active;
+};
+
+/**
+ * Check one criterion against one person
+ */
+const passesCriterion = (
+  criterion: FilterCriterion,
+  user: FilterableUser,
+  filters: DiscoveryFilters,
+  now: number
+): boolean => {
+  switch (criterion) {
+    case 'interests': {
+      // Any one of the selected interests is enough
+      const interests = new Set(canonicalizeInterests(user.interests));
+      return filters.selectedInterests.some(interest => interests.has(interest));
+    }
+    case 'sharedInterests':
+      return (user.sharedInterestsCount || 0) >= filters.minSharedInterests;
+    case 'online':
+      return user.online === true;
+    case 'age':
+      if (!user.age) return false;
+      return user.age >= filters.ageRange[0] && user.age <= filters.ageRange[1];
+    case 'gender':
+      return !!user.gender && user.gender === filters.selectedGender;
+    case 'activity': {
+      if (filters.activityStatus === 'Recently active') {
+        // Being online now is as recent as it gets
+        if (user.online) return true;
+        const lastActive = toMillis(user.lastActive);
+        return lastActive !== null && now - lastActive <= RECENTLY_ACTIVE_WINDOW;
+      }
+      if (filters.activityStatus === 'New users') {
+        const createdAt = toMillis(user.createdAt);
+        return createdAt !== null && now - createdAt <= NEW_USER_WINDOW;
+      }
+      return true;
+    }
+    case 'lookingFor':
+      return Array.isArray(user.lookingFor) && user.lookingFor.includes(filters.lookingFor);
+  }
+};
+
+/**
+ * Get the criteria a person fails; empty means they match
+ */
+export const evaluateFilters = (
+  user: FilterableUser,
+  filters: DiscoveryFilters,
+  now: number = Date.now()
+): FilterCriterion[] => {
+  return getActiveCriteria(filters).filter(criterion => !passesCriterion(criterion, user, filters, now));
+};
+
+/**
+ * Filter a list of people and count what each criterion ruled out
+ */
+export const applyDiscoveryFilters = <T extends FilterableUser>(
+  users: T[],
+  filters: DiscoveryFilters,
+  now: number = Date.now()
+): FilterSummary<T> => {
+  const excludedBy = Object.keys(FILTER_CRITERION_LABELS).reduce((counts, criterion) => {
+    counts[criterion as FilterCriterion] = 0;
+    return counts;
+  }, {} as Record<FilterCriterion, number>);
+
+  const matches = users.filter(user => {
+    const failed = evaluateFilters(user, filters, now);
+    failed.forEach(criterion => {
+      excludedBy[criterion] += 1;
+    });
+    return failed.length === 0;
+  });
+
+  return { matches, total: users.length, excludedBy };
+};
+
+/**
+ * Describe the criteria ruling out the most people, e.g. "Gender (4), Age (2)"
+ */
+export const describeExclusions = (excludedBy: Record<FilterCriterion, number>, limit: number = 2): string => {
+  return (Object.keys(excludedBy) as FilterCriterion[])
+    .filter(criterion => excludedBy[criterion] > 0)
+    .sort((a, b) => excludedBy[b] - excludedBy[a])
+    .slice(0, limit)
+    .map(criterion => `${FILTER_CRITERION_LABELS[criterion]} (${excludedBy[criterion]})`)
+    .join(', ');
+};
+
+/**
+ * Describe filters in words, one line per active criterion
+ */
+export const describeFilters = (filters: DiscoveryFilters): string[] => {
+  const lines = [`Within ${formatRadius(filters.discoveryRadius)}`];
+
+  getActiveCriteria(filters).forEach(criterion => {
+    switch (criterion) {
+      case 'interests':
+        lines.push(`Into ${filters.selectedInterests.map(getInterestLabel).join(', ')}`);
+        break;
+      case 'sharedInterests':
+        lines.push(`At least ${filters.minSharedInterests} shared interests`);
+        break;
+      case 'online':
+        lines.push('Online now');
+        break;
+      case 'age':
+        lines.push(`Aged ${filters.ageRange[0]}-${filters.ageRange[1]}`);
+        break;
+      case 'gender':
+        lines.push(filters.selectedGender);
+        break;
+      case 'activity':
+        lines.push(filters.activityStatus);
+        break;
+      case 'lookingFor':
+        lines.push(`Looking for ${filters.lookingFor}`);
+        break;
+    }
+  });
+
+  return lines;
+};
+
+export default {
+  MIN_FILTER_AGE,
+  MAX_FILTER_AGE,
+  AGE_INPUT_LIMIT,
+  MAX_MIN_SHARED_INTERESTS,
+  DEFAULT_DISCOVERY_FILTERS,
+  GENDER_OPTIONS,
+  ACTIVITY_OPTIONS,
+  LOOKING_FOR_OPTIONS,
+  resolveDiscoveryFilters,
+  isAgeRangeNarrowed,
+  getActiveCriteria,
+  evaluateFilters,
+  applyDiscoveryFilters,
+  describeExclusions,
+  describeFilters
+};
@@ -0,0 +1,72 @@
+/**
+ * User-selectable discovery radius and the rendering tier it falls into
+ *
+ * Small radii show every user as a pin; past a threshold there can be too
+ * many people in range for that, so the map switches to clustered markers
+ * and a paged list.
+ */
+
+export const MIN_DISCOVERY_RADIUS = 100;
+export const MAX_DISCOVERY_RADIUS = 5000;
+// A quarter mile, the original fixed radius
+export const DEFAULT_DISCOVERY_RADIUS = 400;
+
+// Radii offered in the filter drawer (m)
+export const DISCOVERY_RADIUS_STEPS = [100, 250, 400, 800, 1600, 3000, 5000];
+
+export type RadiusTier = 'street' | 'neighborhood' | 'district' | 'city';
+
+// Upper bound of each tier (m) and whether results are clustered there
+export const RADIUS_TIERS: Record<RadiusTier, { label: string; maxRadius: number; clustered: boolean }> = {
+  street: { label: 'Street', maxRadius: 250, clustered: false },
+  neighborhood: { label: 'Neighborhood', maxRadius: 800, clustered: false },
+  district: { label: 'District', maxRadius: 1600, clustered: true },
+  city: { label: 'City', maxRadius: MAX_DISCOVERY_RADIUS, clustered: true }
+};
+
+const TIER_ORDER: RadiusTier[] = ['street', 'neighborhood', 'district', 'city'];
+
+/**
+ * Clamp a stored radius into the supported range, falling back to the default
+ * Presets saved before the radius existed don't carry one.
+ */
+export const resolveDiscoveryRadius = (radius?: number | null): number => {
+  if (typeof radius !== 'number' || isNaN(radius)) return DEFAULT_DISCOVERY_RADIUS;
+  return Math.min(Math.max(Math.round(radius), MIN_DISCOVERY_RADIUS), MAX_DISCOVERY_RADIUS);
+};
+
+/**
+ * Get the tier a radius falls into
+ */
+export const getRadiusTier = (radius: number): RadiusTier => {
+  const resolved = resolveDiscoveryRadius(radius);
+  return TIER_ORDER.find(tier => resolved <= RADIUS_TIERS[tier].maxRadius) || 'city';
+};
+
+/**
+ * Check whether results at this radius should be clustered and paged
+ */
+export const isClusteredRadius = (radius: number): boolean => {
+  return RADIUS_TIERS[getRadiusTier(radius)].clustered;
+};
+
+/**
+ * Format a radius for display
+ */
+export const formatRadius = (meters: number): string => {
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  const km = meters / 1000;
+  return `${Number.isInteger(km) ? km : km.toFixed(1)} km`;
+};
+
+export default {
+  MIN_DISCOVERY_RADIUS,
+  MAX_DISCOVERY_RADIUS,
+  DEFAULT_DISCOVERY_RADIUS,
+  DISCOVERY_RADIUS_STEPS,
+  RADIUS_TIERS,
+  resolveDiscoveryRadius,
+  getRadiusTier,
+  isClusteredRadius,
+  formatRadius
+};
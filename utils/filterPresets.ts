@@ -0,0 +1,297 @@
+/**
+ * Saved filter presets, kept on the device and synced to Firestore
+ *
+ * Each preset is its own doc in `users/{uid}/filterPresets` and carries an
+ * `updatedAt`; merging keeps whichever copy of a preset changed last, and
+ * deletes are kept as tombstones so they win over an older copy elsewhere.
+ * Edits are saved locally first, so presets work offline and sync the next
+ * time the drawer opens. Presets can also be shared as a deep link.
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  writeBatch
+} from '@firebase/firestore';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Linking from 'expo-linking';
+import { db } from '@/config/firebase';
+import { DiscoveryFilters, resolveDiscoveryFilters } from './discoveryFilters';
+
+// Presets saved before syncing existed, not tied to a user
+const LEGACY_STORAGE_KEY = 'hive_filter_presets';
+const PRESETS_STORAGE_PREFIX = 'hive_filter_presets_';
+
+// Route the share link opens
+const IMPORT_PATH = 'import-preset';
+
+export const MAX_PRESET_NAME_LENGTH = 30;
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: DiscoveryFilters;
+  // Sort key; lower comes first
+  position: number;
+  // Epoch ms of the last change, used to merge copies
+  updatedAt: number;
+  // Alert when someone matching this preset shows up nearby
+  watch?: boolean;
+  deleted?: boolean;
+}
+
+const presetsRef = (uid: string) => collection(db, 'users', uid, 'filterPresets');
+
+const createPresetId = (): string => {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/**
+ * Presets to show: not deleted, in order
+ */
+const visiblePresets = (presets: FilterPreset[]): FilterPreset[] => {
+  return presets
+    .filter(preset => !preset.deleted)
+    .sort((a, b) => (a.position - b.position) || a.id.localeCompare(b.id));
+};
+
+/**
+ * Read this device's copy, bringing over presets saved before syncing
+ */
+const readLocalPresets = async (uid: string): Promise<FilterPreset[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(PRESETS_STORAGE_PREFIX + uid);
+    if (stored) return JSON.parse(stored);
+
+    const legacy = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!legacy) return [];
+
+    const now = Date.now();
+    const migrated: FilterPreset[] = JSON.parse(legacy).map((preset: { name: string; filters: any }, index: number) => ({
+      id: createPresetId(),
+      name: preset.name,
+      filters: resolveDiscoveryFilters(preset.filters),
+      position: index,
+      updatedAt: now
+    }));
+
+    await AsyncStorage.setItem(PRESETS_STORAGE_PREFIX + uid, JSON.stringify(migrated));
+    await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+    console.log(`Migrated ${migrated.length} device-only filter presets`);
+    return migrated;
+  } catch (error) {
+    console.error('Error reading filter presets:', error);
+    return [];
+  }
+};
+
+const writeLocalPresets = async (uid: string, presets: FilterPreset[]): Promise<void> => {
+  await AsyncStorage.setItem(PRESETS_STORAGE_PREFIX + uid, JSON.stringify(presets));
+};
+
+/**
+ * Merge two copies of the preset list, keeping the newest version of each
+ */
+export const mergePresets = (local: FilterPreset[], remote: FilterPreset[]): FilterPreset[] => {
+  const merged: Record<string, FilterPreset> = {};
+  [...local, ...remote].forEach(preset => {
+    const existing = merged[preset.id];
+    if (!existing || preset.updatedAt > existing.updatedAt) {
+      merged[preset.id] = preset;
+    }
+  });
+  return Object.values(merged);
+};
+
+/**
+ * Write presets to Firestore
+ */
+const pushPresets = async (uid: string, presets: FilterPreset[]): Promise<void> => {
+  if (presets.length === 0) return;
+
+  const batch = writeBatch(db);
+  presets.forEach(preset => {
+    batch.set(doc(presetsRef(uid), preset.id), preset);
+  });
+  await batch.commit();
+};
+
+/**
+ * Save changed presets locally, then try to push them
+ * A failed push is retried by the next sync, since the local copy is newer.
+ */
+const savePresetChanges = async (uid: string, changed: FilterPreset[]): Promise<FilterPreset[]> => {
+  const presets = mergePresets(await readLocalPresets(uid), changed);
+  await writeLocalPresets(uid, presets);
+
+  try {
+    await pushPresets(uid, changed);
+  } catch (error) {
+    console.error('Error syncing filter presets, kept on device:', error);
+  }
+
+  return visiblePresets(presets);
+};
+
+/**
+ * Get the presets saved on this device, without syncing
+ */
+export const loadFilterPresets = async (uid: string): Promise<FilterPreset[]> => {
+  return visiblePresets(await readLocalPresets(uid));
+};
+
+/**
+ * Merge this device's presets with Firestore in both directions
+ * Falls back to the local copy when offline.
+ */
+export const syncFilterPresets = async (uid: string): Promise<FilterPreset[]> => {
+  const local = await readLocalPresets(uid);
+
+  try {
+    const snapshot = await getDocs(presetsRef(uid));
+    const remote: FilterPreset[] = snapshot.docs.map(presetDoc => presetDoc.data() as FilterPreset);
+    const remoteById = new Map(remote.map(preset => [preset.id, preset]));
+
+    const merged = mergePresets(local, remote);
+    // Push whatever Firestore is missing or has an older copy of
+    const outgoing = merged.filter(preset => {
+      const remoteCopy = remoteById.get(preset.id);
+      return !remoteCopy || remoteCopy.updatedAt < preset.updatedAt;
+    });
+
+    await pushPresets(uid, outgoing);
+    await writeLocalPresets(uid, merged);
+    console.log(`Filter presets synced: ${remote.length} remote, ${outgoing.length} pushed`);
+    return visiblePresets(merged);
+  } catch (error) {
+    console.error('Error syncing filter presets:', error);
+    return visiblePresets(local);
+  }
+};
+
+/**
+ * Check a preset name, returning an error message or null if it's fine
+ */
+export const validatePresetName = (
+  name: string,
+  presets: FilterPreset[],
+  ignoreId?: string
+): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Please enter a name for your preset';
+  if (trimmed.length > MAX_PRESET_NAME_LENGTH) return `Preset names can be at most ${MAX_PRESET_NAME_LENGTH} characters`;
+  if (presets.some(preset => preset.id !== ignoreId && preset.name.toLowerCase() === trimmed.toLowerCase())) {
+    return 'A preset with this name already exists';
+  }
+  return null;
+};
+
+/**
+ * Save the given filters as a new preset at the end of the list
+ */
+export const createFilterPreset = async (
+  uid: string,
+  name: string,
+  filters: DiscoveryFilters
+): Promise<FilterPreset[]> => {
+  const existing = await loadFilterPresets(uid);
+  const preset: FilterPreset = {
+    id: createPresetId(),
+    name: name.trim(),
+    filters: resolveDiscoveryFilters(filters),
+    position: existing.length > 0 ? existing[existing.length - 1].position + 1 : 0,
+    updatedAt: Date.now()
+  };
+  return savePresetChanges(uid, [preset]);
+};
+
+export const renameFilterPreset = async (uid: string, preset: FilterPreset, name: string): Promise<FilterPreset[]> => {
+  return savePresetChanges(uid, [{ ...preset, name: name.trim(), updatedAt: Date.now() }]);
+};
+
+export const setFilterPresetWatch = async (uid: string, preset: FilterPreset, watch: boolean): Promise<FilterPreset[]> => {
+  return savePresetChanges(uid, [{ ...preset, watch, updatedAt: Date.now() }]);
+};
+
+export const deleteFilterPreset = async (uid: string, preset: FilterPreset): Promise<FilterPreset[]> => {
+  return savePresetChanges(uid, [{ ...preset, deleted: true, updatedAt: Date.now() }]);
+};
+
+/**
+ * Move a preset one place up (-1) or down (1)
+ * Swaps positions with its neighbour, so only those two presets change.
+ */
+export const moveFilterPreset = async (
+  uid: string,
+  preset: FilterPreset,
+  direction: -1 | 1
+): Promise<FilterPreset[]> => {
+  const presets = await loadFilterPresets(uid);
+  const index = presets.findIndex(p => p.id === preset.id);
+  const neighbour = presets[index + direction];
+  if (index === -1 || !neighbour) return presets;
+
+  const now = Date.now();
+  // Equal positions (e.g. after a merge) still need to end up distinct
+  const neighbourPosition = neighbour.position === preset.position
+    ? preset.position + direction
+    : neighbour.position;
+
+  return savePresetChanges(uid, [
+    { ...presets[index], position: neighbourPosition, updatedAt: now },
+    { ...neighbour, position: presets[index].position, updatedAt: now }
+  ]);
+};
+
+/**
+ * Build a link that opens the import screen with a preset
+ */
+export const createPresetShareLink = (preset: Pick<FilterPreset, 'name' | 'filters'>): string => {
+  return Linking.createURL(IMPORT_PATH, {
+    queryParams: {
+      name: preset.name,
+      filters: JSON.stringify(preset.filters)
+    }
+  });
+};
+
+/**
+ * Read a shared preset back from the link's params
+ * Returns null if the link is malformed.
+ */
+export const parseSharedPreset = (
+  name?: string | string[],
+  filters?: string | string[]
+): { name: string; filters: DiscoveryFilters } | null => {
+  if (typeof name !== 'string' || typeof filters !== 'string') return null;
+
+  try {
+    const parsed = JSON.parse(filters);
+    if (!parsed || typeof parsed !== 'object') return null;
+
+    return {
+      name: name.trim().slice(0, MAX_PRESET_NAME_LENGTH) || 'Shared preset',
+      // Fills in defaults and drops anything out of range
+      filters: resolveDiscoveryFilters(parsed)
+    };
+  } catch (error) {
+    console.error('Invalid shared preset:', error);
+    return null;
+  }
+};
+
+export default {
+  MAX_PRESET_NAME_LENGTH,
+  mergePresets,
+  loadFilterPresets,
+  syncFilterPresets,
+  validatePresetName,
+  createFilterPreset,
+  renameFilterPreset,
+  setFilterPresetWatch,
+  deleteFilterPreset,
+  moveFilterPreset,
+  createPresetShareLink,
+  parseSharedPreset
+};
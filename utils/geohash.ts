@@ -0,0 +1,285 @@
+/**
+ * Geohash encoding, decoding and range-query planning for location lookups
+ */
+
+// Base32 alphabet used by the geohash standard (no a, i, l, o)
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// Precision stored on every `locations` doc (~1.2m x 0.6m cells)
+export const GEOHASH_STORAGE_PRECISION = 10;
+
+// Meters per degree of latitude (close enough for cell sizing)
+const METERS_PER_DEGREE = 111320;
+
+export interface GeohashBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export type GeohashDirection = 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'nw';
+
+/**
+ * Encode a coordinate into a geohash string of the given precision
+ */
+export const encodeGeohash = (
+  latitude: number,
+  longitude: number,
+  precision: number = GEOHASH_STORAGE_PRECISION
+): string => {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+
+  let hash = '';
+  let bit = 0;
+  let charIndex = 0;
+  // Geohash interleaves bits starting with longitude
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (minLng + maxLng) / 2;
+      if (longitude >= mid) {
+        charIndex = charIndex * 2 + 1;
+        minLng = mid;
+      } else {
+        charIndex = charIndex * 2;
+        maxLng = mid;
+      }
+    } else {
+      const mid = (minLat + maxLat) / 2;
+      if (latitude >= mid) {
+        charIndex = charIndex * 2 + 1;
+        minLat = mid;
+      } else {
+        charIndex = charIndex * 2;
+        maxLat = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    // Every 5 bits becomes one base32 character
+    if (++bit === 5) {
+      hash += BASE32.charAt(charIndex);
+      bit = 0;
+      charIndex = 0;
+    }
+  }
+
+  return hash;
+};
+
+/**
+ * Get the bounding box of the cell a geohash describes
+ */
+export const geohashBounds = (geohash: string): GeohashBounds => {
+  if (!geohash) {
+    throw new Error('Invalid geohash: empty string');
+  }
+
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let evenBit = true;
+
+  for (const char of geohash.toLowerCase()) {
+    const charIndex = BASE32.indexOf(char);
+    if (charIndex === -1) {
+      throw new Error(`Invalid geohash character: ${char}`);
+    }
+
+    for (let n = 4; n >= 0; n--) {
+      const bitSet = (charIndex >> n) & 1;
+      if (evenBit) {
+        const mid = (minLng + maxLng) / 2;
+        if (bitSet) minLng = mid;
+        else maxLng = mid;
+      } else {
+        const mid = (minLat + maxLat) / 2;
+        if (bitSet) minLat = mid;
+        else maxLat = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { minLat, maxLat, minLng, maxLng };
+};
+
+/**
+ * Decode a geohash to the center of its cell, with the error margin in degrees
+ */
+export const decodeGeohash = (geohash: string): {
+  latitude: number;
+  longitude: number;
+  latitudeError: number;
+  longitudeError: number;
+} => {
+  const { minLat, maxLat, minLng, maxLng } = geohashBounds(geohash);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeError: (maxLat - minLat) / 2,
+    longitudeError: (maxLng - minLng) / 2
+  };
+};
+
+/**
+ * Wrap a longitude back into the [-180, 180) range
+ */
+const wrapLongitude = (longitude: number): number => {
+  return ((((longitude + 180) % 360) + 360) % 360) - 180;
+};
+
+/**
+ * Get the adjacent cell of a geohash in the given direction (same precision)
+ * Returns null when stepping past a pole, since there is no cell there
+ */
+export const geohashNeighbor = (geohash: string, direction: GeohashDirection): string | null => {
+  const { minLat, maxLat, minLng, maxLng } = geohashBounds(geohash);
+  const cellHeight = maxLat - minLat;
+  const cellWidth = maxLng - minLng;
+
+  // Step from the cell center by one cell width/height
+  let latitude = (minLat + maxLat) / 2;
+  let longitude = (minLng + maxLng) / 2;
+
+  if (direction.includes('n')) latitude += cellHeight;
+  if (direction.includes('s')) latitude -= cellHeight;
+  if (direction.includes('e')) longitude += cellWidth;
+  if (direction.includes('w')) longitude -= cellWidth;
+
+  if (latitude > 90 || latitude < -90) {
+    return null;
+  }
+
+  return encodeGeohash(latitude, wrapLongitude(longitude), geohash.length);
+};
+
+/**
+ * Get all eight neighbors of a geohash keyed by direction
+ */
+export const geohashNeighbors = (geohash: string): Record<GeohashDirection, string | null> => {
+  const directions: GeohashDirection[] = ['n', 'ne', 'e', 'se', 's', 'sw', 'w', 'nw'];
+  const result = {} as Record<GeohashDirection, string | null>;
+
+  directions.forEach(direction => {
+    result[direction] = geohashNeighbor(geohash, direction);
+  });
+
+  return result;
+};
+
+/**
+ * Get the size of a geohash cell in meters at a given latitude
+ */
+export const geohashCellSize = (precision: number, latitude: number = 0): { width: number; height: number } => {
+  const totalBits = precision * 5;
+  // Longitude gets the extra bit when the total is odd
+  const lngBits = Math.ceil(totalBits / 2);
+  const latBits = Math.floor(totalBits / 2);
+
+  const heightDegrees = 180 / Math.pow(2, latBits);
+  const widthDegrees = 360 / Math.pow(2, lngBits);
+
+  return {
+    width: widthDegrees * METERS_PER_DEGREE * Math.max(Math.cos(latitude * (Math.PI / 180)), 0.01),
+    height: heightDegrees * METERS_PER_DEGREE
+  };
+};
+
+/**
+ * Pick the most precise geohash length whose cells are at least as large as the radius
+ * With cells that big, the center cell plus its neighbors always cover the circle
+ */
+export const precisionForRadius = (latitude: number, radiusInMeters: number): number => {
+  for (let precision = GEOHASH_STORAGE_PRECISION; precision > 1; precision--) {
+    const { width, height } = geohashCellSize(precision, latitude);
+    if (width >= radiusInMeters && height >= radiusInMeters) {
+      return precision;
+    }
+  }
+  return 1;
+};
+
+/**
+ * Check whether a geohash cell overlaps the circle around a center point
+ */
+const cellIntersectsCircle = (
+  geohash: string,
+  latitude: number,
+  longitude: number,
+  radiusInMeters: number
+): boolean => {
+  const { minLat, maxLat, minLng, maxLng } = geohashBounds(geohash);
+
+  // Closest point of the cell to the circle center
+  const closestLat = Math.min(Math.max(latitude, minLat), maxLat);
+  const closestLng = Math.min(Math.max(longitude, minLng), maxLng);
+
+  // Equirectangular approximation is plenty accurate at cell scale
+  const dy = (closestLat - latitude) * METERS_PER_DEGREE;
+  const dx = (closestLng - longitude) * METERS_PER_DEGREE * Math.cos(latitude * (Math.PI / 180));
+
+  return Math.sqrt(dx * dx + dy * dy) <= radiusInMeters;
+};
+
+/**
+ * Get the geohash cells that together cover a circle
+ * Only neighbors that actually overlap the circle are included
+ */
+export const geohashesCoveringRadius = (
+  latitude: number,
+  longitude: number,
+  radiusInMeters: number
+): string[] => {
+  const precision = precisionForRadius(latitude, radiusInMeters);
+  const center = encodeGeohash(latitude, longitude, precision);
+  const neighbors = Object.values(geohashNeighbors(center)).filter(
+    (cell): cell is string => cell !== null
+  );
+
+  const cells = new Set<string>([center]);
+  neighbors.forEach(cell => {
+    if (cellIntersectsCircle(cell, latitude, longitude, radiusInMeters)) {
+      cells.add(cell);
+    }
+  });
+
+  return Array.from(cells).sort();
+};
+
+/**
+ * Plan the [start, end] geohash ranges to query for everything within a radius
+ * Each range is meant for an orderBy('geohash').startAt(start).endAt(end) query.
+ * Results can still include points just outside the radius, so callers must
+ * filter by actual distance afterwards.
+ */
+export const geohashQueryBounds = (
+  latitude: number,
+  longitude: number,
+  radiusInMeters: number
+): Array<[string, string]> => {
+  const cells = geohashesCoveringRadius(latitude, longitude, radiusInMeters);
+
+  // Prefix ranges: '~' sorts after every base32 character
+  return cells.map(cell => [cell, `${cell}~`] as [string, string]);
+};
+
+export default {
+  GEOHASH_STORAGE_PRECISION,
+  encodeGeohash,
+  decodeGeohash,
+  geohashBounds,
+  geohashNeighbor,
+  geohashNeighbors,
+  geohashCellSize,
+  precisionForRadius,
+  geohashesCoveringRadius,
+  geohashQueryBounds
+};
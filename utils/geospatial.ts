@@ -4,6 +4,7 @@
 
 import { Platform } from 'react-native';
 import { GeoPoint } from '@firebase/firestore';
+import { encodeGeohash, GEOHASH_STORAGE_PRECISION } from './geohash';
 
 /**
  * Calculate distance between two points in meters using the Haversine formula
@@ -29,13 +30,14 @@ export const deg2rad = (deg: number): number => {
 };
 
 /**
- * Create a GeoHash for Firebase GeoPoint (simplified implementation)
+ * Create a GeoHash for Firebase GeoPoint
  */
-export const createGeoHash = (latitude: number, longitude: number): string => {
-  // This is a simplified version, in production you would use a library like geofire
-  const lat = latitude.toFixed(6);
-  const lng = longitude.toFixed(6);
-  return `${lat}_${lng}`;
+export const createGeoHash = (
+  latitude: number,
+  longitude: number,
+  precision: number = GEOHASH_STORAGE_PRECISION
+): string => {
+  return encodeGeohash(latitude, longitude, precision);
 };
 
 /**
@@ -0,0 +1,245 @@
+/**
+ * The `interests` catalog: one doc per canonical interest with a usage count
+ *
+ * Counts are adjusted in the same batch as the profile write that adds or
+ * removes an interest, so the catalog never needs a scan of `users`.
+ * `scripts/rebuild-interests-catalog.js` recounts from scratch if they
+ * drift. Clients keep a copy in AsyncStorage and only fetch docs updated
+ * since their last sync.
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  collection,
+  doc,
+  query,
+  where,
+  getDocs,
+  increment,
+  serverTimestamp,
+  Timestamp,
+  WriteBatch
+} from '@firebase/firestore';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { db } from '@/config/firebase';
+import {
+  INTERESTS,
+  canonicalizeInterest,
+  canonicalizeInterests,
+  getInterestCategory,
+  getInterestLabel,
+  normalizeInterestText
+} from './interestTaxonomy';
+
+const CATALOG_STORAGE_KEY = 'hive_interest_catalog';
+// Don't ask the server for changes more often than this (ms)
+const CATALOG_REFRESH_INTERVAL = 10 * 60 * 1000;
+// Default number of suggestions
+const SUGGESTION_LIMIT = 8;
+
+export interface InterestCatalogEntry {
+  id: string;
+  label: string;
+  category: string | null;
+  count: number;
+}
+
+interface CachedCatalog {
+  entries: Record<string, InterestCatalogEntry>;
+  // Newest `updatedAt` seen (epoch ms); the next refresh starts from here
+  cursor: number;
+  // When the server was last asked (epoch ms)
+  fetchedAt: number;
+}
+
+// Shared across screens so they don't each read AsyncStorage
+let memoryCatalog: CachedCatalog | null = null;
+let refreshPromise: Promise<CachedCatalog> | null = null;
+
+/**
+ * Add catalog count changes for a profile's interest edit to a batch
+ * Call with the interests before and after, in the batch that writes them.
+ */
+export const addInterestCountChanges = (
+  batch: WriteBatch,
+  before: string[] | null | undefined,
+  after: string[] | null | undefined
+): void => {
+  const beforeIds = new Set(canonicalizeInterests(before));
+  const afterIds = new Set(canonicalizeInterests(after));
+
+  const changes: Array<[string, number]> = [
+    ...[...afterIds].filter(id => !beforeIds.has(id)).map((id): [string, number] => [id, 1]),
+    ...[...beforeIds].filter(id => !afterIds.has(id)).map((id): [string, number] => [id, -1])
+  ];
+
+  changes.forEach(([id, delta]) => {
+    batch.set(doc(db, 'interests', id), {
+      id,
+      label: getInterestLabel(id),
+      category: getInterestCategory(id),
+      count: increment(delta),
+      updatedAt: serverTimestamp()
+    }, { merge: true });
+  });
+};
+
+/**
+ * Read the cached catalog from memory or AsyncStorage
+ */
+const readCache = async (): Promise<CachedCatalog> => {
+  if (memoryCatalog) return memoryCatalog;
+
+  try {
+    const stored = await AsyncStorage.getItem(CATALOG_STORAGE_KEY);
+    if (stored) {
+      memoryCatalog = JSON.parse(stored);
+      return memoryCatalog!;
+    }
+  } catch (error) {
+    console.error('Error reading interest catalog cache:', error);
+  }
+
+  return { entries: {}, cursor: 0, fetchedAt: 0 };
+};
+
+/**
+ * Fetch catalog docs changed since the cache's cursor and merge them in
+ */
+const refreshCatalog = async (cache: CachedCatalog): Promise<CachedCatalog> => {
+  const interestsRef = collection(db, 'interests');
+  const snapshot = await getDocs(cache.cursor > 0
+    ? query(interestsRef, where('updatedAt', '>', Timestamp.fromMillis(cache.cursor)))
+    : interestsRef);
+
+  const entries = { ...cache.entries };
+  let cursor = cache.cursor;
+
+  snapshot.forEach(interestDoc => {
+    const data = interestDoc.data();
+    const updatedAt = data.updatedAt?.toMillis ? data.updatedAt.toMillis() : 0;
+    cursor = Math.max(cursor, updatedAt);
+
+    if ((data.count || 0) > 0) {
+      entries[interestDoc.id] = {
+        id: interestDoc.id,
+        label: data.label || getInterestLabel(interestDoc.id),
+        category: data.category ?? getInterestCategory(interestDoc.id),
+        count: data.count
+      };
+    } else {
+      // Nobody has it any more
+      delete entries[interestDoc.id];
+    }
+  });
+
+  console.log(`Interest catalog refreshed: ${snapshot.size} changed, ${Object.keys(entries).length} in use`);
+
+  const updated = { entries, cursor, fetchedAt: Date.now() };
+  memoryCatalog = updated;
+  await AsyncStorage.setItem(CATALOG_STORAGE_KEY, JSON.stringify(updated));
+  return updated;
+};
+
+/**
+ * Get the catalog of interests in use, most popular first
+ * Served from the cache, refreshed incrementally once it is stale.
+ */
+export const loadInterestCatalog = async (forceRefresh: boolean = false): Promise<InterestCatalogEntry[]> => {
+  let cache = await readCache();
+
+  if (forceRefresh || Date.now() - cache.fetchedAt > CATALOG_REFRESH_INTERVAL) {
+    try {
+      // Concurrent callers share one request
+      refreshPromise = refreshPromise || refreshCatalog(cache).finally(() => {
+        refreshPromise = null;
+      });
+      cache = await refreshPromise;
+    } catch (error) {
+      // A stale catalog is better than none
+      console.error('Error refreshing interest catalog:', error);
+    }
+  }
+
+  return Object.values(cache.entries).sort((a, b) => b.count - a.count);
+};
+
+/**
+ * Hook for the interest catalog
+ */
+export const useInterestCatalog = (): InterestCatalogEntry[] => {
+  const [catalog, setCatalog] = useState<InterestCatalogEntry[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    loadInterestCatalog().then(entries => {
+      if (active) setCatalog(entries);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return catalog;
+};
+
+/**
+ * Rank how well a normalized query matches a label or synonym
+ * Lower is better; null means no match.
+ */
+const matchRank = (normalizedQuery: string, text: string): number | null => {
+  const normalized = normalizeInterestText(text);
+  if (normalized === normalizedQuery) return 0;
+  if (normalized.startsWith(normalizedQuery)) return 1;
+  if (normalized.split(' ').some(word => word.startsWith(normalizedQuery))) return 2;
+  if (normalized.includes(normalizedQuery)) return 3;
+  return null;
+};
+
+/**
+ * Suggest interests for what has been typed so far
+ * Known taxonomy interests are offered even if nobody has them yet; within
+ * the same match quality, more popular interests come first.
+ */
+export const searchInterests = (
+  catalog: InterestCatalogEntry[],
+  text: string,
+  options: { limit?: number; exclude?: string[] } = {}
+): InterestCatalogEntry[] => {
+  const normalizedQuery = normalizeInterestText(text);
+  if (!normalizedQuery) return [];
+
+  const exclude = new Set(options.exclude || []);
+  const candidates: Record<string, InterestCatalogEntry> = {};
+  Object.keys(INTERESTS).forEach(id => {
+    candidates[id] = { id, label: INTERESTS[id].label, category: INTERESTS[id].category, count: 0 };
+  });
+  catalog.forEach(entry => {
+    candidates[entry.id] = entry;
+  });
+
+  // Whatever the text canonicalizes to is the best possible match
+  const canonical = canonicalizeInterest(text);
+
+  const ranked = Object.values(candidates)
+    .filter(entry => !exclude.has(entry.id))
+    .map(entry => {
+      const spellings = [entry.label, ...(INTERESTS[entry.id]?.synonyms || [])];
+      const ranks = spellings
+        .map(spelling => matchRank(normalizedQuery, spelling))
+        .filter((rank): rank is number => rank !== null);
+      const rank = entry.id === canonical ? 0 : (ranks.length > 0 ? Math.min(...ranks) : null);
+      return { entry, rank };
+    })
+    .filter((result): result is { entry: InterestCatalogEntry; rank: number } => result.rank !== null)
+    .sort((a, b) => (a.rank - b.rank) || (b.entry.count - a.entry.count) || a.entry.label.localeCompare(b.entry.label));
+
+  return ranked.slice(0, options.limit || SUGGESTION_LIMIT).map(result => result.entry);
+};
+
+export default {
+  addInterestCountChanges,
+  loadInterestCatalog,
+  useInterestCatalog,
+  searchInterests
+};
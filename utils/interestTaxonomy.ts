@@ -0,0 +1,176 @@
+/**
+ * Interest taxonomy: canonical IDs, synonyms and categories
+ *
+ * Profiles store canonical interest IDs ("hiking", "board-games") rather
+ * than whatever was typed, so "Hiking", "hiking " and "Hikes" all match.
+ * Known interests live in constants/interestTaxonomy.json with a parent
+ * category; anything else becomes a custom ID built from the normalized
+ * text. `scripts/migrate-interests.js` applies the same rules to existing
+ * profiles, so keep the two in sync.
+ */
+
+import taxonomy from '@/constants/interestTaxonomy.json';
+
+export const INTEREST_TAXONOMY_VERSION: number = taxonomy.version;
+
+// Credit (0-1) for two different interests in the same category
+export const RELATED_INTEREST_CREDIT = 0.3;
+
+export interface InterestDefinition {
+  label: string;
+  category: string;
+  synonyms: string[];
+}
+
+export const INTEREST_CATEGORIES: Record<string, { label: string }> = taxonomy.categories;
+export const INTERESTS: Record<string, InterestDefinition> = taxonomy.interests;
+
+/**
+ * Lowercase, strip accents and punctuation and collapse whitespace
+ */
+export const normalizeInterestText = (text: string): string => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+// Every known spelling (normalized) mapped to its canonical ID
+const LOOKUP: Record<string, string> = {};
+Object.keys(INTERESTS).forEach(id => {
+  const { label, synonyms } = INTERESTS[id];
+  [id, label, ...synonyms].forEach(spelling => {
+    LOOKUP[normalizeInterestText(spelling)] = id;
+  });
+});
+
+/**
+ * Simple plural stripping for spellings the taxonomy doesn't list
+ */
+const singularForms = (text: string): string[] => {
+  const forms: string[] = [];
+  if (text.endsWith('ies')) forms.push(`${text.slice(0, -3)}y`);
+  if (text.endsWith('es')) forms.push(text.slice(0, -2));
+  if (text.endsWith('s')) forms.push(text.slice(0, -1));
+  return forms;
+};
+
+/**
+ * Map free text (or an existing ID) to a canonical interest ID
+ * Returns null for text with nothing usable in it.
+ */
+export const canonicalizeInterest = (text: string): string | null => {
+  if (typeof text !== 'string') return null;
+
+  const normalized = normalizeInterestText(text);
+  if (!normalized) return null;
+
+  const known = LOOKUP[normalized] || singularForms(normalized).map(form => LOOKUP[form]).find(Boolean);
+  if (known) return known;
+
+  // Custom interest: the normalized text is its ID
+  return normalized.replace(/ /g, '-');
+};
+
+/**
+ * Canonicalize a list of interests, dropping blanks and duplicates
+ */
+export const canonicalizeInterests = (interests?: string[] | null): string[] => {
+  if (!Array.isArray(interests)) return [];
+
+  const ids = interests
+    .map(canonicalizeInterest)
+    .filter((id): id is string => id !== null);
+  return [...new Set(ids)];
+};
+
+/**
+ * Check whether a list is already made of canonical IDs
+ */
+export const isCanonicalInterestList = (interests?: string[] | null): boolean => {
+  if (!Array.isArray(interests)) return true;
+  const canonical = canonicalizeInterests(interests);
+  return canonical.length === interests.length && canonical.every((id, i) => id === interests[i]);
+};
+
+/**
+ * Get the display label for an interest ID
+ * Free text from profiles that haven't been migrated is accepted too.
+ */
+export const getInterestLabel = (value: string): string => {
+  const id = canonicalizeInterest(value) || value;
+  if (INTERESTS[id]) return INTERESTS[id].label;
+
+  // Custom IDs read back as title case
+  return id
+    .split('-')
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+/**
+ * Get the category of an interest ID, or null for custom interests
+ */
+export const getInterestCategory = (id: string): string | null => {
+  return INTERESTS[id]?.category || null;
+};
+
+/**
+ * Get the display label for a category
+ */
+export const getCategoryLabel = (category: string): string => {
+  return INTEREST_CATEGORIES[category]?.label || category;
+};
+
+/**
+ * Exact and same-category matches between two interest lists
+ * Every interest is used at most once on each side, exact matches first.
+ */
+export const matchInterests = (
+  mine: string[],
+  theirs: string[]
+): { shared: string[]; related: Array<[string, string]> } => {
+  const mineIds = canonicalizeInterests(mine);
+  const theirIds = canonicalizeInterests(theirs);
+  const theirSet = new Set(theirIds);
+
+  const shared = mineIds.filter(id => theirSet.has(id));
+  const sharedSet = new Set(shared);
+
+  const remainingTheirs = theirIds.filter(id => !sharedSet.has(id));
+  const related: Array<[string, string]> = [];
+
+  mineIds
+    .filter(id => !sharedSet.has(id))
+    .forEach(id => {
+      const category = getInterestCategory(id);
+      if (!category) return;
+
+      const index = remainingTheirs.findIndex(other => getInterestCategory(other) === category);
+      if (index === -1) return;
+
+      related.push([id, remainingTheirs[index]]);
+      remainingTheirs.splice(index, 1);
+    });
+
+  return { shared, related };
+};
+
+export default {
+  INTEREST_TAXONOMY_VERSION,
+  RELATED_INTEREST_CREDIT,
+  INTEREST_CATEGORIES,
+  INTERESTS,
+  normalizeInterestText,
+  canonicalizeInterest,
+  canonicalizeInterests,
+  isCanonicalInterestList,
+  getInterestLabel,
+  getInterestCategory,
+  getCategoryLabel,
+  matchInterests
+};
@@ -0,0 +1,87 @@
+/**
+ * Freshness rules for published locations
+ *
+ * Every location write carries an `expiresAt`. Until then a position is
+ * either live (recently confirmed) or only a last-known position, drawn
+ * faded on the map; after it the doc is hidden and can be purged by
+ * `scripts/purge-expired-locations.js`.
+ */
+
+// How long a written position stays on the map (ms)
+export const LOCATION_TTL = 30 * 60 * 1000;
+// Positions confirmed within this window (ms) are shown as live
+export const LIVE_LOCATION_WINDOW = 5 * 60 * 1000;
+// Re-publish at least this often (ms) while the app is open, so a user
+// who isn't moving stays live
+export const LOCATION_HEARTBEAT_INTERVAL = 4 * 60 * 1000;
+
+export type LocationFreshness = 'live' | 'lastSeen' | 'expired';
+
+/**
+ * Read a Firestore Timestamp, Date or epoch millis as epoch millis
+ */
+const toMillis = (value: any): number | null => {
+  if (!value) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return null;
+};
+
+/**
+ * Get when a location doc's position was written
+ */
+export const getLocationUpdatedAt = (data: { timestamp?: any }): number | null => {
+  return toMillis(data.timestamp);
+};
+
+/**
+ * Get when a location doc stops being shown
+ * Docs written before expiry existed fall back to their write time plus the TTL.
+ */
+export const getLocationExpiresAt = (data: { timestamp?: any; expiresAt?: any }): number | null => {
+  const expiresAt = toMillis(data.expiresAt);
+  if (expiresAt !== null) return expiresAt;
+
+  const updatedAt = getLocationUpdatedAt(data);
+  return updatedAt !== null ? updatedAt + LOCATION_TTL : null;
+};
+
+/**
+ * Classify a location doc as live, last-known or expired
+ */
+export const getLocationFreshness = (
+  data: { timestamp?: any; expiresAt?: any },
+  now: number = Date.now()
+): LocationFreshness => {
+  const expiresAt = getLocationExpiresAt(data);
+  // Without any timestamp there's no telling how old it is
+  if (expiresAt === null || expiresAt <= now) return 'expired';
+
+  const updatedAt = getLocationUpdatedAt(data);
+  if (updatedAt !== null && now - updatedAt <= LIVE_LOCATION_WINDOW) return 'live';
+
+  return 'lastSeen';
+};
+
+/**
+ * Format how long ago a position was written, e.g. "12 min ago"
+ */
+export const formatLastSeen = (updatedAt: number | null, now: number = Date.now()): string => {
+  if (updatedAt === null) return 'a while ago';
+
+  const minutes = Math.floor((now - updatedAt) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)} h ago`;
+};
+
+export default {
+  LOCATION_TTL,
+  LIVE_LOCATION_WINDOW,
+  LOCATION_HEARTBEAT_INTERVAL,
+  getLocationUpdatedAt,
+  getLocationExpiresAt,
+  getLocationFreshness,
+  formatLastSeen
+};
@@ -0,0 +1,150 @@
+/**
+ * Location obfuscation applied before a position ever leaves the device
+ *
+ * Positions are snapped to the center of a grid cell and then nudged by a
+ * per-user jitter that stays put while the user stays in that cell, so the
+ * pin doesn't jump around on every refresh and doesn't line up on a visible
+ * grid. Anyone reading `locations` only ever learns the cell.
+ */
+
+// Meters per degree of latitude
+const METERS_PER_DEGREE = 111320;
+
+export type LocationPrecision = 'approximate' | 'neighborhood';
+
+export interface LocationPrivacySettings {
+  precision: LocationPrecision;
+  // Show a radius ring to others instead of a pin
+  showAsArea: boolean;
+}
+
+export interface ObfuscatedLocation {
+  latitude: number;
+  longitude: number;
+  // How far (m) the published point may be from the real one
+  precisionRadius: number;
+}
+
+// Grid cell size and maximum jitter (m) for each precision level
+export const PRECISION_LEVELS: Record<LocationPrecision, { label: string; gridSize: number; jitter: number }> = {
+  approximate: { label: 'Approximate (~100 m)', gridSize: 100, jitter: 35 },
+  neighborhood: { label: 'Neighborhood (~500 m)', gridSize: 500, jitter: 150 }
+};
+
+export const DEFAULT_LOCATION_PRIVACY: LocationPrivacySettings = {
+  precision: 'approximate',
+  showAsArea: false
+};
+
+/**
+ * Fill in defaults for settings read from a user profile
+ */
+export const resolveLocationPrivacy = (settings?: Partial<LocationPrivacySettings> | null): LocationPrivacySettings => {
+  const precision = settings?.precision && PRECISION_LEVELS[settings.precision]
+    ? settings.precision
+    : DEFAULT_LOCATION_PRIVACY.precision;
+
+  return {
+    precision,
+    showAsArea: settings?.showAsArea ?? DEFAULT_LOCATION_PRIVACY.showAsArea
+  };
+};
+
+/**
+ * Hash a string to an unsigned 32-bit integer (FNV-1a)
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Snap a coordinate to the center of its grid cell
+ */
+export const snapToGrid = (
+  latitude: number,
+  longitude: number,
+  gridSize: number
+): { latitude: number; longitude: number; cellKey: string } => {
+  const latStep = gridSize / METERS_PER_DEGREE;
+  const latIndex = Math.floor(latitude / latStep);
+  const snappedLat = (latIndex + 0.5) * latStep;
+
+  // Longitude cells widen towards the poles; size them at the snapped row
+  const lngStep = gridSize / (METERS_PER_DEGREE * Math.max(Math.cos(snappedLat * (Math.PI / 180)), 0.01));
+  const lngIndex = Math.floor(longitude / lngStep);
+  const snappedLng = (lngIndex + 0.5) * lngStep;
+
+  return {
+    latitude: snappedLat,
+    longitude: snappedLng,
+    cellKey: `${gridSize}:${latIndex}:${lngIndex}`
+  };
+};
+
+/**
+ * Stable jitter for a user within a cell, as a north/east offset in meters
+ */
+export const stableJitter = (uid: string, cellKey: string, maxMeters: number): { north: number; east: number } => {
+  const seed = hashString(`${uid}|${cellKey}`);
+  const angle = ((seed & 0xffff) / 0xffff) * 2 * Math.PI;
+  // sqrt keeps the offsets evenly spread over the disc
+  const distance = Math.sqrt((seed >>> 16) / 0xffff) * maxMeters;
+
+  return {
+    north: distance * Math.sin(angle),
+    east: distance * Math.cos(angle)
+  };
+};
+
+/**
+ * Turn a real position into the one we are allowed to publish
+ */
+export const obfuscateLocation = (
+  uid: string,
+  latitude: number,
+  longitude: number,
+  settings?: Partial<LocationPrivacySettings> | null
+): ObfuscatedLocation => {
+  const { precision } = resolveLocationPrivacy(settings);
+  const { gridSize, jitter } = PRECISION_LEVELS[precision];
+
+  const snapped = snapToGrid(latitude, longitude, gridSize);
+  const offset = stableJitter(uid, snapped.cellKey, jitter);
+
+  const jitteredLat = snapped.latitude + offset.north / METERS_PER_DEGREE;
+  const jitteredLng = snapped.longitude +
+    offset.east / (METERS_PER_DEGREE * Math.max(Math.cos(snapped.latitude * (Math.PI / 180)), 0.01));
+
+  return {
+    latitude: jitteredLat,
+    longitude: jitteredLng,
+    // Half the cell diagonal plus the jitter bounds the error
+    precisionRadius: Math.round(gridSize * Math.SQRT1_2 + jitter)
+  };
+};
+
+/**
+ * Format a distance between fuzzed positions as a coarse bucket
+ * Anything more exact would suggest precision the positions don't have.
+ */
+export const formatDistanceBucket = (meters: number): string => {
+  if (meters < 100) return '< 100 m';
+  if (meters < 950) return `~${Math.round(meters / 100) * 100} m`;
+  if (meters < 10000) return `~${(Math.round(meters / 500) * 0.5).toFixed(1)} km`;
+  return `~${Math.round(meters / 1000)} km`;
+};
+
+export default {
+  PRECISION_LEVELS,
+  DEFAULT_LOCATION_PRIVACY,
+  resolveLocationPrivacy,
+  snapToGrid,
+  stableJitter,
+  obfuscateLocation,
+  formatDistanceBucket
+};
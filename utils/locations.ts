@@ -0,0 +1,322 @@
+/**
+ * Reading and writing the `locations` collection with geohash indexing
+ */
+
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  startAt,
+  endAt,
+  getDocs,
+  doc,
+  setDoc,
+  GeoPoint,
+  Timestamp,
+  serverTimestamp,
+  onSnapshot,
+  DocumentData,
+  QueryDocumentSnapshot
+} from '@firebase/firestore';
+import { db } from '@/config/firebase';
+import { getDistanceFromLatLonInMeters } from './geospatial';
+import { encodeGeohash, geohashQueryBounds } from './geohash';
+import { obfuscateLocation, resolveLocationPrivacy, LocationPrivacySettings } from './locationPrivacy';
+import {
+  LOCATION_TTL,
+  LocationFreshness,
+  getLocationFreshness,
+  getLocationUpdatedAt
+} from './locationFreshness';
+import { getVisibilityStatus, VisibilitySchedule } from './visibilitySchedule';
+import {
+  loadSafeZones,
+  findSafeZone,
+  getActiveSafeZone,
+  setActiveSafeZone,
+  getBlurredZoneLocation
+} from './safeZones';
+
+// How often (ms) live subscriptions re-check freshness, since a position
+// going stale doesn't produce a snapshot
+const FRESHNESS_CHECK_INTERVAL = 60 * 1000;
+
+export interface NearbyLocation {
+  uid: string;
+  latitude: number;
+  longitude: number;
+  distance: number;
+  freshness: Exclude<LocationFreshness, 'expired'>;
+  // When the position was written (epoch ms)
+  updatedAt: number | null;
+  data: DocumentData;
+}
+
+// 'updated' means the position is unchanged but its freshness changed
+export type NearbyLocationEvent =
+  | { type: 'added' | 'moved' | 'updated'; uid: string; location: NearbyLocation }
+  | { type: 'removed'; uid: string };
+
+/**
+ * Save the user's position to `locations/{uid}` along with its geohash
+ * The exact position is fuzzed first and never written. Bounded nearby
+ * queries only find docs that carry a geohash, so every location write
+ * should go through here. Each write pushes `expiresAt` forward by the TTL,
+ * or only to the schedule's next change if that comes sooner.
+ * `visible` is the user's master switch; a visibility schedule or ghost
+ * mode can still hide them, and is applied here so every writer obeys it.
+ * Inside a safe zone the position is either withheld or blurred to the zone.
+ */
+export const saveUserLocation = async (
+  uid: string,
+  latitude: number,
+  longitude: number,
+  visible: boolean,
+  privacy?: Partial<LocationPrivacySettings> | null,
+  schedule?: Partial<VisibilitySchedule> | null
+): Promise<void> => {
+  const settings = resolveLocationPrivacy(privacy);
+  const userLocationRef = doc(db, 'locations', uid);
+
+  const safeZone = findSafeZone(await loadSafeZones(uid), latitude, longitude);
+  await setActiveSafeZone(uid, safeZone);
+
+  // Don't write anything that could place the user inside a hidden zone;
+  // the previous position stays behind but is no longer visible
+  if (safeZone?.mode === 'hide') {
+    await setDoc(userLocationRef, {
+      uid,
+      lastSeen: serverTimestamp(),
+      visible: false
+    }, { merge: true });
+    return;
+  }
+
+  const fuzzed = safeZone
+    ? getBlurredZoneLocation(uid, safeZone)
+    : obfuscateLocation(uid, latitude, longitude, settings);
+
+  const now = Date.now();
+  const status = getVisibilityStatus(visible, schedule, now);
+  // The app may not be running to write the change when the schedule hides them
+  const expiresAt = status.visible && status.nextChange !== null
+    ? Math.min(now + LOCATION_TTL, status.nextChange)
+    : now + LOCATION_TTL;
+  await setDoc(userLocationRef, {
+    uid,
+    location: new GeoPoint(fuzzed.latitude, fuzzed.longitude),
+    geohash: encodeGeohash(fuzzed.latitude, fuzzed.longitude),
+    precisionRadius: fuzzed.precisionRadius,
+    // A blurred zone position is only meaningful as an area
+    showAsArea: safeZone ? true : settings.showAsArea,
+    timestamp: new Date(now),
+    expiresAt: Timestamp.fromMillis(expiresAt),
+    lastSeen: serverTimestamp(),
+    visible: status.visible
+  }, { merge: true });
+};
+
+/**
+ * Update only the `visible` flag on `locations/{uid}`
+ * For visibility changes that don't come with a new position. The schedule
+ * applies as in `saveUserLocation`, and a user last seen inside a hidden
+ * safe zone stays hidden until a write from outside it.
+ */
+export const updateLocationVisibility = async (
+  uid: string,
+  visible: boolean,
+  schedule?: Partial<VisibilitySchedule> | null
+): Promise<void> => {
+  const safeZone = await getActiveSafeZone(uid);
+  const visibleNow = safeZone?.mode !== 'hide' && getVisibilityStatus(visible, schedule).visible;
+
+  await setDoc(doc(db, 'locations', uid), {
+    visible: visibleNow
+  }, { merge: true });
+};
+
+/**
+ * Build one query per geohash range covering the radius
+ * Requires a composite index on `locations` (visible ASC, geohash ASC).
+ */
+const buildRadiusQueries = (latitude: number, longitude: number, radiusInMeters: number) => {
+  const locationsRef = collection(db, 'locations');
+  const bounds = geohashQueryBounds(latitude, longitude, radiusInMeters);
+
+  console.log(`Querying ${bounds.length} geohash ranges for ${radiusInMeters}m radius`);
+
+  return bounds.map(([start, end]) => query(
+    locationsRef,
+    where('visible', '==', true),
+    orderBy('geohash'),
+    startAt(start),
+    endAt(end)
+  ));
+};
+
+/**
+ * Convert a location doc to a NearbyLocation, or null if it is outside the
+ * circle or has expired
+ */
+const toNearbyLocation = (
+  locationDoc: QueryDocumentSnapshot,
+  latitude: number,
+  longitude: number,
+  radiusInMeters: number
+): NearbyLocation | null => {
+  const data = locationDoc.data();
+  if (!data.location) return null;
+
+  const freshness = getLocationFreshness(data);
+  if (freshness === 'expired') return null;
+
+  // Cells cover a square, so drop the corners outside the circle
+  const distance = getDistanceFromLatLonInMeters(
+    latitude,
+    longitude,
+    data.location.latitude,
+    data.location.longitude
+  );
+  if (distance > radiusInMeters) return null;
+
+  return {
+    uid: data.uid || locationDoc.id,
+    latitude: data.location.latitude,
+    longitude: data.location.longitude,
+    distance,
+    freshness,
+    updatedAt: getLocationUpdatedAt(data),
+    data
+  };
+};
+
+/**
+ * Fetch visible locations within a radius, reading only the geohash cells that cover it
+ */
+export const fetchLocationsWithinRadius = async (
+  latitude: number,
+  longitude: number,
+  radiusInMeters: number
+): Promise<NearbyLocation[]> => {
+  const queries = buildRadiusQueries(latitude, longitude, radiusInMeters);
+  const snapshots = await Promise.all(queries.map(q => getDocs(q)));
+
+  // Ranges never overlap, but de-duplicate by uid to be safe
+  const results = new Map<string, NearbyLocation>();
+
+  snapshots.forEach(snapshot => {
+    snapshot.forEach(locationDoc => {
+      const nearby = toNearbyLocation(locationDoc, latitude, longitude, radiusInMeters);
+      if (nearby) {
+        results.set(nearby.uid, nearby);
+      }
+    });
+  });
+
+  return Array.from(results.values());
+};
+
+/**
+ * Subscribe to visible locations within a radius
+ * Listens to the same geohash ranges as fetchLocationsWithinRadius and
+ * reports what changed since the last callback. Nothing is reported until
+ * every range has delivered its first snapshot; that first batch has
+ * `initial` set and lists everyone currently in range as 'added'.
+ * Expired positions drop out as 'removed' even if their doc never changes.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToLocationsWithinRadius = (
+  latitude: number,
+  longitude: number,
+  radiusInMeters: number,
+  onChange: (events: NearbyLocationEvent[], initial: boolean) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  const queries = buildRadiusQueries(latitude, longitude, radiusInMeters);
+
+  // Latest in-range docs per query; a user moving between cells briefly
+  // shows up in two ranges, so membership is the union across queries
+  const perQuery: Array<Map<string, NearbyLocation> | null> = queries.map(() => null);
+  let current = new Map<string, NearbyLocation>();
+  let initialSent = false;
+
+  const emitChanges = () => {
+    // Wait for every range before reporting anything
+    if (perQuery.some(entries => entries === null)) return;
+
+    const now = Date.now();
+    const next = new Map<string, NearbyLocation>();
+    perQuery.forEach(entries => {
+      entries!.forEach((nearby, uid) => {
+        // Freshness moves on with the clock, so re-check it on every pass
+        const freshness = getLocationFreshness(nearby.data, now);
+        if (freshness !== 'expired') {
+          next.set(uid, { ...nearby, freshness });
+        }
+      });
+    });
+
+    const events: NearbyLocationEvent[] = [];
+
+    next.forEach((nearby, uid) => {
+      const previous = current.get(uid);
+      if (!previous) {
+        events.push({ type: 'added', uid, location: nearby });
+      } else if (previous.latitude !== nearby.latitude || previous.longitude !== nearby.longitude) {
+        events.push({ type: 'moved', uid, location: nearby });
+      } else if (previous.freshness !== nearby.freshness) {
+        events.push({ type: 'updated', uid, location: nearby });
+      }
+    });
+
+    current.forEach((_, uid) => {
+      if (!next.has(uid)) {
+        events.push({ type: 'removed', uid });
+      }
+    });
+
+    current = next;
+
+    if (!initialSent) {
+      initialSent = true;
+      onChange(events, true);
+    } else if (events.length > 0) {
+      onChange(events, false);
+    }
+  };
+
+  const unsubscribes = queries.map((q, index) => onSnapshot(
+    q,
+    snapshot => {
+      const entries = new Map<string, NearbyLocation>();
+      snapshot.forEach(locationDoc => {
+        const nearby = toNearbyLocation(locationDoc, latitude, longitude, radiusInMeters);
+        if (nearby) {
+          entries.set(nearby.uid, nearby);
+        }
+      });
+
+      perQuery[index] = entries;
+      emitChanges();
+    },
+    error => {
+      console.error('Error in nearby locations listener:', error);
+      onError?.(error);
+    }
+  ));
+
+  const freshnessTimer = setInterval(emitChanges, FRESHNESS_CHECK_INTERVAL);
+
+  return () => {
+    clearInterval(freshnessTimer);
+    unsubscribes.forEach(unsubscribe => unsubscribe());
+  };
+};
+
+export default {
+  saveUserLocation,
+  updateLocationVisibility,
+  fetchLocationsWithinRadius,
+  subscribeToLocationsWithinRadius
+};
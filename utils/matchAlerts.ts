@@ -0,0 +1,297 @@
+/**
+ * "Match nearby" alerts for watched filter presets
+ *
+ * A preset marked as a watch is checked against people nearby, either from
+ * the map's live subscription or from the background location task, and a
+ * local notification is raised for anyone who passes it. Each person can
+ * only trigger an alert once per cooldown, whichever preset they match, so
+ * someone lingering nearby doesn't keep buzzing the phone.
+ */
+
+import { doc, getDoc } from '@firebase/firestore';
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { db } from '@/config/firebase';
+import { fetchLocationsWithinRadius } from './locations';
+import { loadBlockedUids } from './blocks';
+import { loadFilterPresets, FilterPreset } from './filterPresets';
+import { FilterableUser, evaluateFilters } from './discoveryFilters';
+import { CompatibilityTier, TIER_LABELS, scorePopulation } from './compatibility';
+import { canonicalizeInterests, getInterestLabel, matchInterests } from './interestTaxonomy';
+
+const ALERT_STATE_STORAGE_PREFIX = 'hive_match_alerts_';
+
+// The same person can't trigger another alert for this long (ms)
+export const MATCH_ALERT_COOLDOWN = 12 * 60 * 60 * 1000;
+// The background task checks watches at most this often (ms)
+const BACKGROUND_CHECK_INTERVAL = 5 * 60 * 1000;
+// Cooldown entries older than this are dropped from storage (ms)
+const COOLDOWN_RETENTION = 2 * MATCH_ALERT_COOLDOWN;
+
+export interface AlertCandidate extends FilterableUser {
+  uid: string;
+  name?: string | null;
+  // Distance from the viewer (m)
+  distance: number;
+  tier?: CompatibilityTier;
+  sharedInterests?: string[];
+}
+
+export interface WatchMatch {
+  preset: FilterPreset;
+  candidate: AlertCandidate;
+}
+
+interface AlertState {
+  // Last alert per person (epoch ms)
+  alertedAt: Record<string, number>;
+  // Last background check (epoch ms)
+  checkedAt: number;
+}
+
+// Show alerts even while the app is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false
+  })
+});
+
+const readState = async (uid: string): Promise<AlertState> => {
+  try {
+    const stored = await AsyncStorage.getItem(ALERT_STATE_STORAGE_PREFIX + uid);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.error('Error reading match alert state:', error);
+  }
+  return { alertedAt: {}, checkedAt: 0 };
+};
+
+const writeState = async (uid: string, state: AlertState, now: number): Promise<void> => {
+  // Forget people whose cooldown ran out long ago
+  const alertedAt: Record<string, number> = {};
+  Object.keys(state.alertedAt).forEach(otherUid => {
+    if (now - state.alertedAt[otherUid] < COOLDOWN_RETENTION) {
+      alertedAt[otherUid] = state.alertedAt[otherUid];
+    }
+  });
+  await AsyncStorage.setItem(ALERT_STATE_STORAGE_PREFIX + uid, JSON.stringify({ ...state, alertedAt }));
+};
+
+// The tail of the alert state updates queued so far
+let stateQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a read-then-write of the alert state once the ones before it finish
+ * The map and the background task can check at the same time, and would
+ * otherwise both alert on the same person before either saved a cooldown.
+ */
+const withAlertState = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = stateQueue.then(task);
+  stateQueue = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Ask for permission to show alerts
+ * Returns whether alerts can be shown.
+ */
+export const requestMatchAlertPermission = async (): Promise<boolean> => {
+  const existing = await Notifications.getPermissionsAsync();
+  if (existing.granted) return true;
+  if (!existing.canAskAgain) return false;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+/**
+ * Get the watched presets each candidate passes, one match per person
+ * A person has to be inside the preset's own radius as well as pass its filters.
+ */
+export const findWatchMatches = (
+  candidates: AlertCandidate[],
+  watches: FilterPreset[],
+  now: number = Date.now()
+): WatchMatch[] => {
+  const matches: WatchMatch[] = [];
+
+  candidates.forEach(candidate => {
+    const preset = watches.find(watch =>
+      candidate.distance <= watch.filters.discoveryRadius &&
+      evaluateFilters(candidate, watch.filters, now).length === 0
+    );
+    if (preset) {
+      matches.push({ preset, candidate });
+    }
+  });
+
+  return matches;
+};
+
+/**
+ * Raise one notification for a batch of matches
+ */
+const showMatchNotification = async (matches: WatchMatch[]): Promise<void> => {
+  const [{ preset, candidate }] = matches;
+  const name = candidate.name || 'Someone';
+
+  let body: string;
+  if (matches.length === 1) {
+    const tier = candidate.tier ? `${TIER_LABELS[candidate.tier]} match` : 'A match';
+    const shared = (candidate.sharedInterests || []).slice(0, 3).map(getInterestLabel);
+    body = shared.length > 0 ? `${tier} · you both like ${shared.join(', ')}` : tier;
+  } else {
+    body = `${name} and ${matches.length - 1} more match your saved filters`;
+  }
+
+  await Notifications.scheduleNotificationAsync({
+    content: {
+      title: matches.length === 1 ? `${preset.name}: ${name} is nearby` : `${preset.name}: ${matches.length} people nearby`,
+      body,
+      // Tapping opens the first person's profile
+      data: { type: 'matchAlert', uid: candidate.uid, name, tier: candidate.tier || 'casual' }
+    },
+    trigger: null
+  });
+};
+
+/**
+ * Check people nearby against the user's watched presets and alert on new matches
+ */
+export const notifyWatchMatches = async (
+  uid: string,
+  candidates: AlertCandidate[],
+  now: number = Date.now()
+): Promise<number> => {
+  const watches = (await loadFilterPresets(uid)).filter(preset => preset.watch);
+  if (watches.length === 0 || candidates.length === 0) return 0;
+
+  return withAlertState(async () => {
+    const state = await readState(uid);
+    const eligible = candidates.filter(candidate =>
+      candidate.uid !== uid &&
+      now - (state.alertedAt[candidate.uid] || 0) >= MATCH_ALERT_COOLDOWN
+    );
+
+    const matches = findWatchMatches(eligible, watches, now);
+    if (matches.length === 0) return 0;
+
+    try {
+      await showMatchNotification(matches);
+    } catch (error) {
+      console.error('Error showing match alert:', error);
+      return 0;
+    }
+
+    matches.forEach(({ candidate }) => {
+      state.alertedAt[candidate.uid] = now;
+    });
+    await writeState(uid, state, now);
+
+    console.log(`Match alert raised for ${matches.length} people`);
+    return matches.length;
+  });
+};
+
+/**
+ * Look for watch matches around a position; used by the background task
+ * Throttled, and only loads profiles for people who could still trigger an alert.
+ */
+export const checkWatchesNearby = async (
+  uid: string,
+  latitude: number,
+  longitude: number,
+  now: number = Date.now()
+): Promise<void> => {
+  const watches = (await loadFilterPresets(uid)).filter(preset => preset.watch);
+  if (watches.length === 0) return;
+
+  const state = await withAlertState(async () => {
+    const current = await readState(uid);
+    if (now - current.checkedAt < BACKGROUND_CHECK_INTERVAL) return null;
+    await writeState(uid, { ...current, checkedAt: now }, now);
+    return current;
+  });
+  if (!state) return;
+
+  const radius = Math.max(...watches.map(watch => watch.filters.discoveryRadius));
+  const [locations, blockedUids] = await Promise.all([
+    fetchLocationsWithinRadius(latitude, longitude, radius),
+    loadBlockedUids(uid)
+  ]);
+  const nearby = locations
+    .filter(location =>
+      location.uid !== uid &&
+      !blockedUids.has(location.uid) &&
+      now - (state.alertedAt[location.uid] || 0) >= MATCH_ALERT_COOLDOWN
+    );
+  if (nearby.length === 0) return;
+
+  const [viewerDoc, ...profileDocs] = await Promise.all([
+    getDoc(doc(db, 'users', uid)),
+    ...nearby.map(location => getDoc(doc(db, 'users', location.uid)))
+  ]);
+  const viewer = viewerDoc.data() || {};
+  const viewerInterests = canonicalizeInterests(viewer.interests);
+
+  const candidates = nearby
+    .map((location, index) => {
+      const profile = profileDocs[index].data();
+      if (!profile) return null;
+
+      const interests = canonicalizeInterests(profile.interests);
+      const sharedInterests = matchInterests(viewerInterests, interests).shared;
+      return {
+        uid: location.uid,
+        name: profile.name || null,
+        distance: location.distance,
+        interests,
+        sharedInterests,
+        sharedInterestsCount: sharedInterests.length,
+        age: profile.age || null,
+        gender: profile.gender || null,
+        lookingFor: profile.lookingFor || [],
+        lastActive: location.updatedAt,
+        createdAt: profile.createdAt?.toMillis ? profile.createdAt.toMillis() : null
+      };
+    })
+    .filter((candidate): candidate is NonNullable<typeof candidate> => candidate !== null);
+
+  // Tiers come from the same scoring the map uses
+  const scored = scorePopulation(
+    { interests: viewerInterests, lookingFor: viewer.lookingFor, age: viewer.age },
+    candidates,
+    {},
+    now
+  ).map(candidate => ({ ...candidate, tier: candidate.compatibility.tier }));
+
+  await notifyWatchMatches(uid, scored, now);
+};
+
+/**
+ * Call `onOpen` with the person an alert was about when it's tapped
+ * Returns an unsubscribe function.
+ */
+export const subscribeToMatchAlertTaps = (
+  onOpen: (match: { uid: string; name: string; tier: string }) => void
+): (() => void) => {
+  const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+    const data = response.notification.request.content.data;
+    if (data?.type === 'matchAlert' && typeof data.uid === 'string') {
+      onOpen({ uid: data.uid, name: String(data.name || ''), tier: String(data.tier || 'casual') });
+    }
+  });
+  return () => subscription.remove();
+};
+
+export default {
+  MATCH_ALERT_COOLDOWN,
+  requestMatchAlertPermission,
+  findWatchMatches,
+  notifyWatchMatches,
+  checkWatchesNearby,
+  subscribeToMatchAlertTaps
+};
@@ -2,10 +2,19 @@
  * Utility for managing user presence (online status) using Firebase
  */
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { AppState, AppStateStatus, Platform } from 'react-native';
 import { db, auth, database } from '@/config/firebase';
-import { doc, setDoc, serverTimestamp, collection, onSnapshot } from '@firebase/firestore';
+import {
+  doc,
+  setDoc,
+  serverTimestamp,
+  collection,
+  onSnapshot,
+  query,
+  where,
+  documentId
+} from '@firebase/firestore';
 import { ref, set, onValue, onDisconnect as rtdbOnDisconnect } from '@firebase/database';
 // NetInfo dependency is commented out since it wasn't successfully installed
 // import NetInfo from '@react-native-community/netinfo';
@@ -290,3 +299,240 @@ export function useUserPresence() {
     }
   }, []);
 }
+
+/**
+ * Scoped presence listeners shared across screens
+ *
+ * Screens ask for the online status of specific uids rather than reading the
+ * whole `presence` collection. Requests are reference-counted per uid, so two
+ * screens watching the same user share one listener, and uids requested in
+ * the same tick are batched into `in` queries of up to PRESENCE_BATCH_SIZE.
+ */
+
+// Firestore caps `in` filters at 30 values
+const PRESENCE_BATCH_SIZE = 30;
+// Collect uids requested within this window (ms) into the same queries
+const PRESENCE_BATCH_DELAY = 50;
+
+export interface UserPresence {
+  online: boolean;
+  lastSeen: Date | null;
+}
+
+interface PresenceBatch {
+  // Uids this listener still serves; unsubscribed once it is empty
+  uids: Set<string>;
+  unsubscribe: () => void;
+}
+
+interface PresenceEntry {
+  refCount: number;
+  presence: UserPresence | null;
+  batch: PresenceBatch | null;
+}
+
+interface PresenceSubscriber {
+  uids: Set<string>;
+  onChange: (presence: Record<string, UserPresence>) => void;
+}
+
+const presenceEntries = new Map<string, PresenceEntry>();
+const presenceSubscribers = new Set<PresenceSubscriber>();
+const pendingUids = new Set<string>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Collect the known presence for a subscriber's uids
+ */
+const getPresenceFor = (uids: Set<string>): Record<string, UserPresence> => {
+  const result: Record<string, UserPresence> = {};
+  uids.forEach(uid => {
+    const presence = presenceEntries.get(uid)?.presence;
+    if (presence) {
+      result[uid] = presence;
+    }
+  });
+  return result;
+};
+
+/**
+ * Tell every subscriber watching one of the changed uids
+ */
+const notifySubscribers = (changedUids: string[]) => {
+  presenceSubscribers.forEach(subscriber => {
+    if (changedUids.some(uid => subscriber.uids.has(uid))) {
+      subscriber.onChange(getPresenceFor(subscriber.uids));
+    }
+  });
+};
+
+/**
+ * Start one listener per batch of newly requested uids
+ */
+const flushPendingUids = () => {
+  flushTimer = null;
+
+  const uids = Array.from(pendingUids).filter(uid => {
+    const entry = presenceEntries.get(uid);
+    return entry && !entry.batch;
+  });
+  pendingUids.clear();
+
+  for (let i = 0; i < uids.length; i += PRESENCE_BATCH_SIZE) {
+    const chunk = uids.slice(i, i + PRESENCE_BATCH_SIZE);
+    const batch: PresenceBatch = { uids: new Set(chunk), unsubscribe: () => {} };
+
+    console.log(`Listening to presence for ${chunk.length} users`);
+
+    batch.unsubscribe = onSnapshot(
+      query(collection(db, 'presence'), where(documentId(), 'in', chunk)),
+      (snapshot) => {
+        const docs = new Map(snapshot.docs.map(presenceDoc => [presenceDoc.id, presenceDoc.data()]));
+        const changedUids: string[] = [];
+
+        batch.uids.forEach(uid => {
+          const entry = presenceEntries.get(uid);
+          if (!entry) return;
+
+          // No presence doc means the user has never been online
+          const data = docs.get(uid);
+          const presence: UserPresence = {
+            online: data?.online === true,
+            lastSeen: data?.lastSeen?.toDate ? data.lastSeen.toDate() : null
+          };
+
+          if (
+            entry.presence?.online !== presence.online ||
+            entry.presence?.lastSeen?.getTime() !== presence.lastSeen?.getTime()
+          ) {
+            entry.presence = presence;
+            changedUids.push(uid);
+          }
+        });
+
+        if (changedUids.length > 0) {
+          notifySubscribers(changedUids);
+        }
+      },
+      (error) => {
+        console.error('Error getting presence:', error);
+      }
+    );
+
+    chunk.forEach(uid => {
+      const entry = presenceEntries.get(uid);
+      if (entry) {
+        entry.batch = batch;
+      }
+    });
+  }
+};
+
+/**
+ * Drop one reference to a uid, stopping its listener when nobody needs it
+ */
+const releaseUid = (uid: string) => {
+  const entry = presenceEntries.get(uid);
+  if (!entry) return;
+
+  entry.refCount -= 1;
+  if (entry.refCount > 0) return;
+
+  presenceEntries.delete(uid);
+  pendingUids.delete(uid);
+
+  if (entry.batch) {
+    entry.batch.uids.delete(uid);
+    if (entry.batch.uids.size === 0) {
+      entry.batch.unsubscribe();
+    }
+  }
+};
+
+/**
+ * Take one reference to a uid, queueing a listener if it has none yet
+ */
+const acquireUid = (uid: string) => {
+  const entry = presenceEntries.get(uid);
+  if (entry) {
+    entry.refCount += 1;
+  } else {
+    presenceEntries.set(uid, { refCount: 1, presence: null, batch: null });
+    pendingUids.add(uid);
+  }
+};
+
+/**
+ * Point a subscriber at a new set of uids
+ * Only the uids added or removed take or drop a reference, so listeners and
+ * known presence for the uids that stay are untouched.
+ */
+const setSubscriberUids = (subscriber: PresenceSubscriber, uids: string[]) => {
+  const next = new Set(uids.filter(Boolean));
+  const removed = Array.from(subscriber.uids).filter(uid => !next.has(uid));
+
+  next.forEach(uid => {
+    if (!subscriber.uids.has(uid)) acquireUid(uid);
+  });
+  subscriber.uids = next;
+  removed.forEach(releaseUid);
+
+  // Report what other screens already know straight away
+  subscriber.onChange(getPresenceFor(subscriber.uids));
+
+  if (pendingUids.size > 0 && !flushTimer) {
+    flushTimer = setTimeout(flushPendingUids, PRESENCE_BATCH_DELAY);
+  }
+};
+
+/**
+ * Subscribe to the online status of specific users
+ * `onChange` receives the presence of every requested uid known so far.
+ * Returns an unsubscribe function; call it when the screen unmounts.
+ */
+export const subscribeToPresence = (
+  uids: string[],
+  onChange: (presence: Record<string, UserPresence>) => void
+): (() => void) => {
+  const subscriber: PresenceSubscriber = { uids: new Set(), onChange };
+  presenceSubscribers.add(subscriber);
+  setSubscriberUids(subscriber, uids);
+
+  return () => {
+    presenceSubscribers.delete(subscriber);
+    subscriber.uids.forEach(releaseUid);
+  };
+};
+
+/**
+ * Hook returning the presence of the given users, keyed by uid
+ * Only the listed uids are watched. The component keeps one subscription, and
+ * changing the list only moves the listeners for uids added or removed.
+ */
+export function usePresence(uids: string[]): Record<string, UserPresence> {
+  const [presence, setPresence] = useState<Record<string, UserPresence>>({});
+  const subscriberRef = useRef<PresenceSubscriber | null>(null);
+
+  // Compare by content so a new array with the same uids doesn't resubscribe
+  const uidsKey = Array.from(new Set(uids.filter(Boolean))).sort().join(',');
+
+  useEffect(() => {
+    const subscriber: PresenceSubscriber = { uids: new Set(), onChange: setPresence };
+    presenceSubscribers.add(subscriber);
+    subscriberRef.current = subscriber;
+
+    return () => {
+      presenceSubscribers.delete(subscriber);
+      subscriber.uids.forEach(releaseUid);
+      subscriberRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (subscriberRef.current) {
+      setSubscriberUids(subscriberRef.current, uidsKey ? uidsKey.split(',') : []);
+    }
+  }, [uidsKey]);
+
+  return presence;
+}
@@ -0,0 +1,137 @@
+/**
+ * Batched, cached loading of other people's profiles
+ *
+ * Lists of people (connections, requests) need a name, photo and interests
+ * per row. Instead of a query per row, missing or stale profiles are fetched
+ * IN_QUERY_LIMIT at a time, and everything loaded is kept in memory and in
+ * AsyncStorage so lists fill in from the cache straight away.
+ */
+
+import { collection, documentId, getDocs, query, where } from '@firebase/firestore';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { db } from '@/config/firebase';
+
+const PROFILE_CACHE_KEY = 'hive_profile_cache';
+// Cached profiles older than this are fetched again (ms)
+const PROFILE_MAX_AGE = 10 * 60 * 1000;
+// Most profiles kept in AsyncStorage; the least recently fetched are dropped
+const MAX_CACHED_PROFILES = 300;
+// Firestore's limit on values in an `in` query
+const IN_QUERY_LIMIT = 30;
+
+export interface ProfileSummary {
+  uid: string;
+  name: string;
+  photoURL: string | null;
+  interests: string[];
+  // When this copy was fetched (epoch ms)
+  fetchedAt: number;
+}
+
+// Shared across screens so they don't each read AsyncStorage
+let memoryProfiles: Record<string, ProfileSummary> | null = null;
+// Fetches in flight by uid, so overlapping loads share them
+const inFlight = new Map<string, Promise<void>>();
+
+const readCache = async (): Promise<Record<string, ProfileSummary>> => {
+  if (memoryProfiles) return memoryProfiles;
+
+  try {
+    const stored = await AsyncStorage.getItem(PROFILE_CACHE_KEY);
+    memoryProfiles = stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error reading profile cache:', error);
+    memoryProfiles = {};
+  }
+
+  return memoryProfiles!;
+};
+
+const writeCache = async (profiles: Record<string, ProfileSummary>): Promise<void> => {
+  const kept = Object.values(profiles)
+    .sort((a, b) => b.fetchedAt - a.fetchedAt)
+    .slice(0, MAX_CACHED_PROFILES);
+
+  try {
+    await AsyncStorage.setItem(
+      PROFILE_CACHE_KEY,
+      JSON.stringify(Object.fromEntries(kept.map(profile => [profile.uid, profile])))
+    );
+  } catch (error) {
+    console.error('Error saving profile cache:', error);
+  }
+};
+
+/**
+ * Fetch profiles from `users` in batches and merge them into the cache
+ */
+const fetchProfiles = async (uids: string[]): Promise<void> => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < uids.length; i += IN_QUERY_LIMIT) {
+    chunks.push(uids.slice(i, i + IN_QUERY_LIMIT));
+  }
+
+  const snapshots = await Promise.all(chunks.map(chunk =>
+    getDocs(query(collection(db, 'users'), where(documentId(), 'in', chunk)))
+  ));
+
+  const now = Date.now();
+  const fetched: Record<string, ProfileSummary> = {};
+  snapshots.forEach(snapshot => snapshot.forEach(userDoc => {
+    const data = userDoc.data();
+    fetched[userDoc.id] = {
+      uid: userDoc.id,
+      name: data.name || 'Unknown User',
+      photoURL: data.photoURL || null,
+      interests: Array.isArray(data.interests) ? data.interests : [],
+      fetchedAt: now
+    };
+  }));
+
+  console.log(`Loaded ${Object.keys(fetched).length} of ${uids.length} profiles in ${chunks.length} batches`);
+
+  memoryProfiles = { ...(await readCache()), ...fetched };
+  await writeCache(memoryProfiles);
+};
+
+/**
+ * Profiles for a set of users, keyed by uid
+ * Served from the cache where fresh; users with no profile are left out.
+ */
+export const loadProfiles = async (
+  uids: string[],
+  forceRefresh: boolean = false
+): Promise<Record<string, ProfileSummary>> => {
+  const unique = [...new Set(uids.filter(Boolean))];
+  const cache = await readCache();
+  const now = Date.now();
+
+  const stale = unique.filter(uid =>
+    forceRefresh || !cache[uid] || now - cache[uid].fetchedAt > PROFILE_MAX_AGE
+  );
+  const toFetch = stale.filter(uid => !inFlight.has(uid));
+
+  if (toFetch.length > 0) {
+    const request = fetchProfiles(toFetch).finally(() => {
+      toFetch.forEach(uid => inFlight.delete(uid));
+    });
+    toFetch.forEach(uid => inFlight.set(uid, request));
+  }
+
+  try {
+    await Promise.all([...new Set(stale.map(uid => inFlight.get(uid)))]);
+  } catch (error) {
+    // Stale profiles are better than none
+    console.error('Error loading profiles:', error);
+  }
+
+  const profiles: Record<string, ProfileSummary> = {};
+  unique.forEach(uid => {
+    if (memoryProfiles?.[uid]) profiles[uid] = memoryProfiles[uid];
+  });
+  return profiles;
+};
+
+export default {
+  loadProfiles
+};
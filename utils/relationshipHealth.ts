@@ -0,0 +1,363 @@
+/**
+ * Relationship health: reminders to keep in touch with connections
+ *
+ * Worked out from each connection's `acceptedAt` and its chat room's last
+ * message, there are three kinds of reminder:
+ *
+ *   reply        the other person sent the last message a day or more ago
+ *   anniversary  a connection milestone is coming up within the week
+ *   quiet        nobody has written for the user's chosen number of weeks
+ *
+ * A reminder's key includes the message or milestone it is about, so
+ * dismissing one only lasts until things change: a dismissed quiet reminder
+ * comes back if the chat goes quiet again after a new message. Snoozes,
+ * dismissals and the quiet threshold are kept per user in AsyncStorage.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { collection, onSnapshot, query, where } from '@firebase/firestore';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { db } from '@/config/firebase';
+import { loadProfiles } from './profileLoader';
+
+const REMINDER_STATE_STORAGE_PREFIX = 'hive_reminders_';
+
+// How long a chat can be quiet before a reminder, as offered to the user (weeks)
+export const QUIET_WEEKS_OPTIONS = [2, 4, 8, 12];
+export const DEFAULT_QUIET_WEEKS = 4;
+
+export const SNOOZE_OPTIONS = [
+  { days: 1, label: 'Tomorrow' },
+  { days: 7, label: 'Next week' },
+  { days: 30, label: 'Next month' }
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK = 7 * DAY;
+// How long a message waits before it counts as needing a reply (ms)
+const REPLY_WAIT = DAY;
+// How far ahead anniversaries are shown (ms)
+const ANNIVERSARY_LOOKAHEAD = WEEK;
+// Months after connecting that are celebrated; after these, every year
+const MILESTONE_MONTHS = [1, 6];
+// Dismissals older than this are forgotten (ms)
+const DISMISSAL_RETENTION = 365 * DAY;
+
+export type ReminderType = 'reply' | 'anniversary' | 'quiet';
+
+// Replies first, then anniversaries, then quiet chats
+const TYPE_ORDER: Record<ReminderType, number> = { reply: 0, anniversary: 1, quiet: 2 };
+
+export interface HealthConnection {
+  id: string;
+  otherUserId: string;
+  otherUserName: string;
+  otherUserPhotoURL: string | null;
+  chatRoomId: string | null;
+  // Epoch ms, or null if unknown
+  acceptedAt: number | null;
+  lastMessageAt: number | null;
+  lastMessageUserId: string | null;
+}
+
+export interface Reminder {
+  key: string;
+  type: ReminderType;
+  connection: HealthConnection;
+  title: string;
+  detail: string;
+  // When it became, or for anniversaries becomes, due (epoch ms)
+  dueAt: number;
+}
+
+interface ReminderState {
+  quietWeeks: number;
+  // Snoozed reminders by key, until when (epoch ms)
+  snoozedUntil: Record<string, number>;
+  // Dismissed reminders by key, when (epoch ms)
+  dismissedAt: Record<string, number>;
+}
+
+const EMPTY_STATE: ReminderState = { quietWeeks: DEFAULT_QUIET_WEEKS, snoozedUntil: {}, dismissedAt: {} };
+
+const formatDate = (time: number): string =>
+  new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const plural = (count: number, unit: string): string => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+/**
+ * The same day some months later, or the month's last day if it's shorter
+ * (connected on 31 January, the first month is up on 28 or 29 February)
+ */
+const addMonths = (time: number, months: number): number => {
+  const date = new Date(time);
+  const day = date.getDate();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + months);
+  const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  date.setDate(Math.min(day, daysInMonth));
+  return date.getTime();
+};
+
+/**
+ * The first milestone of a connection that hasn't passed yet (today counts)
+ */
+export const getNextMilestone = (acceptedAt: number, now: number = Date.now()): { months: number; at: number } => {
+  const startOfToday = new Date(now).setHours(0, 0, 0, 0);
+  let months = MILESTONE_MONTHS[0];
+  let index = 0;
+
+  while (addMonths(acceptedAt, months) < startOfToday) {
+    index++;
+    months = index < MILESTONE_MONTHS.length
+      ? MILESTONE_MONTHS[index]
+      : (Math.floor(Math.max(months, 11) / 12) + 1) * 12;
+  }
+
+  return { months, at: addMonths(acceptedAt, months) };
+};
+
+const describeMilestone = (months: number): string =>
+  months < 12 ? plural(months, 'month') : plural(months / 12, 'year');
+
+/**
+ * Every reminder due for a user's connections, before snoozes and dismissals
+ */
+export const findReminders = (
+  uid: string,
+  connections: HealthConnection[],
+  quietWeeks: number,
+  now: number = Date.now()
+): Reminder[] => {
+  const reminders: Reminder[] = [];
+
+  connections.forEach(connection => {
+    const name = connection.otherUserName || 'Your connection';
+    const { lastMessageAt, lastMessageUserId, acceptedAt } = connection;
+
+    const awaitingReply = !!lastMessageAt && !!lastMessageUserId &&
+      lastMessageUserId !== uid && now - lastMessageAt >= REPLY_WAIT;
+
+    if (awaitingReply) {
+      reminders.push({
+        key: `reply_${connection.id}_${lastMessageAt}`,
+        type: 'reply',
+        connection,
+        title: `${name} is waiting for a reply`,
+        detail: `Their last message was on ${formatDate(lastMessageAt!)}`,
+        dueAt: lastMessageAt! + REPLY_WAIT
+      });
+    }
+
+    if (acceptedAt) {
+      const milestone = getNextMilestone(acceptedAt, now);
+      if (milestone.at - now <= ANNIVERSARY_LOOKAHEAD) {
+        reminders.push({
+          key: `anniversary_${connection.id}_${milestone.months}`,
+          type: 'anniversary',
+          connection,
+          title: `${describeMilestone(milestone.months)} connected with ${name}`,
+          detail: `On ${formatDate(milestone.at)}`,
+          dueAt: milestone.at
+        });
+      }
+    }
+
+    // A reply reminder already covers a quiet chat the other person ended
+    const lastActivity = lastMessageAt || acceptedAt;
+    if (!awaitingReply && lastActivity && now - lastActivity >= quietWeeks * WEEK) {
+      const weeks = Math.floor((now - lastActivity) / WEEK);
+      reminders.push({
+        key: `quiet_${connection.id}_${lastActivity}`,
+        type: 'quiet',
+        connection,
+        title: `You haven't talked to ${name} in ${plural(weeks, 'week')}`,
+        detail: lastMessageAt
+          ? `Last message on ${formatDate(lastMessageAt)}`
+          : `Connected on ${formatDate(lastActivity)}, no messages yet`,
+        dueAt: lastActivity + quietWeeks * WEEK
+      });
+    }
+  });
+
+  return reminders.sort((a, b) => TYPE_ORDER[a.type] - TYPE_ORDER[b.type] || a.dueAt - b.dueAt);
+};
+
+const readState = async (uid: string): Promise<ReminderState> => {
+  try {
+    const stored = await AsyncStorage.getItem(REMINDER_STATE_STORAGE_PREFIX + uid);
+    if (stored) return { ...EMPTY_STATE, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Error reading reminder state:', error);
+  }
+  return EMPTY_STATE;
+};
+
+const writeState = async (uid: string, state: ReminderState, now: number): Promise<void> => {
+  // Forget snoozes that have run out and dismissals from long ago
+  const snoozedUntil: Record<string, number> = {};
+  Object.keys(state.snoozedUntil).forEach(key => {
+    if (state.snoozedUntil[key] > now) snoozedUntil[key] = state.snoozedUntil[key];
+  });
+  const dismissedAt: Record<string, number> = {};
+  Object.keys(state.dismissedAt).forEach(key => {
+    if (now - state.dismissedAt[key] < DISMISSAL_RETENTION) dismissedAt[key] = state.dismissedAt[key];
+  });
+
+  try {
+    await AsyncStorage.setItem(
+      REMINDER_STATE_STORAGE_PREFIX + uid,
+      JSON.stringify({ ...state, snoozedUntil, dismissedAt })
+    );
+  } catch (error) {
+    console.error('Error saving reminder state:', error);
+  }
+};
+
+const toMillis = (value: any): number | null => (value?.toMillis ? value.toMillis() : null);
+
+/**
+ * Live reminders for a user's connections, with ways to snooze and dismiss
+ */
+export function useRelationshipHealth(uid?: string | null) {
+  // What the connection docs give; names, photos and chat activity are added later
+  const [connectionDocs, setConnectionDocs] = useState<
+    Pick<HealthConnection, 'id' | 'otherUserId' | 'chatRoomId' | 'acceptedAt'>[]
+  >([]);
+  const [chatRooms, setChatRooms] = useState<Record<string, any>>({});
+  const [profiles, setProfiles] = useState<Record<string, { name: string; photoURL: string | null }>>({});
+  const [state, setState] = useState<ReminderState>(EMPTY_STATE);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!uid) {
+      setConnectionDocs([]);
+      setChatRooms({});
+      setLoading(false);
+      return;
+    }
+
+    let active = true;
+    // Profiles load between snapshots; only the latest one may apply
+    let latestSnapshot = 0;
+
+    readState(uid).then(stored => {
+      if (active) setState(stored);
+    });
+
+    const unsubscribeConnections = onSnapshot(
+      query(
+        collection(db, 'connectionRequests'),
+        where('status', '==', 'accepted'),
+        where('participants', 'array-contains', uid)
+      ),
+      async snapshot => {
+        const snapshotId = ++latestSnapshot;
+        const docs = snapshot.docs.flatMap(connectionDoc => {
+          const data = connectionDoc.data();
+          const otherUserId: string | undefined = data.senderId === uid ? data.receiverId : data.senderId;
+          if (!otherUserId) return [];
+          return [{
+            id: connectionDoc.id,
+            otherUserId,
+            chatRoomId: data.chatRoomId || null,
+            acceptedAt: toMillis(data.acceptedAt)
+          }];
+        });
+        const loadedProfiles = await loadProfiles(docs.map(connection => connection.otherUserId));
+        if (!active || snapshotId !== latestSnapshot) return;
+        setProfiles(loadedProfiles);
+        setConnectionDocs(docs);
+        setLoading(false);
+      },
+      error => {
+        console.error('Error listening to connections for reminders:', error);
+        setLoading(false);
+      }
+    );
+
+    const unsubscribeChatRooms = onSnapshot(
+      query(collection(db, 'chatRooms'), where('participants', 'array-contains', uid)),
+      snapshot => {
+        const rooms: Record<string, any> = {};
+        snapshot.docs.forEach(chatRoomDoc => {
+          rooms[chatRoomDoc.id] = chatRoomDoc.data();
+        });
+        setChatRooms(rooms);
+      },
+      error => console.error('Error listening to chat rooms for reminders:', error)
+    );
+
+    return () => {
+      active = false;
+      unsubscribeConnections();
+      unsubscribeChatRooms();
+    };
+  }, [uid]);
+
+  const reminders = useMemo(() => {
+    if (!uid) return [];
+    const now = Date.now();
+
+    const connections: HealthConnection[] = connectionDocs.map(connection => {
+      const { otherUserId } = connection;
+      const chatRoom = connection.chatRoomId ? chatRooms[connection.chatRoomId] : null;
+      return {
+        ...connection,
+        otherUserName: profiles[otherUserId]?.name || 'Unknown User',
+        otherUserPhotoURL: profiles[otherUserId]?.photoURL || null,
+        lastMessageAt: toMillis(chatRoom?.lastMessageTimestamp),
+        lastMessageUserId: chatRoom?.lastMessage?.userId || null
+      };
+    });
+
+    return findReminders(uid, connections, state.quietWeeks, now).filter(reminder =>
+      !state.dismissedAt[reminder.key] && !((state.snoozedUntil[reminder.key] || 0) > now)
+    );
+  }, [uid, connectionDocs, chatRooms, profiles, state]);
+
+  const updateState = useCallback((change: (current: ReminderState) => ReminderState) => {
+    if (!uid) return;
+    setState(current => {
+      const next = change(current);
+      writeState(uid, next, Date.now());
+      return next;
+    });
+  }, [uid]);
+
+  const snoozeReminder = useCallback((key: string, days: number) => {
+    updateState(current => ({
+      ...current,
+      snoozedUntil: { ...current.snoozedUntil, [key]: Date.now() + days * DAY }
+    }));
+  }, [updateState]);
+
+  const dismissReminder = useCallback((key: string) => {
+    updateState(current => ({
+      ...current,
+      dismissedAt: { ...current.dismissedAt, [key]: Date.now() }
+    }));
+  }, [updateState]);
+
+  const setQuietWeeks = useCallback((quietWeeks: number) => {
+    updateState(current => ({ ...current, quietWeeks }));
+  }, [updateState]);
+
+  return {
+    reminders,
+    loading,
+    quietWeeks: state.quietWeeks,
+    setQuietWeeks,
+    snoozeReminder,
+    dismissReminder
+  };
+}
+
+export default {
+  QUIET_WEEKS_OPTIONS,
+  DEFAULT_QUIET_WEEKS,
+  SNOOZE_OPTIONS,
+  getNextMilestone,
+  findReminders,
+  useRelationshipHealth
+};
@@ -0,0 +1,290 @@
+/**
+ * Reporting users and messages, and the moderation queue
+ *
+ * A report lands in `reports` with a copy of what was reported, so a
+ * moderator still sees it after the message is deleted or the profile is
+ * edited. Moderators are users whose auth token carries the `moderator`
+ * role claim (set with `npm run set-moderator`); security rules check the
+ * same claim, `request.auth.token.role == 'moderator'`, before letting anyone
+ * read reports or act on them. A suspended user is signed out and kept off
+ * the map and out of chats, and a warned user is shown the warning once
+ * (see AuthContext).
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  collection,
+  doc,
+  addDoc,
+  onSnapshot,
+  query,
+  where,
+  writeBatch,
+  updateDoc,
+  increment,
+  serverTimestamp
+} from '@firebase/firestore';
+import { auth, db } from '@/config/firebase';
+
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate' | 'fakeProfile' | 'safety' | 'other';
+
+export const REPORT_REASONS: { key: ReportReason; label: string }[] = [
+  { key: 'spam', label: 'Spam or scam' },
+  { key: 'harassment', label: 'Harassment or hate' },
+  { key: 'inappropriate', label: 'Inappropriate content' },
+  { key: 'fakeProfile', label: 'Fake profile' },
+  { key: 'safety', label: 'Safety concern' },
+  { key: 'other', label: 'Something else' }
+];
+
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+export const MODERATOR_ROLE = 'moderator';
+
+export type ReportTarget = 'profile' | 'message';
+
+export type ModerationAction = 'dismiss' | 'warn' | 'suspend';
+
+// Copy of the reported content at the time of the report
+export interface ReportSnapshot {
+  name?: string | null;
+  bio?: string | null;
+  photoURL?: string | null;
+  text?: string | null;
+  messageType?: string | null;
+  mediaUrls?: string[];
+  sentAt?: number | null;
+}
+
+export interface ReportInput {
+  reportedId: string;
+  target: ReportTarget;
+  reason: ReportReason;
+  details: string;
+  snapshot: ReportSnapshot;
+  chatRoomId?: string | null;
+  messageId?: string | null;
+}
+
+export interface Report extends ReportInput {
+  id: string;
+  reporterId: string;
+  status: 'open' | 'resolved';
+  createdAt: Date | null;
+}
+
+export const getReportReasonLabel = (reason: ReportReason): string => {
+  return REPORT_REASONS.find(option => option.key === reason)?.label || 'Other';
+};
+
+/**
+ * Snapshot of a profile for a report
+ */
+export const snapshotProfile = (profile: any): ReportSnapshot => ({
+  name: profile?.name || null,
+  bio: profile?.bio || null,
+  photoURL: profile?.photoURL || null
+});
+
+/**
+ * Snapshot of a chat message for a report
+ */
+export const snapshotMessage = (message: any): ReportSnapshot => ({
+  name: message?.userName || null,
+  text: message?.text || null,
+  messageType: message?.type || null,
+  mediaUrls: [
+    ...(Array.isArray(message?.media) ? message.media.map((item: any) => item.uri).filter(Boolean) : []),
+    ...(message?.voiceUri ? [message.voiceUri] : [])
+  ],
+  sentAt: message?.createdAt instanceof Date ? message.createdAt.getTime() : null
+});
+
+export const submitReport = async (reporterId: string, report: ReportInput): Promise<string> => {
+  if (reporterId === report.reportedId) {
+    throw new Error('Cannot report yourself');
+  }
+
+  const reportRef = await addDoc(collection(db, 'reports'), {
+    ...report,
+    details: report.details.trim().slice(0, MAX_REPORT_DETAILS_LENGTH),
+    chatRoomId: report.chatRoomId || null,
+    messageId: report.messageId || null,
+    reporterId,
+    status: 'open',
+    createdAt: serverTimestamp()
+  });
+
+  console.log(`Report ${reportRef.id} filed against ${report.reportedId}`);
+  return reportRef.id;
+};
+
+/**
+ * Whether the signed-in user holds the moderator role claim
+ */
+export const isModerator = async (forceRefresh: boolean = false): Promise<boolean> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) return false;
+
+  try {
+    const token = await currentUser.getIdTokenResult(forceRefresh);
+    return token.claims.role === MODERATOR_ROLE;
+  } catch (error) {
+    console.error('Error reading role claim:', error);
+    return false;
+  }
+};
+
+export function useIsModerator(uid?: string | null) {
+  const [moderator, setModerator] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+
+    // A claim set since sign-in only shows up in a refreshed token
+    isModerator(true).then(result => {
+      if (!active) return;
+      setModerator(result);
+      setLoading(false);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [uid]);
+
+  return { moderator, loading };
+}
+
+/**
+ * Listen to open reports, oldest first
+ * Returns an unsubscribe function.
+ */
+export const subscribeToOpenReports = (
+  onChange: (reports: Report[]) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  return onSnapshot(
+    query(collection(db, 'reports'), where('status', '==', 'open')),
+    snapshot => {
+      const reports: Report[] = snapshot.docs.map(reportDoc => {
+        const data = reportDoc.data();
+        return {
+          ...(data as ReportInput),
+          id: reportDoc.id,
+          reporterId: data.reporterId,
+          status: data.status,
+          createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : null
+        };
+      });
+      reports.sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+      onChange(reports);
+    },
+    error => {
+      console.error('Error listening to reports:', error);
+      onError?.(error);
+    }
+  );
+};
+
+/**
+ * Close a report, warning or suspending the reported user along the way
+ * A suspension also closes every other open report against the same user.
+ */
+export const resolveReport = async (
+  moderatorId: string,
+  report: Report,
+  action: ModerationAction,
+  openReports: Report[] = []
+): Promise<void> => {
+  const batch = writeBatch(db);
+  const resolution = {
+    status: 'resolved',
+    action,
+    resolvedBy: moderatorId,
+    resolvedAt: serverTimestamp()
+  };
+
+  batch.update(doc(db, 'reports', report.id), resolution);
+
+  const userRef = doc(db, 'users', report.reportedId);
+  if (action === 'warn') {
+    batch.update(userRef, {
+      'moderation.warnings': increment(1),
+      'moderation.lastWarnedAt': serverTimestamp()
+    });
+  } else if (action === 'suspend') {
+    batch.update(userRef, {
+      'moderation.suspended': true,
+      'moderation.suspendedAt': serverTimestamp(),
+      'moderation.suspendedBy': moderatorId
+    });
+
+    openReports
+      .filter(other => other.id !== report.id && other.reportedId === report.reportedId)
+      .forEach(other => batch.update(doc(db, 'reports', other.id), resolution));
+  }
+
+  await batch.commit();
+  console.log(`Report ${report.id} resolved: ${action}`);
+};
+
+export interface ModerationStatus {
+  suspended: boolean;
+  // Warnings given, and how many of them the user has been shown
+  warnings: number;
+  warningsSeen: number;
+}
+
+export const SUSPENDED_MESSAGE =
+  'Your account has been suspended after a report was reviewed by a moderator.';
+export const WARNING_MESSAGE =
+  'A moderator reviewed a report about you and issued a warning. Please keep to the community guidelines; further reports may lead to a suspension.';
+
+/**
+ * Read the moderation fields `resolveReport` writes on a user doc
+ */
+export const getModerationStatus = (userData?: { moderation?: any } | null): ModerationStatus => {
+  const moderation = userData?.moderation || {};
+  return {
+    suspended: moderation.suspended === true,
+    warnings: typeof moderation.warnings === 'number' ? moderation.warnings : 0,
+    warningsSeen: typeof moderation.warningsSeen === 'number' ? moderation.warningsSeen : 0
+  };
+};
+
+/**
+ * Whether a user is suspended; they're signed out, and kept off the map
+ * and out of chats in the meantime
+ */
+export const isSuspended = (userData?: { moderation?: any } | null): boolean => {
+  return getModerationStatus(userData).suspended;
+};
+
+/**
+ * Record that the user has been shown their warnings
+ * The rules should let users write `moderation.warningsSeen` and no other
+ * moderation field on their own doc.
+ */
+export const acknowledgeWarnings = async (uid: string, warnings: number): Promise<void> => {
+  await updateDoc(doc(db, 'users', uid), { 'moderation.warningsSeen': warnings });
+};
+
+export default {
+  REPORT_REASONS,
+  MAX_REPORT_DETAILS_LENGTH,
+  MODERATOR_ROLE,
+  getReportReasonLabel,
+  snapshotProfile,
+  snapshotMessage,
+  submitReport,
+  isModerator,
+  useIsModerator,
+  subscribeToOpenReports,
+  resolveReport,
+  getModerationStatus,
+  isSuspended,
+  acknowledgeWarnings
+};
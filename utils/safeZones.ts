@@ -0,0 +1,144 @@
+/**
+ * Private safe zones
+ *
+ * A safe zone is a circle (home, work...) inside which the user is either
+ * hidden or only shown as a coarse area. Zones are kept in AsyncStorage on
+ * this device and never written to Firestore, so nobody else can read them;
+ * `saveUserLocation` checks them before every write. The active zone is
+ * remembered too, so visibility changes made while inside one stay hidden.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getDistanceFromLatLonInMeters } from './geospatial';
+import { snapToGrid, stableJitter, ObfuscatedLocation } from './locationPrivacy';
+
+const ZONES_STORAGE_PREFIX = 'hive_safe_zones_';
+const ACTIVE_ZONE_STORAGE_PREFIX = 'hive_safe_zone_active_';
+
+// Meters per degree of latitude
+const METERS_PER_DEGREE = 111320;
+// Grid cell and jitter (m) for positions published from a blur zone
+const BLUR_GRID_SIZE = 2000;
+const BLUR_JITTER = 500;
+
+// Radii offered when drawing a zone (m)
+export const SAFE_ZONE_RADII = [100, 200, 400, 800];
+export const DEFAULT_SAFE_ZONE_RADIUS = 200;
+
+// 'hide' stops publishing entirely; 'blur' publishes a ~2 km area instead
+export type SafeZoneMode = 'hide' | 'blur';
+
+export interface SafeZone {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius: number;
+  mode: SafeZoneMode;
+}
+
+/**
+ * Load the zones saved on this device for a user
+ */
+export const loadSafeZones = async (uid: string): Promise<SafeZone[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(ZONES_STORAGE_PREFIX + uid);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading safe zones:', error);
+    return [];
+  }
+};
+
+/**
+ * Replace the zones saved on this device for a user
+ */
+export const saveSafeZones = async (uid: string, zones: SafeZone[]): Promise<void> => {
+  await AsyncStorage.setItem(ZONES_STORAGE_PREFIX + uid, JSON.stringify(zones));
+
+  // Keep the active zone in step with edits; the next location write
+  // re-checks it against the real position
+  const activeZone = await getActiveSafeZone(uid);
+  if (activeZone) {
+    await setActiveSafeZone(uid, zones.find(zone => zone.id === activeZone.id) || null);
+  }
+};
+
+/**
+ * Create a zone with a fresh id
+ */
+export const createSafeZone = (zone: Omit<SafeZone, 'id'>): SafeZone => {
+  return {
+    ...zone,
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+  };
+};
+
+/**
+ * Find the zone a position is in
+ * When zones overlap, hiding wins over blurring, then the smaller zone wins.
+ */
+export const findSafeZone = (zones: SafeZone[], latitude: number, longitude: number): SafeZone | null => {
+  const containing = zones.filter(zone =>
+    getDistanceFromLatLonInMeters(latitude, longitude, zone.latitude, zone.longitude) <= zone.radius
+  );
+  if (containing.length === 0) return null;
+
+  return containing.sort((a, b) => {
+    if (a.mode !== b.mode) return a.mode === 'hide' ? -1 : 1;
+    return a.radius - b.radius;
+  })[0];
+};
+
+/**
+ * Get the zone the last location write was made from, if any
+ */
+export const getActiveSafeZone = async (uid: string): Promise<SafeZone | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(ACTIVE_ZONE_STORAGE_PREFIX + uid);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error loading active safe zone:', error);
+    return null;
+  }
+};
+
+/**
+ * Remember which zone (if any) the last location write was made from
+ */
+export const setActiveSafeZone = async (uid: string, zone: SafeZone | null): Promise<void> => {
+  if (zone) {
+    await AsyncStorage.setItem(ACTIVE_ZONE_STORAGE_PREFIX + uid, JSON.stringify(zone));
+  } else {
+    await AsyncStorage.removeItem(ACTIVE_ZONE_STORAGE_PREFIX + uid);
+  }
+};
+
+/**
+ * Get the position to publish from inside a blur zone
+ * It is derived from the zone's center rather than the device, so it stays
+ * put while the user moves around inside the zone.
+ */
+export const getBlurredZoneLocation = (uid: string, zone: SafeZone): ObfuscatedLocation => {
+  const snapped = snapToGrid(zone.latitude, zone.longitude, BLUR_GRID_SIZE);
+  const offset = stableJitter(uid, snapped.cellKey, BLUR_JITTER);
+
+  return {
+    latitude: snapped.latitude + offset.north / METERS_PER_DEGREE,
+    longitude: snapped.longitude +
+      offset.east / (METERS_PER_DEGREE * Math.max(Math.cos(snapped.latitude * (Math.PI / 180)), 0.01)),
+    precisionRadius: Math.round(BLUR_GRID_SIZE * Math.SQRT1_2 + BLUR_JITTER)
+  };
+};
+
+export default {
+  SAFE_ZONE_RADII,
+  DEFAULT_SAFE_ZONE_RADIUS,
+  loadSafeZones,
+  saveSafeZones,
+  createSafeZone,
+  findSafeZone,
+  getActiveSafeZone,
+  setActiveSafeZone,
+  getBlurredZoneLocation
+};
@@ -0,0 +1,250 @@
+/**
+ * Visibility schedules and ghost mode
+ *
+ * The Location Visibility switch stays the master control; a schedule can
+ * only narrow it down to certain windows, and ghost mode hides the user
+ * outright until a given time. Schedules are evaluated on the device in
+ * local time and enforced by `saveUserLocation`. They are stored on the
+ * user's profile doc with their other settings, so anyone who can read the
+ * profile can read the schedule too; the app just never shows it to them.
+ */
+
+const MINUTES_PER_DAY = 24 * 60;
+// How far ahead to look for the next change (days)
+const LOOKAHEAD_DAYS = 8;
+// "Tomorrow morning" for ghost mode
+const MORNING_HOUR = 8;
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+export const WEEKEND = [0, 6];
+export const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+export interface VisibilityWindow {
+  // Days of the week the window starts on (0 = Sunday)
+  days: number[];
+  // Minutes since local midnight; an end at or before the start runs past midnight
+  start: number;
+  end: number;
+}
+
+export interface VisibilitySchedule {
+  // When on, the user is only visible inside one of the windows
+  enabled: boolean;
+  windows: VisibilityWindow[];
+  // Ghost mode: hidden regardless of anything else until this time (epoch ms)
+  ghostUntil: number | null;
+}
+
+export type VisibilityMode = 'hidden' | 'visible' | 'ghost' | 'scheduledVisible' | 'scheduledHidden';
+
+export interface VisibilityStatus {
+  visible: boolean;
+  mode: VisibilityMode;
+  // When the effective visibility next flips (epoch ms), if it will
+  nextChange: number | null;
+}
+
+export const DEFAULT_VISIBILITY_SCHEDULE: VisibilitySchedule = {
+  enabled: false,
+  windows: [],
+  ghostUntil: null
+};
+
+// Windows offered as one-tap additions
+export const WINDOW_PRESETS: Array<{ label: string; window: VisibilityWindow }> = [
+  { label: 'Weekday lunch (12-2 PM)', window: { days: WEEKDAYS, start: 12 * 60, end: 14 * 60 } },
+  { label: 'Evenings (after 6 PM)', window: { days: EVERY_DAY, start: 18 * 60, end: MINUTES_PER_DAY } },
+  { label: 'Weekends (all day)', window: { days: WEEKEND, start: 0, end: MINUTES_PER_DAY } }
+];
+
+/**
+ * Fill in defaults for a schedule read from a user profile
+ */
+export const resolveVisibilitySchedule = (schedule?: Partial<VisibilitySchedule> | null): VisibilitySchedule => {
+  return {
+    enabled: schedule?.enabled === true,
+    windows: Array.isArray(schedule?.windows) ? schedule!.windows : [],
+    ghostUntil: typeof schedule?.ghostUntil === 'number' ? schedule.ghostUntil : null
+  };
+};
+
+/**
+ * Expand windows into concrete [start, end) intervals around a point in time
+ */
+const getIntervals = (windows: VisibilityWindow[], now: number): Array<[number, number]> => {
+  const today = new Date(now);
+  const intervals: Array<[number, number]> = [];
+
+  // Start a day back so windows that began yesterday and run past midnight count
+  for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+    const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset);
+
+    windows.forEach(window => {
+      if (!window.days.includes(day.getDay())) return;
+
+      const end = window.end <= window.start ? window.end + MINUTES_PER_DAY : window.end;
+      // Building from date parts keeps wall-clock times right across DST changes
+      intervals.push([
+        new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, window.start).getTime(),
+        new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, end).getTime()
+      ]);
+    });
+  }
+
+  return intervals;
+};
+
+/**
+ * Check whether a time falls inside any interval
+ */
+const isInside = (intervals: Array<[number, number]>, time: number): boolean => {
+  return intervals.some(([start, end]) => time >= start && time < end);
+};
+
+/**
+ * Work out whether the schedule alone shows the user at a time, and when that flips
+ */
+const evaluateWindows = (windows: VisibilityWindow[], now: number): { inside: boolean; nextChange: number | null } => {
+  const intervals = getIntervals(windows, now);
+  const inside = isInside(intervals, now);
+
+  // The first boundary where the answer differs; overlapping or
+  // back-to-back windows produce boundaries that don't flip anything
+  const boundaries = intervals
+    .flatMap(interval => interval)
+    .filter(boundary => boundary > now)
+    .sort((a, b) => a - b);
+
+  const nextChange = boundaries.find(boundary => isInside(intervals, boundary) !== inside);
+  return { inside, nextChange: nextChange ?? null };
+};
+
+/**
+ * Work out the effective visibility from the master switch and the schedule
+ */
+export const getVisibilityStatus = (
+  manualVisible: boolean,
+  schedule?: Partial<VisibilitySchedule> | null,
+  now: number = Date.now()
+): VisibilityStatus => {
+  if (!manualVisible) {
+    return { visible: false, mode: 'hidden', nextChange: null };
+  }
+
+  const resolved = resolveVisibilitySchedule(schedule);
+
+  if (resolved.ghostUntil !== null && resolved.ghostUntil > now) {
+    // Ghost mode ends at ghostUntil, but the schedule may keep the user hidden longer
+    const after = getVisibilityStatus(manualVisible, { ...resolved, ghostUntil: null }, resolved.ghostUntil);
+    return {
+      visible: false,
+      mode: 'ghost',
+      nextChange: after.visible ? resolved.ghostUntil : after.nextChange
+    };
+  }
+
+  if (!resolved.enabled || resolved.windows.length === 0) {
+    return { visible: true, mode: 'visible', nextChange: null };
+  }
+
+  const { inside, nextChange } = evaluateWindows(resolved.windows, now);
+  return {
+    visible: inside,
+    mode: inside ? 'scheduledVisible' : 'scheduledHidden',
+    nextChange
+  };
+};
+
+/**
+ * Get the next occurrence of the morning cut-off, for "hide until tomorrow morning"
+ */
+export const getNextMorning = (now: number = Date.now()): number => {
+  const date = new Date(now);
+  const morning = new Date(date.getFullYear(), date.getMonth(), date.getDate(), MORNING_HOUR);
+  if (morning.getTime() <= now) {
+    morning.setDate(morning.getDate() + 1);
+  }
+  return morning.getTime();
+};
+
+/**
+ * Format minutes since midnight as a clock time, e.g. "6:00 PM"
+ */
+export const formatMinutes = (minutes: number): string => {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60);
+  const mins = normalized % 60;
+  const suffix = hours < 12 ? 'AM' : 'PM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${mins.toString().padStart(2, '0')} ${suffix}`;
+};
+
+/**
+ * Describe a window, e.g. "Weekdays, 12:00 PM - 2:00 PM"
+ */
+export const formatWindow = (window: VisibilityWindow): string => {
+  const days = [...window.days].sort();
+  let dayLabel: string;
+  if (days.length === 7) {
+    dayLabel = 'Every day';
+  } else if (days.join() === WEEKDAYS.join()) {
+    dayLabel = 'Weekdays';
+  } else if (days.join() === WEEKEND.join()) {
+    dayLabel = 'Weekends';
+  } else {
+    dayLabel = days.map(day => DAY_LABELS[day]).join(', ');
+  }
+
+  if (window.start === 0 && window.end === MINUTES_PER_DAY) {
+    return `${dayLabel}, all day`;
+  }
+  return `${dayLabel}, ${formatMinutes(window.start)} - ${formatMinutes(window.end)}`;
+};
+
+/**
+ * Format a point in time relative to now, e.g. "2:00 PM" or "Tue 8:00 AM"
+ */
+export const formatChangeTime = (time: number, now: number = Date.now()): string => {
+  const date = new Date(time);
+  const clock = formatMinutes(date.getHours() * 60 + date.getMinutes());
+  const sameDay = new Date(now).toDateString() === date.toDateString();
+  return sameDay ? clock : `${DAY_LABELS[date.getDay()]} ${clock}`;
+};
+
+/**
+ * One-line summary of the current mode and the next change
+ */
+export const describeVisibilityStatus = (status: VisibilityStatus, now: number = Date.now()): string => {
+  const next = status.nextChange !== null ? formatChangeTime(status.nextChange, now) : null;
+
+  switch (status.mode) {
+    case 'ghost':
+      return next ? `Ghost mode until ${next}` : 'Ghost mode';
+    case 'scheduledVisible':
+      return next ? `Visible until ${next}` : 'Visible';
+    case 'scheduledHidden':
+      return next ? `Hidden until ${next}` : 'Hidden by schedule';
+    case 'visible':
+      return 'Visible';
+    case 'hidden':
+    default:
+      return 'Hidden';
+  }
+};
+
+export default {
+  DAY_LABELS,
+  WEEKDAYS,
+  WEEKEND,
+  EVERY_DAY,
+  DEFAULT_VISIBILITY_SCHEDULE,
+  WINDOW_PRESETS,
+  resolveVisibilitySchedule,
+  getVisibilityStatus,
+  getNextMorning,
+  formatMinutes,
+  formatWindow,
+  formatChangeTime,
+  describeVisibilityStatus
+};